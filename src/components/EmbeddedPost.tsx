@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import { Post, SensitiveMediaPreference, User } from '@/types';
+import { getPostById, getUserData } from '@/services/postsService';
+import MentionText from '@/components/MentionText';
+import SensitiveMediaOverlay from '@/components/SensitiveMediaOverlay';
+import { getImageAccessibilityLabel } from '@/utils/imageUtils';
+import { getSensitiveMediaState, SENSITIVE_MEDIA_BLUR_RADIUS } from '@/utils/contentWarnings';
+
+interface EmbeddedPostProps {
+  postId: string;
+  sensitiveMediaPreference: SensitiveMediaPreference;
+  onPressAuthor?: (userId: string) => void;
+}
+
+// Compact card for the original post inside a repost or quote post
+const EmbeddedPost: React.FC<EmbeddedPostProps> = ({ postId, sensitiveMediaPreference, onPressAuthor }) => {
+  const [post, setPost] = useState<Post | null>(null);
+  const [author, setAuthor] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [mediaRevealed, setMediaRevealed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOriginal = async () => {
+      try {
+        const original = await getPostById(postId);
+        const originalAuthor = original ? await getUserData(original.userId) : null;
+        if (!cancelled) {
+          setPost(original);
+          setAuthor(originalAuthor);
+        }
+      } catch (error) {
+        console.error('Error loading original post:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadOriginal();
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="small" color="white" />
+      </View>
+    );
+  }
+
+  if (!post) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.unavailableText}>This post is no longer available.</Text>
+      </View>
+    );
+  }
+
+  if (post.moderationStatus === 'rejected') {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.unavailableText}>This post was removed by moderators.</Text>
+      </View>
+    );
+  }
+
+  const firstImage = post.images?.[0];
+  const mediaState = getSensitiveMediaState(post, sensitiveMediaPreference, mediaRevealed);
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={() => onPressAuthor?.(post.userId)} disabled={!onPressAuthor}>
+        <Text style={styles.authorName}>{author?.displayName || 'Unknown user'}</Text>
+      </TouchableOpacity>
+      {!!post.contentWarning && (
+        <Text style={styles.contentWarningLabel}>⚠️ {post.contentWarning}</Text>
+      )}
+      {!!post.content && (
+        <MentionText
+          text={post.content}
+          mentions={post.mentions}
+          style={styles.content}
+          numberOfLines={6}
+          onPressMention={onPressAuthor}
+        />
+      )}
+      {firstImage && (
+        <View style={styles.imageContainer}>
+          {mediaState === 'hidden' ? (
+            <SensitiveMediaOverlay state="hidden" onReveal={() => setMediaRevealed(true)} />
+          ) : (
+            <Image
+              source={{ uri: firstImage.data }}
+              style={styles.image}
+              resizeMode="cover"
+              blurRadius={mediaState === 'blurred' ? SENSITIVE_MEDIA_BLUR_RADIUS : 0}
+              accessible
+              accessibilityLabel={getImageAccessibilityLabel(firstImage)}
+            />
+          )}
+          {mediaState === 'blurred' && (
+            <SensitiveMediaOverlay state="blurred" onReveal={() => setMediaRevealed(true)} />
+          )}
+        </View>
+      )}
+      {post.poll && <Text style={styles.metaText}>📊 Poll · {post.poll.options.length} options</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  authorName: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  content: {
+    color: 'white',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  contentWarningLabel: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(243, 156, 18, 0.15)',
+    color: '#f5b041',
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    marginBottom: 6,
+    overflow: 'hidden',
+  },
+  imageContainer: {
+    marginTop: 8,
+  },
+  image: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+  },
+  metaText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  unavailableText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+    fontStyle: 'italic',
+  },
+});
+
+export default EmbeddedPost;
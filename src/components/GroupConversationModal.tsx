@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  Alert,
+  Platform,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Conversation, User } from '@/types';
+import {
+  MAX_GROUP_NAME_LENGTH,
+  addGroupMembers,
+  createGroupConversation,
+  leaveGroup,
+  removeGroupMember,
+  setGroupAdmin,
+  updateGroupDetails
+} from '@/services/friendsService';
+
+interface GroupConversationModalProps {
+  visible: boolean;
+  conversation?: Conversation | null; // the group to manage; a new group is created when missing
+  members: Record<string, User>;
+  friends: User[];
+  currentUserId?: string;
+  onClose: () => void;
+  onCreated: (conversationId: string) => void;
+  onLeft: () => void;
+}
+
+const GroupConversationModal: React.FC<GroupConversationModalProps> = ({
+  visible,
+  conversation,
+  members,
+  friends,
+  currentUserId,
+  onClose,
+  onCreated,
+  onLeft,
+}) => {
+  const [groupName, setGroupName] = useState('');
+  const [groupAvatar, setGroupAvatar] = useState('');
+  const [selectedFriendIds, setSelectedFriendIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setGroupName(conversation?.name || '');
+    setGroupAvatar(conversation?.avatar || '');
+    setSelectedFriendIds([]);
+  }, [visible, conversation?.id]);
+
+  const isCreating = !conversation;
+  const isAdmin = !!currentUserId && !!conversation?.admins?.includes(currentUserId);
+  const canEditDetails = isCreating || isAdmin;
+  const selectableFriends = friends.filter(friend => !conversation?.participants.includes(friend.id));
+
+  const toggleFriend = (friendId: string) => {
+    setSelectedFriendIds(prev =>
+      prev.includes(friendId) ? prev.filter(id => id !== friendId) : [...prev, friendId]
+    );
+  };
+
+  const pickGroupAvatar = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.5,
+        base64: true,
+      });
+
+      if (!result.canceled && result.assets && result.assets[0]?.base64) {
+        setGroupAvatar(`data:image/jpeg;base64,${result.assets[0].base64}`);
+      }
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert('Error', 'Failed to pick image');
+    }
+  };
+
+  const runGroupAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setSaving(true);
+    try {
+      await action();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = () => runGroupAction(async () => {
+    const conversationId = await createGroupConversation(groupName, selectedFriendIds, groupAvatar || undefined);
+    onCreated(conversationId);
+  }, 'Failed to create group');
+
+  const handleSaveDetails = () => runGroupAction(async () => {
+    if (!conversation) return;
+    await updateGroupDetails(conversation.id, { name: groupName, avatar: groupAvatar });
+    Alert.alert('Success', 'Group updated');
+  }, 'Failed to update group');
+
+  const handleAddMembers = () => runGroupAction(async () => {
+    if (!conversation) return;
+    await addGroupMembers(conversation.id, selectedFriendIds);
+    setSelectedFriendIds([]);
+  }, 'Failed to add members');
+
+  const handleToggleAdmin = (memberId: string) => runGroupAction(async () => {
+    if (!conversation) return;
+    await setGroupAdmin(conversation.id, memberId, !conversation.admins?.includes(memberId));
+  }, 'Failed to update admins');
+
+  const handleRemoveMember = async (memberId: string) => {
+    if (!conversation) return;
+    const memberName = members[memberId]?.displayName || 'this member';
+
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(`Remove ${memberName} from the group?`)
+      : await new Promise<boolean>(resolve =>
+          Alert.alert('Remove Member', `Remove ${memberName} from the group?`, [
+            { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Remove', style: 'destructive', onPress: () => resolve(true) },
+          ])
+        );
+    if (!confirmed) return;
+
+    await runGroupAction(() => removeGroupMember(conversation.id, memberId), 'Failed to remove member');
+  };
+
+  const handleLeave = async () => {
+    if (!conversation) return;
+
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm('Leave this group?')
+      : await new Promise<boolean>(resolve =>
+          Alert.alert('Leave Group', 'Leave this group?', [
+            { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Leave', style: 'destructive', onPress: () => resolve(true) },
+          ])
+        );
+    if (!confirmed) return;
+
+    await runGroupAction(async () => {
+      await leaveGroup(conversation.id);
+      onLeft();
+    }, 'Failed to leave group');
+  };
+
+  const renderFriendPicker = () => (
+    <>
+      <Text style={styles.sectionTitle}>{isCreating ? 'Members' : 'Add members'}</Text>
+      {selectableFriends.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {isCreating ? 'Add some friends to start a group' : 'All your friends are already here'}
+        </Text>
+      ) : (
+        selectableFriends.map(friend => {
+          const selected = selectedFriendIds.includes(friend.id);
+          return (
+            <TouchableOpacity key={friend.id} style={styles.memberRow} onPress={() => toggleFriend(friend.id)}>
+              <Text style={styles.memberName}>{friend.displayName}</Text>
+              <Text style={[styles.checkbox, selected && styles.checkboxSelected]}>{selected ? '✓' : ''}</Text>
+            </TouchableOpacity>
+          );
+        })
+      )}
+    </>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{isCreating ? 'New Group' : conversation?.name || 'Group'}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <View style={styles.detailsRow}>
+              <TouchableOpacity onPress={pickGroupAvatar} disabled={!canEditDetails}>
+                {groupAvatar ? (
+                  <Image source={{ uri: groupAvatar }} style={styles.avatar} />
+                ) : (
+                  <View style={[styles.avatar, styles.avatarPlaceholder]}>
+                    <Text style={styles.avatarIcon}>👥</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+              <View style={styles.detailsContent}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Group name"
+                  placeholderTextColor="#999"
+                  value={groupName}
+                  onChangeText={setGroupName}
+                  maxLength={MAX_GROUP_NAME_LENGTH}
+                  editable={canEditDetails}
+                />
+                {canEditDetails && !!groupAvatar && (
+                  <TouchableOpacity onPress={() => setGroupAvatar('')}>
+                    <Text style={styles.linkText}>Remove photo</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+
+            {!isCreating && isAdmin && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleSaveDetails} disabled={saving}>
+                <Text style={styles.secondaryButtonText}>Save name and photo</Text>
+              </TouchableOpacity>
+            )}
+
+            {conversation && (
+              <>
+                <Text style={styles.sectionTitle}>{conversation.participants.length} members</Text>
+                {conversation.participants.map(memberId => {
+                  const memberIsAdmin = !!conversation.admins?.includes(memberId);
+                  const isSelf = memberId === currentUserId;
+                  return (
+                    <View key={memberId} style={styles.memberRow}>
+                      <Text style={styles.memberName} numberOfLines={1}>
+                        {members[memberId]?.displayName || 'Member'}{isSelf ? ' (you)' : ''}
+                      </Text>
+                      {memberIsAdmin && <Text style={styles.adminBadge}>Admin</Text>}
+                      {isAdmin && !isSelf && (
+                        <View style={styles.memberActions}>
+                          <TouchableOpacity onPress={() => handleToggleAdmin(memberId)} disabled={saving}>
+                            <Text style={styles.linkText}>{memberIsAdmin ? 'Remove admin' : 'Make admin'}</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity onPress={() => handleRemoveMember(memberId)} disabled={saving}>
+                            <Text style={styles.removeText}>Remove</Text>
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </View>
+                  );
+                })}
+              </>
+            )}
+
+            {canEditDetails && renderFriendPicker()}
+
+            {isCreating ? (
+              <TouchableOpacity
+                style={[styles.primaryButton, (!groupName.trim() || selectedFriendIds.length === 0) && styles.buttonDisabled]}
+                onPress={handleCreate}
+                disabled={saving || !groupName.trim() || selectedFriendIds.length === 0}
+              >
+                {saving ? <ActivityIndicator color="white" /> : <Text style={styles.primaryButtonText}>Create group</Text>}
+              </TouchableOpacity>
+            ) : (
+              <>
+                {isAdmin && selectedFriendIds.length > 0 && (
+                  <TouchableOpacity style={styles.primaryButton} onPress={handleAddMembers} disabled={saving}>
+                    <Text style={styles.primaryButtonText}>Add {selectedFriendIds.length} to group</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.leaveButton} onPress={handleLeave} disabled={saving}>
+                  <Text style={styles.leaveButtonText}>Leave group</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  close: {
+    fontSize: 20,
+    color: '#666',
+  },
+  detailsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  detailsContent: {
+    flex: 1,
+    marginLeft: 15,
+  },
+  avatar: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#667eea',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarIcon: {
+    fontSize: 28,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 15,
+    color: '#333',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  emptyText: {
+    color: '#999',
+    fontSize: 14,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  adminBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#667eea',
+    marginRight: 10,
+  },
+  memberActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  linkText: {
+    color: '#667eea',
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  removeText: {
+    color: '#e74c3c',
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    textAlign: 'center',
+    color: 'white',
+    fontWeight: 'bold',
+    overflow: 'hidden',
+  },
+  checkboxSelected: {
+    backgroundColor: '#667eea',
+    borderColor: '#667eea',
+  },
+  primaryButton: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#667eea',
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  secondaryButtonText: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  leaveButton: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e74c3c',
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  leaveButtonText: {
+    color: '#e74c3c',
+    fontWeight: 'bold',
+  },
+});
+
+export default GroupConversationModal;
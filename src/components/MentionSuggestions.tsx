@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { User } from '@/types';
+import { searchMentionableUsers } from '@/services/mentionsService';
+
+interface MentionSuggestionsProps {
+  query: string | null; // Text typed after '@', or null when no mention is being typed
+  onSelect: (user: User) => void;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+// Autocomplete list shown under a text input while an @mention is being typed
+const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({ query, onSelect }) => {
+  const [suggestions, setSuggestions] = useState<User[]>([]);
+
+  useEffect(() => {
+    if (query === null || query.length === 0) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const users = await searchMentionableUsers(query);
+        if (!cancelled) setSuggestions(users);
+      } catch (error) {
+        console.error('Error loading mention suggestions:', error);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  if (query === null || suggestions.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {suggestions.map((user) => (
+        <TouchableOpacity key={user.id} style={styles.suggestion} onPress={() => onSelect(user)}>
+          <Image
+            source={{ uri: user.profilePicture || 'https://via.placeholder.com/28' }}
+            style={styles.avatar}
+          />
+          <Text style={styles.name}>{user.displayName}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(30, 30, 50, 0.95)',
+    borderRadius: 10,
+    paddingVertical: 4,
+    marginVertical: 6,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  avatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: 10,
+  },
+  name: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default MentionSuggestions;
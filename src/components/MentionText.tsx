@@ -0,0 +1,58 @@
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { Mention } from '@/types';
+
+interface MentionTextProps {
+  text: string;
+  mentions?: Mention[];
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+  onPressMention?: (userId: string) => void;
+}
+
+// Renders text with its stored mention entities as tappable names
+const MentionText: React.FC<MentionTextProps> = ({ text, mentions, style, numberOfLines, onPressMention }) => {
+  // Skip entities that no longer line up with the text, e.g. after an edit
+  const validMentions = (mentions || [])
+    .filter(m => text.substr(m.start, m.length) === `@${m.displayName}`)
+    .sort((a, b) => a.start - b.start);
+
+  if (validMentions.length === 0) {
+    return <Text style={style} numberOfLines={numberOfLines}>{text}</Text>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  validMentions.forEach((mention, index) => {
+    if (mention.start < cursor) return;
+    if (mention.start > cursor) {
+      parts.push(text.slice(cursor, mention.start));
+    }
+    parts.push(
+      <Text
+        key={`mention-${index}`}
+        style={styles.mention}
+        onPress={onPressMention ? () => onPressMention(mention.userId) : undefined}
+      >
+        {text.substr(mention.start, mention.length)}
+      </Text>
+    );
+    cursor = mention.start + mention.length;
+  });
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <Text style={style} numberOfLines={numberOfLines}>{parts}</Text>;
+};
+
+const styles = StyleSheet.create({
+  mention: {
+    fontWeight: 'bold',
+    textDecorationLine: 'underline',
+  },
+});
+
+export default MentionText;
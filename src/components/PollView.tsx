@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Post, PollVote } from '@/types';
+import {
+  votePoll,
+  subscribeToPollTotal,
+  subscribeToPollResults,
+  subscribeToMyPollVote,
+  isPollClosed
+} from '@/services/postsService';
+
+interface PollViewProps {
+  post: Post;
+  currentUserId?: string;
+}
+
+const formatTimeLeft = (expiresAt: Date): string => {
+  const diff = expiresAt.getTime() - Date.now();
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) return `${days}d left`;
+  if (hours > 0) return `${hours}h left`;
+  return `${Math.max(1, Math.floor(diff / 60000))}m left`;
+};
+
+const PollView: React.FC<PollViewProps> = ({ post, currentUserId }) => {
+  const poll = post.poll!;
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [totalVotes, setTotalVotes] = useState(post.pollTotalVotes || 0);
+  const [myVote, setMyVote] = useState<PollVote | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const unsubscribeTotal = subscribeToPollTotal(post.id, setTotalVotes);
+    const unsubscribeVote = currentUserId
+      ? subscribeToMyPollVote(post.id, currentUserId, setMyVote)
+      : undefined;
+
+    return () => {
+      unsubscribeTotal();
+      unsubscribeVote?.();
+    };
+  }, [post.id, currentUserId]);
+
+  const closed = isPollClosed(poll);
+  // Results stay hidden until the viewer has voted or the poll has closed; the rules
+  // refuse to send them before that
+  const showResults = !!myVote || closed;
+
+  useEffect(() => {
+    if (!showResults) return;
+    return subscribeToPollResults(post.id, setCounts);
+  }, [post.id, showResults]);
+
+  const submitVote = async (optionIds: string[]) => {
+    if (submitting || optionIds.length === 0) return;
+
+    setSubmitting(true);
+    try {
+      await votePoll(post.id, optionIds);
+      setSelectedIds([]);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to submit vote');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOptionPress = (optionId: string) => {
+    if (!poll.allowMultiple) {
+      submitVote([optionId]);
+      return;
+    }
+    setSelectedIds(prev =>
+      prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {poll.options.map((option) => {
+        const votes = counts[option.id] || 0;
+        const percentage = totalVotes > 0 ? Math.round((votes / totalVotes) * 100) : 0;
+        const isMine = myVote?.optionIds.includes(option.id);
+        const isSelected = selectedIds.includes(option.id);
+
+        if (showResults) {
+          return (
+            <View key={option.id} style={[styles.option, isMine && styles.optionMine]}>
+              <View style={[styles.resultBar, { width: `${percentage}%` }]} />
+              <Text style={styles.optionText}>{isMine ? '✓ ' : ''}{option.text}</Text>
+              <Text style={styles.percentageText}>{percentage}%</Text>
+            </View>
+          );
+        }
+
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.option, isSelected && styles.optionSelected]}
+            onPress={() => handleOptionPress(option.id)}
+            disabled={submitting || !currentUserId}
+          >
+            <Text style={styles.optionText}>
+              {poll.allowMultiple ? (isSelected ? '☑ ' : '☐ ') : ''}{option.text}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {!showResults && poll.allowMultiple && (
+        <TouchableOpacity
+          style={[styles.voteButton, (selectedIds.length === 0 || submitting) && styles.voteButtonDisabled]}
+          onPress={() => submitVote(selectedIds)}
+          disabled={selectedIds.length === 0 || submitting}
+        >
+          <Text style={styles.voteButtonText}>{submitting ? 'Voting...' : 'Vote'}</Text>
+        </TouchableOpacity>
+      )}
+
+      <Text style={styles.footerText}>
+        {totalVotes} {totalVotes === 1 ? 'vote' : 'votes'}
+        {poll.allowMultiple ? ' · Multiple choice' : ''}
+        {closed ? ' · Poll closed' : poll.expiresAt ? ` · ${formatTimeLeft(poll.expiresAt)}` : ''}
+        {!showResults ? ' · Vote to see results' : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  option: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  optionSelected: {
+    borderColor: 'white',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  optionMine: {
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  resultBar: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  optionText: {
+    color: 'white',
+    fontSize: 14,
+    flexShrink: 1,
+  },
+  percentageText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginLeft: 10,
+  },
+  voteButton: {
+    backgroundColor: 'rgba(118, 75, 162, 0.8)',
+    borderRadius: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  voteButtonDisabled: {
+    opacity: 0.5,
+  },
+  voteButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  footerText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+  },
+});
+
+export default PollView;
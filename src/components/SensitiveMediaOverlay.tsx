@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SensitiveMediaState } from '@/utils/contentWarnings';
+
+interface SensitiveMediaOverlayProps {
+  state: Exclude<SensitiveMediaState, 'visible'>;
+  onReveal: () => void;
+}
+
+// Goes inside the images container: covers blurred images until tapped, and stands in for
+// them entirely when the viewer hides sensitive media. The warning label itself is shown
+// with the post's text.
+const SensitiveMediaOverlay: React.FC<SensitiveMediaOverlayProps> = ({ state, onReveal }) => {
+  if (state === 'hidden') {
+    return (
+      <View style={styles.hiddenNotice}>
+        <Text style={styles.hiddenText}>🙈 Media hidden by your sensitive media setting</Text>
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity style={styles.overlay} onPress={onReveal} activeOpacity={0.9}>
+      <Text style={styles.icon}>⚠️</Text>
+      <Text style={styles.warning}>Sensitive media</Text>
+      <View style={styles.revealButton}>
+        <Text style={styles.revealText}>Tap to reveal</Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+    borderRadius: 12,
+    padding: 15,
+  },
+  icon: {
+    fontSize: 28,
+    marginBottom: 6,
+  },
+  warning: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  revealButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  revealText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  hiddenNotice: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.15)',
+  },
+  hiddenText: {
+    color: '#666',
+    fontSize: 13,
+  },
+});
+
+export default SensitiveMediaOverlay;
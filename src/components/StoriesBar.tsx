@@ -0,0 +1,430 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as ImagePicker from 'expo-image-picker';
+import { PostImage, Story, StoryGroup } from '@/types';
+import { createStory, getStoryGroups, MAX_STORY_TEXT_LENGTH } from '@/services/storiesService';
+import {
+  FIRESTORE_IMAGE_LIMITS,
+  MAX_ALT_TEXT_LENGTH,
+  getImageAccessibilityLabel,
+  prepareImageForPost,
+  withAltText
+} from '@/utils/imageUtils';
+import StoryViewer from './StoryViewer';
+
+interface StoriesBarProps {
+  currentUserId?: string;
+  refreshKey?: number; // bump to reload, e.g. on pull-to-refresh
+  onStoryPosted?: (xpAwarded: number) => void;
+}
+
+const STORY_BACKGROUNDS = ['#764ba2', '#667eea', '#e74c3c', '#27ae60', '#f39c12', '#2c3e50'];
+
+const StoriesBar: React.FC<StoriesBarProps> = ({ currentUserId, refreshKey, onStoryPosted }) => {
+  const [groups, setGroups] = useState<StoryGroup[]>([]);
+  const [viewerGroupIndex, setViewerGroupIndex] = useState<number | null>(null);
+  const [showComposer, setShowComposer] = useState(false);
+  const [storyText, setStoryText] = useState('');
+  const [storyImage, setStoryImage] = useState<PostImage | null>(null);
+  const [backgroundColor, setBackgroundColor] = useState(STORY_BACKGROUNDS[0]);
+  const [posting, setPosting] = useState(false);
+
+  const loadStories = async () => {
+    try {
+      setGroups(await getStoryGroups());
+    } catch (error) {
+      console.error('Error loading stories:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (currentUserId) loadStories();
+  }, [currentUserId, refreshKey]);
+
+  const ownGroup = groups.find(group => group.user.id === currentUserId);
+
+  const resetComposer = () => {
+    setShowComposer(false);
+    setStoryText('');
+    setStoryImage(null);
+    setBackgroundColor(STORY_BACKGROUNDS[0]);
+  };
+
+  const pickStoryImage = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: false,
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets && result.assets.length > 0) {
+        const asset = result.assets[0];
+        setStoryImage(await prepareImageForPost(
+          { uri: asset.uri, width: asset.width, height: asset.height },
+          { ...FIRESTORE_IMAGE_LIMITS, maxDimension: 1280, targetMaxBytes: 200 * 1024 }
+        ));
+      }
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert('Error', 'Failed to pick image');
+    }
+  };
+
+  const handlePostStory = async () => {
+    if (!storyText.trim() && !storyImage) {
+      Alert.alert('Error', 'Add a photo or some text to your story');
+      return;
+    }
+
+    setPosting(true);
+    try {
+      const { xpAwarded } = await createStory({
+        text: storyText,
+        image: storyImage ? withAltText(storyImage, storyImage.altText) : undefined,
+        backgroundColor,
+      });
+      resetComposer();
+      onStoryPosted?.(xpAwarded);
+      await loadStories();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to post story');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  // Keep rings in sync while the viewer plays through them
+  const handleStoryViewed = (viewed: Story) => {
+    setGroups(prev => prev.map(group => {
+      if (group.user.id !== viewed.userId) return group;
+      const stories = group.stories.map(story => story.id === viewed.id ? { ...story, viewed: true } : story);
+      return { ...group, stories, hasUnseen: stories.some(story => !story.viewed) };
+    }));
+  };
+
+  const handleStoryDeleted = (deleted: Story) => {
+    setGroups(prev => prev
+      .map(group => ({ ...group, stories: group.stories.filter(story => story.id !== deleted.id) }))
+      .filter(group => group.stories.length > 0));
+  };
+
+  const renderAvatar = (group: StoryGroup) => (
+    <LinearGradient
+      colors={group.hasUnseen ? ['#f093fb', '#f5576c'] : ['#bbb', '#999']}
+      style={styles.ring}
+    >
+      <View style={styles.avatar}>
+        {group.user.profilePicture ? (
+          <Image source={{ uri: group.user.profilePicture }} style={styles.avatarImage} />
+        ) : (
+          <Text style={styles.avatarInitial}>{group.user.displayName?.charAt(0).toUpperCase() || '?'}</Text>
+        )}
+      </View>
+    </LinearGradient>
+  );
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        <TouchableOpacity style={styles.item} onPress={() => setShowComposer(true)}>
+          <View style={styles.addBubble}>
+            <Text style={styles.addIcon}>+</Text>
+          </View>
+          <Text style={styles.itemLabel} numberOfLines={1}>Add story</Text>
+        </TouchableOpacity>
+
+        {groups.map((group, index) => (
+          <TouchableOpacity key={group.user.id} style={styles.item} onPress={() => setViewerGroupIndex(index)}>
+            {renderAvatar(group)}
+            <Text style={styles.itemLabel} numberOfLines={1}>
+              {group === ownGroup ? 'Your story' : group.user.displayName}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <StoryViewer
+        key={viewerGroupIndex ?? 'closed'}
+        groups={groups}
+        initialGroupIndex={viewerGroupIndex}
+        currentUserId={currentUserId}
+        onClose={() => setViewerGroupIndex(null)}
+        onStoryViewed={handleStoryViewed}
+        onStoryDeleted={handleStoryDeleted}
+      />
+
+      <Modal visible={showComposer} transparent animationType="slide" onRequestClose={resetComposer}>
+        <View style={styles.composerOverlay}>
+          <View style={styles.composer}>
+            <View style={styles.composerHeader}>
+              <Text style={styles.composerTitle}>New Story</Text>
+              <TouchableOpacity onPress={resetComposer}>
+                <Text style={styles.composerClose}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            {storyImage ? (
+              <View>
+                <Image
+                  source={{ uri: storyImage.data }}
+                  style={styles.previewImage}
+                  resizeMode="cover"
+                  accessible
+                  accessibilityLabel={getImageAccessibilityLabel(storyImage)}
+                />
+                <TouchableOpacity style={styles.removeImageButton} onPress={() => setStoryImage(null)}>
+                  <Text style={styles.removeImageText}>✕</Text>
+                </TouchableOpacity>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Describe this image (alt text)"
+                  placeholderTextColor="#999"
+                  value={storyImage.altText || ''}
+                  onChangeText={(altText) => setStoryImage({ ...storyImage, altText })}
+                  maxLength={MAX_ALT_TEXT_LENGTH}
+                />
+              </View>
+            ) : (
+              <View style={[styles.textPreview, { backgroundColor }]}>
+                <Text style={styles.textPreviewText}>{storyText || 'Your story'}</Text>
+              </View>
+            )}
+
+            <TextInput
+              style={styles.input}
+              placeholder={storyImage ? 'Add a caption...' : 'What would you like to share?'}
+              placeholderTextColor="#999"
+              value={storyText}
+              onChangeText={setStoryText}
+              maxLength={MAX_STORY_TEXT_LENGTH}
+              multiline
+            />
+            <Text style={styles.charCount}>{storyText.length}/{MAX_STORY_TEXT_LENGTH}</Text>
+
+            {!storyImage && (
+              <View style={styles.colorRow}>
+                {STORY_BACKGROUNDS.map(color => (
+                  <TouchableOpacity
+                    key={color}
+                    style={[styles.colorSwatch, { backgroundColor: color }, color === backgroundColor && styles.colorSwatchSelected]}
+                    onPress={() => setBackgroundColor(color)}
+                  />
+                ))}
+              </View>
+            )}
+
+            <View style={styles.composerActions}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={pickStoryImage} disabled={posting}>
+                <Text style={styles.secondaryButtonText}>📷 {storyImage ? 'Change photo' : 'Add photo'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.primaryButton} onPress={handlePostStory} disabled={posting}>
+                {posting ? (
+                  <ActivityIndicator color="white" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Share</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.expiryNote}>Stories disappear after 24 hours.</Text>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    paddingVertical: 5,
+  },
+  item: {
+    alignItems: 'center',
+    width: 72,
+    marginRight: 10,
+  },
+  addBubble: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(255, 255, 255, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addIcon: {
+    color: 'white',
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  ring: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    padding: 3,
+  },
+  avatar: {
+    flex: 1,
+    borderRadius: 29,
+    backgroundColor: '#667eea',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  avatarImage: {
+    width: '100%',
+    height: '100%',
+  },
+  avatarInitial: {
+    color: 'white',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  itemLabel: {
+    color: 'white',
+    fontSize: 12,
+    marginTop: 5,
+    maxWidth: 72,
+  },
+  composerOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  composer: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  composerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  composerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  composerClose: {
+    fontSize: 20,
+    color: '#666',
+  },
+  previewImage: {
+    width: '100%',
+    height: 220,
+    borderRadius: 12,
+  },
+  removeImageButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeImageText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  textPreview: {
+    height: 160,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 15,
+  },
+  textPreviewText: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    padding: 12,
+    marginTop: 15,
+    minHeight: 60,
+    fontSize: 15,
+    color: '#333',
+    textAlignVertical: 'top',
+  },
+  charCount: {
+    alignSelf: 'flex-end',
+    color: '#999',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  colorSwatch: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    marginRight: 10,
+  },
+  colorSwatchSelected: {
+    borderWidth: 3,
+    borderColor: '#333',
+  },
+  composerActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#f0f0f0',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  secondaryButtonText: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#667eea',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  expiryNote: {
+    textAlign: 'center',
+    color: '#999',
+    fontSize: 12,
+    marginTop: 12,
+  },
+});
+
+export default StoriesBar;
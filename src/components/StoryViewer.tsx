@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, Modal, Pressable, TouchableOpacity, ScrollView, StyleSheet, Alert, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Story, StoryGroup, StoryView, User } from '@/types';
+import { markStoryViewed, getStoryViewers, deleteStory } from '@/services/storiesService';
+import { formatTimeAgo } from '@/utils/helpers';
+import { getImageAccessibilityLabel } from '@/utils/imageUtils';
+
+interface StoryViewerProps {
+  groups: StoryGroup[];
+  initialGroupIndex: number | null; // null keeps the viewer closed
+  currentUserId?: string;
+  onClose: () => void;
+  onStoryViewed: (story: Story) => void;
+  onStoryDeleted: (story: Story) => void;
+}
+
+const STORY_DURATION_MS = 5000;
+
+const StoryViewer: React.FC<StoryViewerProps> = ({
+  groups,
+  initialGroupIndex,
+  currentUserId,
+  onClose,
+  onStoryViewed,
+  onStoryDeleted,
+}) => {
+  // Mounted with a fresh key per opening, so the starting position is only read once.
+  // Friends' stories resume at the first one not seen yet.
+  const [groupIndex, setGroupIndex] = useState(initialGroupIndex ?? 0);
+  const [storyIndex, setStoryIndex] = useState(() => {
+    const stories = groups[initialGroupIndex ?? 0]?.stories || [];
+    return Math.max(0, stories.findIndex(story => !story.viewed));
+  });
+  const [viewers, setViewers] = useState<Array<StoryView & { user: User }> | null>(null);
+
+  const group = initialGroupIndex === null ? undefined : groups[groupIndex];
+  const story = group?.stories[storyIndex];
+  const isOwnStory = !!story && story.userId === currentUserId;
+
+  const goNext = () => {
+    if (!group) return;
+    setViewers(null);
+    if (storyIndex + 1 < group.stories.length) {
+      setStoryIndex(storyIndex + 1);
+    } else if (groupIndex + 1 < groups.length) {
+      setGroupIndex(groupIndex + 1);
+      setStoryIndex(0);
+    } else {
+      onClose();
+    }
+  };
+
+  const goPrevious = () => {
+    setViewers(null);
+    if (storyIndex > 0) {
+      setStoryIndex(storyIndex - 1);
+    } else if (groupIndex > 0) {
+      setGroupIndex(groupIndex - 1);
+      setStoryIndex(groups[groupIndex - 1].stories.length - 1);
+    }
+  };
+
+  useEffect(() => {
+    if (!story) return;
+
+    if (!story.viewed && !isOwnStory) {
+      markStoryViewed(story)
+        .then(() => onStoryViewed(story))
+        .catch(error => console.warn('Story view was not recorded:', error));
+    }
+
+    // The viewer list pauses playback until it is closed
+    if (viewers) return;
+    const timer = setTimeout(goNext, STORY_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [story?.id, viewers]);
+
+  // A group can vanish after a delete; close rather than show nothing
+  useEffect(() => {
+    if (initialGroupIndex !== null && !story) onClose();
+  }, [initialGroupIndex, story]);
+
+  const openViewers = async () => {
+    if (!story) return;
+    try {
+      setViewers(await getStoryViewers(story.id));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load viewers');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!story) return;
+
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm('Delete this story?')
+      : await new Promise<boolean>(resolve =>
+          Alert.alert('Delete Story', 'Delete this story?', [
+            { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Delete', style: 'destructive', onPress: () => resolve(true) },
+          ])
+        );
+    if (!confirmed) return;
+
+    try {
+      await deleteStory(story.id);
+      onStoryDeleted(story);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to delete story');
+    }
+  };
+
+  return (
+    <Modal visible={initialGroupIndex !== null && !!story} animationType="fade" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        {group && story && (
+          <>
+            <View style={styles.progressRow}>
+              {group.stories.map((item, index) => (
+                <View key={item.id} style={[styles.progressSegment, index <= storyIndex && styles.progressSegmentDone]} />
+              ))}
+            </View>
+
+            <View style={styles.header}>
+              <Text style={styles.authorName}>{group.user.displayName}</Text>
+              <Text style={styles.timeText}>{formatTimeAgo(story.createdAt)}</Text>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Text style={styles.closeText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={[styles.body, story.type === 'text' && { backgroundColor: story.backgroundColor || '#764ba2' }]}>
+              {story.type === 'image' && story.image ? (
+                <>
+                  <Image
+                    source={{ uri: story.image.data }}
+                    style={styles.image}
+                    resizeMode="contain"
+                    accessible
+                    accessibilityLabel={getImageAccessibilityLabel(story.image)}
+                  />
+                  {!!story.text && <Text style={styles.caption}>{story.text}</Text>}
+                </>
+              ) : (
+                <Text style={styles.storyText}>{story.text}</Text>
+              )}
+
+              {/* Tap the left third to go back, anywhere else to skip ahead */}
+              <View style={styles.tapZones}>
+                <Pressable style={styles.tapPrevious} onPress={goPrevious} />
+                <Pressable style={styles.tapNext} onPress={goNext} />
+              </View>
+            </View>
+
+            {isOwnStory && (
+              <View style={styles.footer}>
+                <TouchableOpacity style={styles.footerButton} onPress={openViewers}>
+                  <Text style={styles.footerText}>👁 {story.viewCount} {story.viewCount === 1 ? 'viewer' : 'viewers'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.footerButton} onPress={handleDelete}>
+                  <Text style={styles.footerText}>🗑 Delete</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {viewers && (
+              <View style={styles.viewersPanel}>
+                <View style={styles.viewersHeader}>
+                  <Text style={styles.viewersTitle}>Viewers</Text>
+                  <TouchableOpacity onPress={() => setViewers(null)}>
+                    <Text style={styles.closeText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+                <ScrollView>
+                  {viewers.length === 0 ? (
+                    <Text style={styles.viewerMeta}>No one has seen this story yet.</Text>
+                  ) : (
+                    viewers.map(viewer => (
+                      <View key={viewer.userId} style={styles.viewerRow}>
+                        <Text style={styles.viewerName}>{viewer.user.displayName}</Text>
+                        <Text style={styles.viewerMeta}>{formatTimeAgo(viewer.viewedAt)}</Text>
+                      </View>
+                    ))
+                  )}
+                </ScrollView>
+              </View>
+            )}
+          </>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 10,
+    paddingTop: 10,
+  },
+  progressSegment: {
+    flex: 1,
+    height: 3,
+    marginHorizontal: 2,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  progressSegmentDone: {
+    backgroundColor: 'white',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+  },
+  authorName: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginRight: 10,
+  },
+  timeText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 13,
+    flex: 1,
+  },
+  closeButton: {
+    padding: 5,
+  },
+  closeText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  body: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '85%',
+  },
+  caption: {
+    color: 'white',
+    fontSize: 16,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+    marginTop: 10,
+  },
+  storyText: {
+    color: 'white',
+    fontSize: 26,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingHorizontal: 30,
+  },
+  tapZones: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+  },
+  tapPrevious: {
+    flex: 1,
+  },
+  tapNext: {
+    flex: 2,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 15,
+  },
+  footerButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  footerText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  viewersPanel: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    maxHeight: '50%',
+    padding: 20,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    backgroundColor: '#1c1c2e',
+  },
+  viewersHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  viewersTitle: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  viewerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  viewerName: {
+    color: 'white',
+    fontSize: 15,
+  },
+  viewerMeta: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 13,
+  },
+});
+
+export default StoryViewer;
@@ -3,6 +3,8 @@ import { Platform, BackHandler } from 'react-native';
 import { onAuthStateChanged, User as FirebaseUser } from 'firebase/auth';
 import { auth } from '@/services/firebase';
 import { addNotificationResponseListener } from '@/services/notificationService';
+import { publishDueScheduledPosts } from '@/services/scheduledPostsService';
+import { offlineService, onSyncCompleted } from '@/services/offlineService';
 import LoginScreen from '@/screens/LoginScreen';
 import RegisterScreen from '@/screens/RegisterScreen';
 import HomeScreen from '../screens/HomeScreen';
@@ -12,9 +14,10 @@ import CreatePostScreen from '../screens/CreatePostScreen';
 import ProfileScreen from '../screens/ProfileScreen';
 import AdminScreen from '../screens/AdminScreen';
 import LeaderboardScreen from '../screens/LeaderboardScreen';
+import SearchScreen from '../screens/SearchScreen';
 
 type AuthState = 'loading' | 'authenticated' | 'unauthenticated';
-type Screen = 'login' | 'register' | 'home' | 'combined-messages' | 'posts-feed' | 'create-post' | 'profile' | 'admin' | 'leaderboard';
+type Screen = 'login' | 'register' | 'home' | 'combined-messages' | 'posts-feed' | 'create-post' | 'profile' | 'admin' | 'leaderboard' | 'search';
 type BrowserState = {
   screen: Screen;
   profileUserId?: string | null;
@@ -157,6 +160,37 @@ const AuthNavigator: React.FC = () => {
     return () => subscription.remove();
   }, []);
 
+  // Local publish queue: scheduled posts go live the next time one of the author's devices is online
+  useEffect(() => {
+    if (authState !== 'authenticated') {
+      return;
+    }
+
+    const publishDuePosts = async () => {
+      if (!offlineService.isConnected()) {
+        return;
+      }
+      try {
+        await publishDueScheduledPosts();
+      } catch (error) {
+        console.error('Error running scheduled posts queue:', error);
+      }
+    };
+
+    publishDuePosts();
+    const interval = setInterval(publishDuePosts, 60000);
+    const unsubscribeSync = onSyncCompleted((actions) => {
+      if (actions.some(action => action.type === 'SCHEDULE_POST')) {
+        publishDuePosts();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      unsubscribeSync();
+    };
+  }, [authState]);
+
   const handleNavigateToRegister = () => {
     navigateTo('register');
   };
@@ -223,6 +257,10 @@ const AuthNavigator: React.FC = () => {
     goBack();
   };
 
+  const handleNavigateToSearch = () => {
+    navigateTo('search');
+  };
+
   // Show loading screen while checking auth state
   if (authState === 'loading') {
     return null; // You can add a loading spinner here later
@@ -267,6 +305,7 @@ const AuthNavigator: React.FC = () => {
             onNavigateToAchievements={handleNavigateToAchievements}
             onNavigateToProfile={handleNavigateToProfile}
             onNavigateToLeaderboard={handleNavigateToLeaderboard}
+            onNavigateToSearch={handleNavigateToSearch}
           />
         );
       case 'create-post':
@@ -323,6 +362,19 @@ const AuthNavigator: React.FC = () => {
             onNavigateToLeaderboard={handleNavigateToLeaderboard}
           />
         );
+      case 'search':
+        return (
+          <SearchScreen
+            onBack={goBack}
+            onNavigateToHome={handleNavigateToHome}
+            onNavigateToFriends={handleNavigateToFriends}
+            onNavigateToPostsFeed={handleNavigateToPostsFeed}
+            onNavigateToCreatePost={handleNavigateToCreatePost}
+            onNavigateToAchievements={handleNavigateToAchievements}
+            onNavigateToProfile={handleNavigateToProfile}
+            onNavigateToLeaderboard={handleNavigateToLeaderboard}
+          />
+        );
       default:
         return (
           <HomeScreen
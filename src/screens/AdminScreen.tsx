@@ -19,9 +19,25 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { auth } from '@/services/firebase';
 import { getAllReports, updateReportStatus } from '@/services/reportService';
-import { adminDeletePost, adminDeleteTag, adminGetAllTags, adminGetAllUsers, adminDeleteUser } from '@/services/adminFunctions';
-import { Report, User, Tag } from '@/types';
-import { getUserDataWithCounts } from '@/services/postsService';
+import {
+  adminDeletePost,
+  adminDeleteTag,
+  adminGetAllTags,
+  adminGetAllUsers,
+  adminDeleteUser,
+  adminMigrateTagStore,
+  adminRebuildSearchIndex,
+  adminBackfillPostVisibility,
+  adminMigrateRepliesToThreads,
+  adminMigrateLikesToReactions,
+  adminApplyContentWarning,
+  adminGetPendingMigrations,
+  RequiredMigration,
+  RequiredMigrationId
+} from '@/services/adminFunctions';
+import { Report, User, Tag, PostRevision } from '@/types';
+import { DEFAULT_CONTENT_WARNING, MAX_CONTENT_WARNING_LENGTH } from '@/utils/contentWarnings';
+import { getUserDataWithCounts, getPostRevisions } from '@/services/postsService';
 import Navbar from '@/components/Navbar';
 
 interface AdminScreenProps {
@@ -59,14 +75,23 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
   const [resolution, setResolution] = useState('');
+  const [warningLabel, setWarningLabel] = useState('');
   const [keyboardHeight, setKeyboardHeight] = useState(0);
   const [userData, setUserData] = useState<User | null>(null);
   const [activeTab, setActiveTab] = useState('profile');
   const [activeView, setActiveView] = useState<ActiveView>('reports');
   const [tags, setTags] = useState<Tag[]>([]);
   const [tagsLoading, setTagsLoading] = useState(false);
+  const [migratingTags, setMigratingTags] = useState(false);
+  const [rebuildingIndex, setRebuildingIndex] = useState(false);
+  const [backfillingVisibility, setBackfillingVisibility] = useState(false);
+  const [migratingReplies, setMigratingReplies] = useState(false);
+  const [migratingReactions, setMigratingReactions] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const [usersLoading, setUsersLoading] = useState(false);
+  const [revisions, setRevisions] = useState<PostRevision[] | null>(null);
+  const [revisionsLoading, setRevisionsLoading] = useState(false);
+  const [pendingMigrations, setPendingMigrations] = useState<RequiredMigration[]>([]);
   const currentUser = auth.currentUser;
 
   useEffect(() => {
@@ -100,6 +125,8 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
             Alert.alert('Unauthorized', 'You do not have admin permissions', [
               { text: 'OK', onPress: onBack }
             ]);
+          } else {
+            fetchPendingMigrations();
           }
         } catch (error) {
           console.error('Error fetching user data:', error);
@@ -109,6 +136,14 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
     fetchUserData();
   }, [currentUser]);
 
+  const fetchPendingMigrations = async () => {
+    try {
+      setPendingMigrations(await adminGetPendingMigrations());
+    } catch (error) {
+      console.error('Error fetching pending migrations:', error);
+    }
+  };
+
   // Fetch reports
   const fetchReports = useCallback(async () => {
     try {
@@ -150,9 +185,26 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
   const handleReportPress = (report: Report) => {
     setSelectedReport(report);
     setResolution(report.resolution || '');
+    setWarningLabel('');
+    setRevisions(null);
     setModalVisible(true);
   };
 
+  const handleLoadRevisions = async () => {
+    if (!selectedReport || selectedReport.reportedItem.type !== 'post') return;
+
+    setRevisionsLoading(true);
+    try {
+      const postRevisions = await getPostRevisions(selectedReport.reportedItem.id);
+      setRevisions(postRevisions);
+    } catch (error: any) {
+      console.error('Load revisions error:', error);
+      Alert.alert('Error', error.message || 'Failed to load edit history');
+    } finally {
+      setRevisionsLoading(false);
+    }
+  };
+
   const handleUpdateStatus = async (status: 'reviewed' | 'resolved' | 'dismissed') => {
     if (!selectedReport) return;
 
@@ -199,6 +251,29 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
     }
   };
 
+  // A milder alternative to deleting: the post stays up with its images blurred behind a warning
+  const handleApplyContentWarning = async () => {
+    if (!selectedReport || selectedReport.reportedItem.type !== 'post' || !currentUser) return;
+
+    try {
+      const applied = await adminApplyContentWarning(selectedReport.reportedItem.id, warningLabel, currentUser.uid);
+      await updateReportStatus(
+        selectedReport.id,
+        'resolved',
+        resolution.trim() || `Content warning applied: ${applied}`
+      );
+      Alert.alert('Success', `Content warning "${applied}" applied to the post`);
+      setModalVisible(false);
+      setSelectedReport(null);
+      setResolution('');
+      setWarningLabel('');
+      await fetchReports();
+    } catch (error: any) {
+      console.error('Apply content warning error:', error);
+      Alert.alert('Error', error.message || 'Failed to apply content warning');
+    }
+  };
+
   const handleDeleteReportedTag = async () => {
     if (!selectedReport || selectedReport.reportedItem.type !== 'tag' || !currentUser) return;
 
@@ -243,6 +318,189 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
     }
   }, []);
 
+  const handleMigrateTags = async () => {
+    if (!currentUser || migratingTags) return;
+
+    const message = 'Normalise the tags of all posts and merge legacy hashtags into the tag store? This may take a while.';
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve =>
+          Alert.alert(
+            'Migrate Tags',
+            message,
+            [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Migrate', onPress: () => resolve(true) },
+            ]
+          )
+        );
+
+    if (!confirmed) return;
+
+    setMigratingTags(true);
+    try {
+      const result = await adminMigrateTagStore(currentUser.uid);
+      Alert.alert(
+        'Migration Complete',
+        `${result.postsUpdated} of ${result.postsScanned} posts updated, ${result.tagsWritten} tags written, ` +
+        `${result.tagsRemoved} tags removed, ${result.hashtagsMigrated} legacy hashtags merged.`
+      );
+      await fetchTags();
+      fetchPendingMigrations();
+    } catch (error: any) {
+      console.error('Tag migration error:', error);
+      Alert.alert('Error', error.message || 'Failed to migrate tags');
+    } finally {
+      setMigratingTags(false);
+    }
+  };
+
+  const handleRebuildSearchIndex = async () => {
+    if (!currentUser || rebuildingIndex) return;
+
+    const message = 'Rebuild the search index for all posts, users and tags? This may take a while.';
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve =>
+          Alert.alert(
+            'Rebuild Search Index',
+            message,
+            [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Rebuild', onPress: () => resolve(true) },
+            ]
+          )
+        );
+
+    if (!confirmed) return;
+
+    setRebuildingIndex(true);
+    try {
+      const result = await adminRebuildSearchIndex(currentUser.uid);
+      Alert.alert(
+        'Search Index Rebuilt',
+        `${result.postsIndexed} posts, ${result.usersIndexed} users and ${result.tagsIndexed} tags indexed, ` +
+        `${result.entriesRemoved} stale entries removed.`
+      );
+      fetchPendingMigrations();
+    } catch (error: any) {
+      console.error('Search index rebuild error:', error);
+      Alert.alert('Error', error.message || 'Failed to rebuild the search index');
+    } finally {
+      setRebuildingIndex(false);
+    }
+  };
+
+  const handleBackfillVisibility = async () => {
+    if (!currentUser || backfillingVisibility) return;
+
+    const message = "Give every post without a visibility its author's default? Until then those posts are hidden from feeds.";
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve =>
+          Alert.alert(
+            'Backfill Post Visibility',
+            message,
+            [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Backfill', onPress: () => resolve(true) },
+            ]
+          )
+        );
+
+    if (!confirmed) return;
+
+    setBackfillingVisibility(true);
+    try {
+      const result = await adminBackfillPostVisibility(currentUser.uid);
+      Alert.alert('Backfill Complete', `${result.postsUpdated} of ${result.postsScanned} posts updated.`);
+      fetchPendingMigrations();
+    } catch (error: any) {
+      console.error('Visibility backfill error:', error);
+      Alert.alert('Error', error.message || 'Failed to backfill post visibility');
+    } finally {
+      setBackfillingVisibility(false);
+    }
+  };
+
+  const handleMigrateReplies = async () => {
+    if (!currentUser || migratingReplies) return;
+
+    const message = 'Move all legacy replies into the comment threads and update thread positions? Replies to deleted comments are removed.';
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve =>
+          Alert.alert(
+            'Migrate Replies',
+            message,
+            [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Migrate', onPress: () => resolve(true) },
+            ]
+          )
+        );
+
+    if (!confirmed) return;
+
+    setMigratingReplies(true);
+    try {
+      const result = await adminMigrateRepliesToThreads(currentUser.uid);
+      Alert.alert(
+        'Replies Migrated',
+        `${result.repliesMoved} of ${result.repliesScanned} replies moved, ${result.orphansRemoved} orphaned replies removed, ` +
+        `${result.commentsUpdated} comments updated.`
+      );
+      fetchPendingMigrations();
+    } catch (error: any) {
+      console.error('Reply migration error:', error);
+      Alert.alert('Error', error.message || 'Failed to migrate replies');
+    } finally {
+      setMigratingReplies(false);
+    }
+  };
+
+  const migrationRunners: Record<RequiredMigrationId, { run: () => void; running: boolean }> = {
+    postVisibility: { run: handleBackfillVisibility, running: backfillingVisibility },
+    tagStore: { run: handleMigrateTags, running: migratingTags },
+    replyThreads: { run: handleMigrateReplies, running: migratingReplies },
+    searchIndex: { run: handleRebuildSearchIndex, running: rebuildingIndex },
+  };
+
+  const handleMigrateReactions = async () => {
+    if (!currentUser || migratingReactions) return;
+
+    const message = 'Move the likes and reactions stored on posts and comments into their reactions sub-collections?';
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve =>
+          Alert.alert(
+            'Migrate Likes',
+            message,
+            [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Migrate', onPress: () => resolve(true) },
+            ]
+          )
+        );
+
+    if (!confirmed) return;
+
+    setMigratingReactions(true);
+    try {
+      const result = await adminMigrateLikesToReactions(currentUser.uid);
+      Alert.alert(
+        'Likes Migrated',
+        `${result.reactionsMoved} reactions moved from ${result.postsUpdated} of ${result.postsScanned} posts and ` +
+        `${result.commentsUpdated} of ${result.commentsScanned} comments.`
+      );
+    } catch (error: any) {
+      console.error('Reaction migration error:', error);
+      Alert.alert('Error', error.message || 'Failed to migrate likes');
+    } finally {
+      setMigratingReactions(false);
+    }
+  };
+
   const handleDeleteTag = async (tag: Tag) => {
     if (!currentUser) return;
 
@@ -408,6 +666,30 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
           </TouchableOpacity>
         </View>
 
+        {/* Required migrations that have not run yet */}
+        {pendingMigrations.length > 0 && (
+          <View style={styles.migrationsBanner}>
+            <Text style={styles.migrationsBannerTitle}>⚠️ Required migrations pending</Text>
+            {pendingMigrations.map((migration) => (
+              <View key={migration.id} style={styles.migrationRow}>
+                <View style={styles.migrationInfo}>
+                  <Text style={styles.migrationTitle}>{migration.title}</Text>
+                  <Text style={styles.migrationDescription}>{migration.description}</Text>
+                </View>
+                <TouchableOpacity
+                  onPress={migrationRunners[migration.id].run}
+                  style={styles.migrateTagsButton}
+                  disabled={migrationRunners[migration.id].running}
+                >
+                  <Text style={styles.migrateTagsButtonText}>
+                    {migrationRunners[migration.id].running ? 'Running...' : 'Run'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* View Switcher */}
         <View style={styles.viewSwitcher}>
           <TouchableOpacity
@@ -480,9 +762,25 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
           <View style={{ flex: 1 }}>
             <View style={styles.tagsHeader}>
               <Text style={styles.tagsHeaderTitle}>All Tags ({tags.length})</Text>
-              <TouchableOpacity onPress={fetchTags} style={styles.refreshButton}>
-                <Text style={styles.refreshButtonText}>↻</Text>
-              </TouchableOpacity>
+              <View style={styles.tagsHeaderActions}>
+                <TouchableOpacity
+                  onPress={handleMigrateTags}
+                  style={styles.migrateTagsButton}
+                  disabled={migratingTags}
+                >
+                  <Text style={styles.migrateTagsButtonText}>{migratingTags ? 'Migrating...' : 'Migrate'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleRebuildSearchIndex}
+                  style={styles.migrateTagsButton}
+                  disabled={rebuildingIndex}
+                >
+                  <Text style={styles.migrateTagsButtonText}>{rebuildingIndex ? 'Reindexing...' : 'Reindex'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={fetchTags} style={styles.refreshButton}>
+                  <Text style={styles.refreshButtonText}>↻</Text>
+                </TouchableOpacity>
+              </View>
             </View>
             {tagsLoading ? (
               <ActivityIndicator color="#fff" style={{ marginTop: 32 }} />
@@ -518,9 +816,38 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
           <View style={{ flex: 1 }}>
             <View style={styles.tagsHeader}>
               <Text style={styles.tagsHeaderTitle}>All Users ({users.length})</Text>
-              <TouchableOpacity onPress={fetchUsers} style={styles.refreshButton}>
-                <Text style={styles.refreshButtonText}>↻</Text>
-              </TouchableOpacity>
+              <View style={styles.tagsHeaderActions}>
+                <TouchableOpacity
+                  onPress={handleBackfillVisibility}
+                  style={styles.migrateTagsButton}
+                  disabled={backfillingVisibility}
+                >
+                  <Text style={styles.migrateTagsButtonText}>
+                    {backfillingVisibility ? 'Backfilling...' : 'Post visibility'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleMigrateReplies}
+                  style={styles.migrateTagsButton}
+                  disabled={migratingReplies}
+                >
+                  <Text style={styles.migrateTagsButtonText}>
+                    {migratingReplies ? 'Migrating...' : 'Reply threads'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleMigrateReactions}
+                  style={styles.migrateTagsButton}
+                  disabled={migratingReactions}
+                >
+                  <Text style={styles.migrateTagsButtonText}>
+                    {migratingReactions ? 'Migrating...' : 'Reactions'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={fetchUsers} style={styles.refreshButton}>
+                  <Text style={styles.refreshButtonText}>↻</Text>
+                </TouchableOpacity>
+              </View>
             </View>
             {usersLoading ? (
               <ActivityIndicator color="#fff" style={{ marginTop: 32 }} />
@@ -661,6 +988,47 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
                       </View>
                     )}
 
+                    {selectedReport.reportedItem.type === 'post' && (
+                      <View style={styles.detailRow}>
+                        <Text style={styles.detailLabel}>Edit History:</Text>
+                        {revisions === null ? (
+                          <TouchableOpacity
+                            style={styles.revisionsButton}
+                            onPress={handleLoadRevisions}
+                            disabled={revisionsLoading}
+                          >
+                            {revisionsLoading ? (
+                              <ActivityIndicator size="small" color="white" />
+                            ) : (
+                              <Text style={styles.revisionsButtonText}>View Revisions</Text>
+                            )}
+                          </TouchableOpacity>
+                        ) : revisions.length === 0 ? (
+                          <Text style={styles.detailValue}>This post has not been edited.</Text>
+                        ) : (
+                          revisions.map(revision => (
+                            <View key={revision.id} style={styles.revisionItem}>
+                              <Text style={styles.revisionDate}>{formatDate(revision.editedAt)}</Text>
+                              <Text style={styles.revisionLabel}>Before:</Text>
+                              <Text style={styles.detailValue}>{revision.previousContent}</Text>
+                              <Text style={styles.revisionLabel}>After:</Text>
+                              <Text style={styles.detailValue}>{revision.content}</Text>
+                              {revision.previousTags.join(',') !== revision.tags.join(',') && (
+                                <Text style={styles.revisionMeta}>
+                                  Tags: {revision.previousTags.map(tag => `#${tag}`).join(' ') || 'none'} → {revision.tags.map(tag => `#${tag}`).join(' ') || 'none'}
+                                </Text>
+                              )}
+                              {(revision.imagesDiff.added > 0 || revision.imagesDiff.removed > 0) && (
+                                <Text style={styles.revisionMeta}>
+                                  Images: +{revision.imagesDiff.added} / -{revision.imagesDiff.removed} ({revision.imagesDiff.previousCount} → {revision.imagesDiff.newCount})
+                                </Text>
+                              )}
+                            </View>
+                          ))
+                        )}
+                      </View>
+                    )}
+
                     <View style={styles.resolutionContainer}>
                       <Text style={styles.resolutionLabel}>Add/Update Resolution:</Text>
                       <TextInput
@@ -674,6 +1042,20 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
                       />
                     </View>
 
+                    {selectedReport.reportedItem.type === 'post' && (
+                      <View style={styles.resolutionContainer}>
+                        <Text style={styles.resolutionLabel}>Content warning label:</Text>
+                        <TextInput
+                          style={[styles.resolutionInput, styles.warningLabelInput]}
+                          placeholder={DEFAULT_CONTENT_WARNING}
+                          placeholderTextColor="#888"
+                          value={warningLabel}
+                          onChangeText={setWarningLabel}
+                          maxLength={MAX_CONTENT_WARNING_LENGTH}
+                        />
+                      </View>
+                    )}
+
                     <View style={styles.actionButtons}>
                       {selectedReport.status === 'pending' && (
                         <TouchableOpacity
@@ -698,6 +1080,15 @@ const AdminScreen: React.FC<AdminScreenProps> = ({
                         <Text style={styles.actionButtonText}>Dismiss</Text>
                       </TouchableOpacity>
 
+                      {selectedReport.reportedItem.type === 'post' && (
+                        <TouchableOpacity
+                          style={[styles.actionButton, styles.warningButton]}
+                          onPress={handleApplyContentWarning}
+                        >
+                          <Text style={styles.actionButtonText}>Add Content Warning</Text>
+                        </TouchableOpacity>
+                      )}
+
                       {selectedReport.reportedItem.type === 'post' && (
                         <TouchableOpacity
                           style={[styles.actionButton, styles.deleteButton]}
@@ -949,6 +1340,39 @@ const styles = StyleSheet.create({
     color: 'white',
     fontSize: 14,
   },
+  revisionsButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    padding: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  revisionsButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  revisionItem: {
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+  },
+  revisionDate: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    marginBottom: 6,
+  },
+  revisionLabel: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  revisionMeta: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    marginTop: 6,
+  },
   resolutionContainer: {
     marginTop: 20,
     marginBottom: 20,
@@ -989,11 +1413,51 @@ const styles = StyleSheet.create({
   deleteButton: {
     backgroundColor: 'rgba(180, 0, 0, 0.9)',
   },
+  warningButton: {
+    backgroundColor: 'rgba(230, 126, 34, 0.9)',
+  },
+  warningLabelInput: {
+    minHeight: 0,
+  },
   actionButtonText: {
     color: 'white',
     fontSize: 16,
     fontWeight: 'bold',
   },
+  migrationsBanner: {
+    marginHorizontal: 20,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 193, 7, 0.6)',
+    backgroundColor: 'rgba(255, 193, 7, 0.12)',
+  },
+  migrationsBannerTitle: {
+    color: '#ffc107',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  migrationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 10,
+  },
+  migrationInfo: {
+    flex: 1,
+  },
+  migrationTitle: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  migrationDescription: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 12,
+    marginTop: 2,
+  },
   viewSwitcher: {
     flexDirection: 'row',
     marginHorizontal: 20,
@@ -1031,6 +1495,22 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  tagsHeaderActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  migrateTagsButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  migrateTagsButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   tagRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -13,11 +13,13 @@ import {
   ScrollView,
   BackHandler,
   Image,
+  Modal,
+  ActivityIndicator,
   useWindowDimensions,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { User, FriendRequest, Conversation, DirectMessage } from '@/types';
+import { User, FriendRequest, Conversation, DirectMessage, PostImage, ReactionType, REACTION_TYPES } from '@/types';
 import { 
   getUserFriends, 
   getPendingFriendRequests, 
@@ -28,16 +30,46 @@ import {
   getUserConversations,
   sendDirectMessage, 
   getConversationMessages, 
+  getOlderConversationMessages,
+  searchConversationMessages,
+  MESSAGES_PAGE_SIZE,
   markMessagesAsRead,
-  sendMessageWithBotResponse
+  sendMessageWithBotResponse,
+  sendGroupMessage,
+  isGroupConversation,
+  sharesActivityStatus,
+  setTypingStatus,
+  subscribeToTypingStatus,
+  TYPING_INDICATOR_REFRESH_MS,
+  editDirectMessage,
+  unsendDirectMessage,
+  setMessageReaction
 } from '@/services/friendsService';
 import { followUser, unfollowUser, getUserDataWithCounts } from '@/services/postsService';
 import { offlineService, onSyncCompleted } from '@/services/offlineService';
 import { BOT_USER_ID, BOT_USER, isBotMessage } from '@/services/chatbotService';
 import { setActiveConversationForNotifications } from '@/services/notificationService';
-import { collection, query, where, getDocs, getDoc, doc, orderBy, limit, startAfter, onSnapshot } from 'firebase/firestore';
+import { collection, query, where, getDocs, getDoc, doc } from 'firebase/firestore';
 import { db, auth } from '@/services/firebase';
 import Navbar from '@/components/Navbar';
+import GroupConversationModal from '@/components/GroupConversationModal';
+import {
+  FIRESTORE_IMAGE_LIMITS,
+  getImageAccessibilityLabel,
+  pickImageFromGallery,
+  prepareImageForPost,
+  takePhoto
+} from '@/utils/imageUtils';
+import {
+  UNSENT_MESSAGE_TEXT,
+  canEditMessage,
+  canUnsendMessage,
+  getMessagePreview,
+  getMessageReactionSummary,
+  getReplyPreview,
+  getSearchHighlightParts,
+  messageMatchesSearch
+} from '@/utils/directMessages';
 
 interface CombinedMessagesScreenProps {
   onBack: () => void;
@@ -54,7 +86,26 @@ type TabType = 'conversations' | 'friends' | 'requests' | 'search';
 const mobileSafeAreaEdges: ('top' | 'bottom')[] = Platform.OS === 'android' ? ['bottom'] : ['top', 'bottom'];
 
 const TAB_ORDER: TabType[] = ['conversations', 'friends', 'requests', 'search'];
-const MESSAGES_BATCH_SIZE = 20;
+// Distance from the bottom within which the chat keeps following new messages
+const STICK_TO_BOTTOM_THRESHOLD = 80;
+// Older pages are fetched in larger steps when jumping to a search result
+const SEARCH_JUMP_PAGE_SIZE = 100;
+const MESSAGE_IMAGE_LIMITS = { ...FIRESTORE_IMAGE_LIMITS, maxDimension: 1280, targetMaxBytes: 250 * 1024 };
+const MESSAGE_THUMBNAIL_WIDTH = 200;
+
+const getMessageTime = (message: DirectMessage): number => {
+  return message.createdAt instanceof Date ? message.createdAt.getTime() : new Date(message.createdAt || 0).getTime();
+};
+
+const sortMessagesByTime = (messageList: DirectMessage[]): DirectMessage[] => {
+  return messageList.sort((a, b) => getMessageTime(a) - getMessageTime(b));
+};
+
+const mergeOlderMessages = (loadedMessages: DirectMessage[], olderMessages: DirectMessage[]): DirectMessage[] => {
+  const existingIds = new Set(loadedMessages.map((msg) => msg.id));
+  const uniqueOlder = olderMessages.filter((msg) => !existingIds.has(msg.id));
+  return sortMessagesByTime([...uniqueOlder, ...loadedMessages]);
+};
 
 const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({ 
   onBack,
@@ -88,15 +139,45 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [messages, setMessages] = useState<DirectMessage[]>([]);
-  const [lastVisibleMessageDoc, setLastVisibleMessageDoc] = useState<any>(null);
   const [hasMoreMessages, setHasMoreMessages] = useState(true);
   const [isLoadingMoreMessages, setIsLoadingMoreMessages] = useState(false);
   const [newMessage, setNewMessage] = useState('');
   const [otherUser, setOtherUser] = useState<User | null>(null);
   const [messageReloadToken, setMessageReloadToken] = useState(0);
+  const [groupMembers, setGroupMembers] = useState<Record<string, User>>({});
+  const [groupModalMode, setGroupModalMode] = useState<'create' | 'manage' | null>(null);
+  const [pendingAttachment, setPendingAttachment] = useState<PostImage | null>(null);
+  const [preparingAttachment, setPreparingAttachment] = useState(false);
+  const [viewerImage, setViewerImage] = useState<PostImage | null>(null);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const [actionMessage, setActionMessage] = useState<DirectMessage | null>(null);
+  const [editingMessage, setEditingMessage] = useState<DirectMessage | null>(null);
+  const [replyingTo, setReplyingTo] = useState<DirectMessage | null>(null);
+  const [isMessageSearchOpen, setIsMessageSearchOpen] = useState(false);
+  const [messageSearchText, setMessageSearchText] = useState('');
+  const [searchedText, setSearchedText] = useState('');
+  const [messageSearchResults, setMessageSearchResults] = useState<DirectMessage[]>([]);
+  const [messageSearchIndex, setMessageSearchIndex] = useState(0);
+  // Set while older messages are left to search
+  const [messageSearchCursor, setMessageSearchCursor] = useState<string | undefined>(undefined);
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingScrollMessageId, setPendingScrollMessageId] = useState<string | null>(null);
+  const lastTypingSentRef = useRef(0);
   const flatListRef = useRef<FlatList>(null);
+  const activeConversationRef = useRef<string | null>(null);
+  const knownMessageIdsRef = useRef<Set<string>>(new Set());
+  const isLoadingOlderRef = useRef(false);
+  const stickToBottomRef = useRef(true);
+  const keepScrollPositionRef = useRef(false);
+  const scrollOffsetRef = useRef(0);
+  const contentHeightRef = useRef(0);
+  const wasInSelectedGroupRef = useRef(false);
   const currentUser = auth.currentUser;
   const mobileContentBottomSpacing = !useSplitLayout ? 100 : 0;
+  const selectedGroup = selectedConversation
+    ? conversations.find(conv => conv.id === selectedConversation && isGroupConversation(conv))
+    : undefined;
 
   const switchTabBySwipe = (dx: number) => {
     const currentIndex = TAB_ORDER.indexOf(activeTab);
@@ -127,6 +208,7 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
 
   const scrollMessagesToBottom = (animated: boolean = true) => {
     // Multiple attempts handle async layout/measurement timing on mobile.
+    stickToBottomRef.current = true;
     const run = () => flatListRef.current?.scrollToEnd({ animated });
     run();
     requestAnimationFrame(run);
@@ -193,59 +275,140 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
     loadFriendRequestUsers();
   }, [friendRequests]);
 
-  // Chat message listener (latest batch + realtime updates)
+  // Member profiles for sender names and the group settings
+  const selectedGroupMemberKey = selectedGroup?.participants.join(',') || '';
+  useEffect(() => {
+    if (!selectedGroup) {
+      setGroupMembers({});
+      return;
+    }
+
+    const loadGroupMembers = async () => {
+      try {
+        const userDocs = await Promise.all(selectedGroup.participants.map((userId) => getDoc(doc(db, 'users', userId))));
+        const userMap: Record<string, User> = {};
+        userDocs.forEach((docSnap) => {
+          if (docSnap.exists()) {
+            userMap[docSnap.id] = { id: docSnap.id, ...docSnap.data() } as User;
+          }
+        });
+        setGroupMembers(userMap);
+      } catch (error) {
+        console.error('Error loading group members:', error);
+      }
+    };
+
+    loadGroupMembers();
+  }, [selectedGroupMemberKey]);
+
+  // Close the chat when the current user is removed from the open group
+  useEffect(() => {
+    if (selectedGroup) {
+      wasInSelectedGroupRef.current = true;
+      return;
+    }
+    if (wasInSelectedGroupRef.current && selectedConversation && !selectedUserId) {
+      setSelectedConversation(null);
+      setGroupModalMode(null);
+    }
+    wasInSelectedGroupRef.current = false;
+  }, [selectedGroup?.id, selectedConversation]);
+
+  // Chat message listener (latest page + realtime updates), showing the cached copy until it answers
   useEffect(() => {
     if (!selectedConversation) return;
 
+    const conversationId = selectedConversation;
+    activeConversationRef.current = conversationId;
+    knownMessageIdsRef.current = new Set();
+    isLoadingOlderRef.current = false;
+    stickToBottomRef.current = true;
+    keepScrollPositionRef.current = false;
+
     setMessages([]);
-    setLastVisibleMessageDoc(null);
+    setPendingAttachment(null);
+    setEditingMessage(null);
+    setReplyingTo(null);
     setHasMoreMessages(true);
     setIsLoadingMoreMessages(false);
+    closeMessageSearch();
 
-    setActiveConversationForNotifications(selectedConversation);
+    setActiveConversationForNotifications(conversationId);
 
-    const messagesQuery = query(
-      collection(db, 'directMessages'),
-      where('conversationId', '==', selectedConversation),
-      orderBy('createdAt', 'desc'),
-      limit(MESSAGES_BATCH_SIZE)
-    );
+    let isActive = true;
+    let hasLatestMessages = false;
+    offlineService.getCachedConversationMessages(conversationId).then((cachedMessages) => {
+      if (isActive && !hasLatestMessages && cachedMessages.length > 0) {
+        setMessages((prevMessages) => prevMessages.length > 0 ? prevMessages : cachedMessages);
+      }
+    });
 
-    const unsubscribe = onSnapshot(messagesQuery, (snapshot) => {
-      const newestBatch = snapshot.docs.map((messageDoc) => ({
-        id: messageDoc.id,
-        ...messageDoc.data(),
-        createdAt: messageDoc.data().createdAt?.toDate() || new Date(),
-      })) as DirectMessage[];
+    const unsubscribe = getConversationMessages(conversationId, (newestBatch) => {
+      const isFirstBatch = !hasLatestMessages;
+      hasLatestMessages = true;
 
+      const currentUserId = auth.currentUser?.uid || '';
+      const addedMessages = newestBatch.filter((msg) => !knownMessageIdsRef.current.has(msg.id));
+      newestBatch.forEach((msg) => knownMessageIdsRef.current.add(msg.id));
       const newestIds = new Set(newestBatch.map((msg) => msg.id));
 
       setMessages((prevMessages) => {
-        const olderLoadedMessages = prevMessages.filter((msg) => !newestIds.has(msg.id));
-        const merged = [...olderLoadedMessages, ...newestBatch];
-        merged.sort((a, b) => {
-          const aTime = a.createdAt instanceof Date ? a.createdAt.getTime() : new Date(a.createdAt || 0).getTime();
-          const bTime = b.createdAt instanceof Date ? b.createdAt.getTime() : new Date(b.createdAt || 0).getTime();
-          return aTime - bTime;
-        });
-        return merged;
+        // The first batch replaces the cached copy; later ones keep the older pages loaded so far
+        const keptMessages = prevMessages.filter((msg) =>
+          !newestIds.has(msg.id) && (!isFirstBatch || msg.id.startsWith('offline_'))
+        );
+        return sortMessagesByTime([...keptMessages, ...newestBatch]);
       });
 
-      if (!lastVisibleMessageDoc) {
-        setLastVisibleMessageDoc(snapshot.docs[snapshot.docs.length - 1] || null);
-        setHasMoreMessages(snapshot.docs.length === MESSAGES_BATCH_SIZE);
+      if (isFirstBatch) {
+        setHasMoreMessages(newestBatch.length === MESSAGES_PAGE_SIZE);
+      }
+      offlineService.cacheConversationMessages(conversationId, newestBatch).catch(console.error);
+
+      // Opening the chat resets the unread count; messages arriving while it is open are seen right away
+      const hasUnseenIncoming = addedMessages.some((msg) =>
+        msg.fromUserId !== currentUserId &&
+        msg.type !== 'system' &&
+        (msg.toUserId ? !msg.read : !(msg.readBy || []).includes(currentUserId))
+      );
+      if (isFirstBatch || hasUnseenIncoming) {
+        markMessagesAsRead(conversationId).catch(console.error);
       }
 
-      requestAnimationFrame(() => scrollMessagesToBottom(false));
+      // Someone reading older messages is only moved down for messages they send themselves
+      const sentNewMessage = addedMessages.some((msg) => msg.fromUserId === currentUserId);
+      if (isFirstBatch || stickToBottomRef.current || sentNewMessage) {
+        requestAnimationFrame(() => scrollMessagesToBottom(false));
+      }
+    }, {
+      pageSize: MESSAGES_PAGE_SIZE,
+      onError: (error) => {
+        // Members only: fails for a new one-to-one chat until its first message creates the conversation
+        console.warn('Chat message listener stopped:', error);
+      },
     });
 
-    markMessagesAsRead(selectedConversation).catch(console.error);
     return () => {
+      isActive = false;
+      activeConversationRef.current = null;
       setActiveConversationForNotifications(null);
       unsubscribe();
     };
   }, [selectedConversation, messageReloadToken]);
 
+  // Typing indicators (not for the bot, which never types)
+  useEffect(() => {
+    if (!selectedConversation || selectedUserId === BOT_USER_ID) return;
+
+    const conversationId = selectedConversation;
+    const unsubscribe = subscribeToTypingStatus(conversationId, setTypingUserIds);
+    return () => {
+      unsubscribe();
+      setTypingUserIds([]);
+      stopTyping(conversationId);
+    };
+  }, [selectedConversation, selectedUserId]);
+
   useEffect(() => {
     const unsubscribe = onSyncCompleted((actions) => {
       if (actions.some((action) => action.type === 'SEND_MESSAGE')) {
@@ -256,57 +419,205 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
     return unsubscribe;
   }, []);
 
+  // Cursor for older pages: the oldest message that is already on the server
+  const getOldestLoadedMessageId = () => messages.find((msg) => !msg.id.startsWith('offline_'))?.id;
+
   const loadMoreMessages = async () => {
-    if (!selectedConversation || isLoadingMoreMessages || !hasMoreMessages || !lastVisibleMessageDoc) {
+    const conversationId = selectedConversation;
+    const oldestMessageId = getOldestLoadedMessageId();
+    if (!conversationId || !oldestMessageId || isLoadingOlderRef.current || !hasMoreMessages) {
       return;
     }
 
+    isLoadingOlderRef.current = true;
     setIsLoadingMoreMessages(true);
     try {
-      const olderMessagesQuery = query(
-        collection(db, 'directMessages'),
-        where('conversationId', '==', selectedConversation),
-        orderBy('createdAt', 'desc'),
-        startAfter(lastVisibleMessageDoc),
-        limit(MESSAGES_BATCH_SIZE)
-      );
+      const page = await getOlderConversationMessages(conversationId, oldestMessageId);
+      if (activeConversationRef.current !== conversationId) return;
 
-      const snapshot = await getDocs(olderMessagesQuery);
-      const olderMessages = snapshot.docs.map((messageDoc) => ({
-        id: messageDoc.id,
-        ...messageDoc.data(),
-        createdAt: messageDoc.data().createdAt?.toDate() || new Date(),
-      })) as DirectMessage[];
-
-      if (olderMessages.length > 0) {
-        setMessages((prevMessages) => {
-          const existingIds = new Set(prevMessages.map((msg) => msg.id));
-          const uniqueOlder = olderMessages.filter((msg) => !existingIds.has(msg.id));
-          const merged = [...prevMessages, ...uniqueOlder];
-          merged.sort((a, b) => {
-            const aTime = a.createdAt instanceof Date ? a.createdAt.getTime() : new Date(a.createdAt || 0).getTime();
-            const bTime = b.createdAt instanceof Date ? b.createdAt.getTime() : new Date(b.createdAt || 0).getTime();
-            return aTime - bTime;
-          });
-          return merged;
-        });
+      if (page.messages.length > 0) {
+        keepScrollPositionRef.current = true;
+        setMessages((prevMessages) => mergeOlderMessages(prevMessages, page.messages));
       }
-
-      setLastVisibleMessageDoc(snapshot.docs[snapshot.docs.length - 1] || lastVisibleMessageDoc);
-      setHasMoreMessages(snapshot.docs.length === MESSAGES_BATCH_SIZE);
+      setHasMoreMessages(page.hasMore);
     } catch (error) {
       console.error('Error loading more messages:', error);
     } finally {
-      setIsLoadingMoreMessages(false);
+      if (activeConversationRef.current === conversationId) {
+        isLoadingOlderRef.current = false;
+        setIsLoadingMoreMessages(false);
+      }
     }
   };
 
   const handleMessagesScroll = (event: any) => {
-    if (event?.nativeEvent?.contentOffset?.y <= 160) {
+    const { contentOffset, contentSize, layoutMeasurement } = event?.nativeEvent || {};
+    if (!contentOffset) return;
+
+    scrollOffsetRef.current = contentOffset.y;
+    if (contentSize && layoutMeasurement) {
+      stickToBottomRef.current = contentSize.height - layoutMeasurement.height - contentOffset.y < STICK_TO_BOTTOM_THRESHOLD;
+    }
+    if (contentOffset.y <= 160) {
       loadMoreMessages();
     }
   };
 
+  const handleMessagesContentSizeChange = (_width: number, height: number) => {
+    const previousHeight = contentHeightRef.current;
+    contentHeightRef.current = height;
+
+    if (keepScrollPositionRef.current) {
+      // Older messages went in above the visible ones: keep those where they were
+      keepScrollPositionRef.current = false;
+      flatListRef.current?.scrollToOffset({
+        offset: scrollOffsetRef.current + height - previousHeight,
+        animated: false,
+      });
+      return;
+    }
+    if (stickToBottomRef.current) {
+      scrollMessagesToBottom(false);
+    }
+  };
+
+  // Search within the open conversation
+  const closeMessageSearch = () => {
+    setIsMessageSearchOpen(false);
+    setMessageSearchText('');
+    setSearchedText('');
+    setMessageSearchResults([]);
+    setMessageSearchIndex(0);
+    setMessageSearchCursor(undefined);
+    setIsSearchingMessages(false);
+    setHighlightedMessageId(null);
+    setPendingScrollMessageId(null);
+  };
+
+  // Loads older pages until the message is in the list, then scrolls to it
+  const jumpToMessage = async (message: DirectMessage) => {
+    const conversationId = selectedConversation;
+    if (!conversationId) return;
+
+    setHighlightedMessageId(message.id);
+    stickToBottomRef.current = false;
+
+    if (!messages.some((msg) => msg.id === message.id)) {
+      let cursorId = getOldestLoadedMessageId();
+      let hasMore = hasMoreMessages;
+      let olderMessages: DirectMessage[] = [];
+
+      isLoadingOlderRef.current = true;
+      setIsLoadingMoreMessages(true);
+      try {
+        while (cursorId && hasMore && !olderMessages.some((msg) => msg.id === message.id)) {
+          const page = await getOlderConversationMessages(conversationId, cursorId, SEARCH_JUMP_PAGE_SIZE);
+          if (activeConversationRef.current !== conversationId) return;
+          if (page.messages.length === 0) break;
+
+          olderMessages = [...page.messages, ...olderMessages];
+          cursorId = page.messages[0].id;
+          hasMore = page.hasMore;
+        }
+
+        setMessages((prevMessages) => mergeOlderMessages(prevMessages, olderMessages));
+        setHasMoreMessages(hasMore);
+      } catch (error) {
+        console.error('Error loading messages for search result:', error);
+      } finally {
+        if (activeConversationRef.current === conversationId) {
+          isLoadingOlderRef.current = false;
+          setIsLoadingMoreMessages(false);
+        }
+      }
+    }
+
+    setPendingScrollMessageId(message.id);
+  };
+
+  const handleSearchMessages = async () => {
+    const conversationId = selectedConversation;
+    const searchText = messageSearchText.trim();
+    if (!conversationId || !searchText) return;
+
+    setIsSearchingMessages(true);
+    try {
+      const { matches, searchedBeforeId } = await searchConversationMessages(conversationId, searchText);
+      if (activeConversationRef.current !== conversationId) return;
+
+      setSearchedText(searchText);
+      setMessageSearchResults(matches);
+      setMessageSearchIndex(0);
+      setMessageSearchCursor(searchedBeforeId);
+      setHighlightedMessageId(null);
+      if (matches.length > 0) {
+        jumpToMessage(matches[0]);
+      }
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      Alert.alert('Error', 'Failed to search messages');
+    } finally {
+      setIsSearchingMessages(false);
+    }
+  };
+
+  // Each search reads a slice of the history; going past the oldest match searches the next one
+  const handleSearchOlderMessages = async () => {
+    const conversationId = selectedConversation;
+    if (!conversationId || !searchedText || !messageSearchCursor || isSearchingMessages) return;
+
+    setIsSearchingMessages(true);
+    try {
+      const { matches, searchedBeforeId } = await searchConversationMessages(conversationId, searchedText, messageSearchCursor);
+      if (activeConversationRef.current !== conversationId) return;
+
+      setMessageSearchResults(prev => [...prev, ...matches]);
+      setMessageSearchCursor(searchedBeforeId);
+      if (matches.length > 0) {
+        setMessageSearchIndex(messageSearchResults.length);
+        jumpToMessage(matches[0]);
+      }
+    } catch (error) {
+      console.error('Error searching older messages:', error);
+      Alert.alert('Error', 'Failed to search older messages');
+    } finally {
+      setIsSearchingMessages(false);
+    }
+  };
+
+  // Results are newest first, so "older" moves forward through them
+  const handleShowSearchResult = (direction: 'older' | 'newer') => {
+    const nextIndex = messageSearchIndex + (direction === 'older' ? 1 : -1);
+    if (direction === 'older' && nextIndex >= messageSearchResults.length && messageSearchCursor) {
+      handleSearchOlderMessages();
+      return;
+    }
+    if (nextIndex < 0 || nextIndex >= messageSearchResults.length) return;
+
+    setMessageSearchIndex(nextIndex);
+    jumpToMessage(messageSearchResults[nextIndex]);
+  };
+
+  useEffect(() => {
+    if (!pendingScrollMessageId) return;
+
+    const index = messages.findIndex((msg) => msg.id === pendingScrollMessageId);
+    if (index === -1) return;
+
+    setPendingScrollMessageId(null);
+    requestAnimationFrame(() => {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    });
+  }, [messages, pendingScrollMessageId]);
+
+  const handleScrollToIndexFailed = (info: { index: number; averageItemLength: number }) => {
+    // Rows above the target have not been measured yet: get close, then retry once they render
+    flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+    }, 100);
+  };
+
   useEffect(() => {
     if (Platform.OS !== 'android' || useSplitLayout) {
       return;
@@ -341,6 +652,8 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
   };
 
   const getOtherUserName = async (conversation: Conversation): Promise<string> => {
+    if (isGroupConversation(conversation)) return conversation.name || 'Group';
+
     const otherUserId = getOtherUserId(conversation);
     if (!otherUserId) return 'Unknown User';
 
@@ -381,11 +694,254 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
     }
   };
 
+  const handleOpenGroup = (conversationId: string) => {
+    setSelectedConversation(conversationId);
+    setSelectedUserId(null);
+    setOtherUser(null);
+  };
+
+  const handleGroupCreated = (conversationId: string) => {
+    setGroupModalMode(null);
+    setActiveTab('conversations');
+    handleOpenGroup(conversationId);
+  };
+
+  const handleLeftGroup = () => {
+    setGroupModalMode(null);
+    setSelectedConversation(null);
+  };
+
+  const stopTyping = (conversationId: string) => {
+    if (!lastTypingSentRef.current) return;
+    lastTypingSentRef.current = 0;
+    setTypingStatus(conversationId, false).catch((error) => console.warn('Error clearing typing status:', error));
+  };
+
+  // Refreshes the typing signal while the user types; users hiding their online status send none
+  const handleMessageChange = (text: string) => {
+    setNewMessage(text);
+    if (!selectedConversation || selectedUserId === BOT_USER_ID || !sharesActivityStatus(currentUserData)) return;
+
+    if (!text.trim()) {
+      stopTyping(selectedConversation);
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastTypingSentRef.current > TYPING_INDICATOR_REFRESH_MS) {
+      lastTypingSentRef.current = now;
+      setTypingStatus(selectedConversation, true).catch((error) => console.warn('Error updating typing status:', error));
+    }
+  };
+
+  const getTypingText = (): string | null => {
+    if (typingUserIds.length === 0) return null;
+    if (!selectedGroup) return `${otherUser?.displayName || 'Someone'} is typing...`;
+
+    const names = typingUserIds.map((userId) => groupMembers[userId]?.displayName || 'Someone');
+    if (names.length === 1) return `${names[0]} is typing...`;
+    if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+    return `${names[0]} and ${names.length - 1} others are typing...`;
+  };
+
+  // Status line under the newest outgoing message
+  const getReceiptText = (message: DirectMessage): string => {
+    if (selectedGroup) {
+      const seenBy = (message.readBy || []).filter((userId) => userId !== currentUser?.uid);
+      if (seenBy.length === 0) return 'Sent';
+      if (seenBy.length >= selectedGroup.participants.length - 1) return 'Seen by everyone';
+      const names = seenBy.slice(0, 3).map((userId) => groupMembers[userId]?.displayName || 'Someone');
+      return `Seen by ${names.join(', ')}${seenBy.length > 3 ? ` +${seenBy.length - 3}` : ''}`;
+    }
+
+    if (message.readAt) {
+      return `Seen ${message.readAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+    }
+    return message.read || message.deliveredAt ? 'Delivered' : 'Sent';
+  };
+
+  const getUserName = (userId: string): string => {
+    if (userId === currentUser?.uid) return 'You';
+    if (selectedGroup) return groupMembers[userId]?.displayName || 'Former member';
+    return otherUser?.displayName || 'User';
+  };
+
+  const handleMessageLongPress = (message: DirectMessage) => {
+    if (message.type === 'system' || message.unsent || message.id.startsWith('offline_')) return;
+    setActionMessage(message);
+  };
+
+  // Picking the reaction you already chose removes it
+  const handleReactToMessage = async (message: DirectMessage, reaction: ReactionType) => {
+    setActionMessage(null);
+    const currentReaction = currentUser ? message.reactions?.[currentUser.uid] : undefined;
+    try {
+      await setMessageReaction(message.id, currentReaction === reaction ? null : reaction);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to react to message');
+    }
+  };
+
+  const handleStartReply = (message: DirectMessage) => {
+    setActionMessage(null);
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  const handleStartEdit = (message: DirectMessage) => {
+    setActionMessage(null);
+    setReplyingTo(null);
+    setPendingAttachment(null);
+    setEditingMessage(message);
+    setNewMessage(message.message);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  const handleSaveEdit = async (message: DirectMessage) => {
+    setLoading(true);
+    try {
+      await editDirectMessage(message.id, newMessage);
+      setEditingMessage(null);
+      setNewMessage('');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to edit message');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnsendMessage = async (message: DirectMessage) => {
+    setActionMessage(null);
+
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm('Unsend this message for everyone?')
+      : await new Promise<boolean>(resolve =>
+          Alert.alert('Unsend Message', 'Unsend this message for everyone?', [
+            { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+            { text: 'Unsend', style: 'destructive', onPress: () => resolve(true) },
+          ])
+        );
+    if (!confirmed) return;
+
+    try {
+      await unsendDirectMessage(message.id);
+      if (editingMessage?.id === message.id) handleCancelEdit();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to unsend message');
+    }
+  };
+
+  const handleAttachImage = async (source: 'gallery' | 'camera') => {
+    setPreparingAttachment(true);
+    try {
+      const picked = source === 'camera'
+        ? await takePhoto({ allowsEditing: false })
+        : (await pickImageFromGallery({ allowsEditing: false }))[0];
+      if (!picked) return;
+
+      const image = await prepareImageForPost(
+        {
+          uri: picked.uri || `data:image/jpeg;base64,${picked.base64}`,
+          width: picked.width,
+          height: picked.height,
+        },
+        MESSAGE_IMAGE_LIMITS
+      );
+      setPendingAttachment(image);
+    } catch (error: any) {
+      console.error('Error attaching image:', error);
+      Alert.alert('Error', error?.message || 'Failed to attach image');
+    } finally {
+      setPreparingAttachment(false);
+    }
+  };
+
+  const handleDownloadImage = async () => {
+    try {
+      if (!viewerImage?.data) {
+        Alert.alert('Error', 'No image available to download.');
+        return;
+      }
+
+      if (Platform.OS === 'web') {
+        const link = document.createElement('a');
+        link.href = viewerImage.data;
+        link.download = `gso-message-image-${Date.now()}.jpg`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        return;
+      }
+
+      const FileSystem = await import('expo-file-system/legacy');
+      const MediaLibrary = await import('expo-media-library');
+
+      const permission = await MediaLibrary.requestPermissionsAsync(false, ['photo']);
+      if (permission.status !== 'granted') {
+        Alert.alert('Permission needed', 'Please allow media library access to save images.');
+        return;
+      }
+
+      const fileUri = `${FileSystem.cacheDirectory}gso-message-image-${Date.now()}.jpg`;
+      await FileSystem.writeAsStringAsync(fileUri, viewerImage.data.split(',')[1] || '', {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      const asset = await MediaLibrary.createAssetAsync(fileUri);
+      await MediaLibrary.createAlbumAsync('GSO', asset, false).catch(() => {});
+      Alert.alert('Saved', 'Image downloaded to your gallery.');
+    } catch (error: any) {
+      Alert.alert(
+        'Download unavailable',
+        'Native download module is not ready. Rebuild the Android app/dev client after installing new Expo modules.'
+      );
+    }
+  };
+
+  // Group messages are sent online only; the offline queue handles one-to-one chats
+  const handleSendGroupMessage = async (conversationId: string) => {
+    const text = newMessage.trim();
+    setLoading(true);
+    stopTyping(conversationId);
+    try {
+      await sendGroupMessage(
+        conversationId,
+        text,
+        pendingAttachment || undefined,
+        replyingTo ? getReplyPreview(replyingTo) : undefined
+      );
+      setNewMessage('');
+      setPendingAttachment(null);
+      setReplyingTo(null);
+    } catch (error: any) {
+      console.error('Error sending group message:', error);
+      Alert.alert('Error', error?.message || 'Failed to send message. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!newMessage.trim() || loading || !selectedUserId) return;
+    if ((!newMessage.trim() && !pendingAttachment) || loading) return;
+    if (editingMessage) {
+      await handleSaveEdit(editingMessage);
+      return;
+    }
+    if (selectedGroup) {
+      await handleSendGroupMessage(selectedGroup.id);
+      return;
+    }
+    if (!selectedUserId) return;
 
     const text = newMessage.trim();
+    const attachment = pendingAttachment || undefined;
+    const replyTo = replyingTo ? getReplyPreview(replyingTo) : undefined;
     setLoading(true);
+    if (selectedConversation) stopTyping(selectedConversation);
     try {
       // Check if messaging the bot
       if (selectedUserId === BOT_USER_ID) {
@@ -403,6 +959,8 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
             message: text,
             read: false,
             createdAt: new Date(),
+            ...(attachment ? { image: attachment } : {}),
+            ...(replyTo ? { replyTo } : {}),
           };
           setMessages((prev) => [...prev, optimisticMessage]);
           setTimeout(() => scrollMessagesToBottom(true), 50);
@@ -412,10 +970,19 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
         await offlineService.sendDirectMessage(
           currentUser?.uid || '',
           selectedUserId,
-          text
+          text,
+          attachment,
+          replyTo
         );
+
+        // The first message creates the conversation, so the member-only listener can start now
+        if (!isOfflineSend && !conversations.some((conv) => conv.id === selectedConversation)) {
+          setMessageReloadToken((currentValue) => currentValue + 1);
+        }
       }
       setNewMessage('');
+      setPendingAttachment(null);
+      setReplyingTo(null);
     } catch (error: any) {
       console.error('Error sending message:', error);
       if (selectedUserId === BOT_USER_ID) {
@@ -428,6 +995,8 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
         );
       }
       setNewMessage('');
+      setPendingAttachment(null);
+      setReplyingTo(null);
     } finally {
       setLoading(false);
     }
@@ -566,7 +1135,7 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
   };
 
   const isUserOnlineNow = (user?: Partial<User> | null): boolean => {
-    if (!user?.isOnline) return false;
+    if (!user?.isOnline || !sharesActivityStatus(user)) return false;
 
     const rawLastActive = (user as any).lastActive;
     let lastActive: Date | null = null;
@@ -599,6 +1168,7 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
     if (!currentUserId) return;
 
     const existingConvo = conversations.find((c) => {
+      if (isGroupConversation(c)) return false;
       const otherUserId = getOtherUserId(c);
       return otherUserId === friendUserId;
     });
@@ -708,21 +1278,68 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
           keyExtractor={(item: any) => item.id}
           ListHeaderComponent={
             activeTab === 'conversations' ? (
-              <TouchableOpacity
-                style={[styles.botChatButton, selectedUserId === BOT_USER_ID && styles.selectedListItem]}
-                onPress={handleStartBotChat}
-              >
-                <View style={styles.botIconContainer}>
-                  <Text style={styles.botIcon}>🤖</Text>
-                </View>
-                <View style={styles.listItemContent}>
-                  <Text style={styles.botChatTitle}>Chat with GSO Assistant</Text>
-                  <Text style={styles.botChatSubtitle}>Get help and tips for using the app</Text>
-                </View>
-              </TouchableOpacity>
+              <>
+                <TouchableOpacity
+                  style={[styles.botChatButton, selectedUserId === BOT_USER_ID && styles.selectedListItem]}
+                  onPress={handleStartBotChat}
+                >
+                  <View style={styles.botIconContainer}>
+                    <Text style={styles.botIcon}>🤖</Text>
+                  </View>
+                  <View style={styles.listItemContent}>
+                    <Text style={styles.botChatTitle}>Chat with GSO Assistant</Text>
+                    <Text style={styles.botChatSubtitle}>Get help and tips for using the app</Text>
+                  </View>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.botChatButton} onPress={() => setGroupModalMode('create')}>
+                  <View style={styles.botIconContainer}>
+                    <Text style={styles.botIcon}>👥</Text>
+                  </View>
+                  <View style={styles.listItemContent}>
+                    <Text style={styles.botChatTitle}>New group</Text>
+                    <Text style={styles.botChatSubtitle}>Chat with several friends at once</Text>
+                  </View>
+                </TouchableOpacity>
+              </>
             ) : null
           }
           renderItem={({ item }) => {
+            if (activeTab === 'conversations' && isGroupConversation(item)) {
+              const groupName = item.name || 'Group';
+
+              return (
+                <TouchableOpacity
+                  style={[
+                    styles.listItem,
+                    selectedConversation === item.id && styles.selectedListItem
+                  ]}
+                  onPress={() => handleOpenGroup(item.id)}
+                >
+                  {item.avatar ? (
+                    <Image
+                      source={{ uri: item.avatar }}
+                      style={styles.listItemAvatar}
+                    />
+                  ) : (
+                    <View style={styles.listItemAvatarPlaceholder}>
+                      <Text style={styles.listItemAvatarText}>👥</Text>
+                    </View>
+                  )}
+                  <View style={styles.listItemContent}>
+                    <Text style={styles.listItemTitle}>{groupName}</Text>
+                    <Text style={styles.listItemSubtitle} numberOfLines={1}>
+                      {item.lastMessage || 'No messages yet'}
+                    </Text>
+                  </View>
+                  {item[`unreadCount_${currentUser?.uid}`] > 0 && (
+                    <View style={styles.unreadBadge}>
+                      <Text style={styles.unreadText}>{item[`unreadCount_${currentUser?.uid}`]}</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            }
+
             if (activeTab === 'conversations') {
               const otherUserId = getOtherUserId(item);
               const otherUserName = item.otherUserName || 'Unknown User';
@@ -896,7 +1513,11 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
   );
 
   const renderChatArea = () => {
-    if (!selectedConversation || !otherUser) {
+    const lastOwnMessageId = [...messages]
+      .reverse()
+      .find((msg) => msg.fromUserId === currentUser?.uid && msg.type !== 'system' && !msg.id.startsWith('offline_'))?.id;
+
+    if (!selectedConversation || (!otherUser && !selectedGroup)) {
       return (
         <View style={styles.chatArea}>
           <LinearGradient colors={['#f8f9fa', '#e9ecef']} style={styles.emptyChatGradient}>
@@ -935,32 +1556,104 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
                 <Text style={styles.backButtonText}>←</Text>
               </TouchableOpacity>
             )}
-            <TouchableOpacity
-              disabled={selectedUserId === BOT_USER_ID}
-              onPress={() => selectedUserId && selectedUserId !== BOT_USER_ID && onNavigateToProfile(selectedUserId)}
-              style={styles.chatHeaderAvatar}
-            >
-              {otherUser?.profilePicture ? (
-                <Image
-                  source={{ uri: otherUser.profilePicture }}
-                  style={styles.chatHeaderAvatarImage}
-                />
-              ) : (
-                <View style={styles.chatHeaderAvatarPlaceholder}>
-                  <Text style={styles.chatHeaderAvatarText}>
-                    {(otherUser?.displayName || 'User').charAt(0).toUpperCase()}
+            {selectedGroup ? (
+              <>
+                <TouchableOpacity onPress={() => setGroupModalMode('manage')} style={styles.chatHeaderAvatar}>
+                  {selectedGroup.avatar ? (
+                    <Image
+                      source={{ uri: selectedGroup.avatar }}
+                      style={styles.chatHeaderAvatarImage}
+                    />
+                  ) : (
+                    <View style={styles.chatHeaderAvatarPlaceholder}>
+                      <Text style={styles.chatHeaderAvatarText}>👥</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.chatHeaderContent} onPress={() => setGroupModalMode('manage')}>
+                  <Text style={styles.chatHeaderTitle}>{selectedGroup.name || 'Group'}</Text>
+                  <Text style={styles.chatHeaderSubtitle}>
+                    {selectedGroup.participants.length} members · Tap for group info
+                  </Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <TouchableOpacity
+                  disabled={selectedUserId === BOT_USER_ID}
+                  onPress={() => selectedUserId && selectedUserId !== BOT_USER_ID && onNavigateToProfile(selectedUserId)}
+                  style={styles.chatHeaderAvatar}
+                >
+                  {otherUser?.profilePicture ? (
+                    <Image
+                      source={{ uri: otherUser.profilePicture }}
+                      style={styles.chatHeaderAvatarImage}
+                    />
+                  ) : (
+                    <View style={styles.chatHeaderAvatarPlaceholder}>
+                      <Text style={styles.chatHeaderAvatarText}>
+                        {(otherUser?.displayName || 'User').charAt(0).toUpperCase()}
+                      </Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+                <View style={styles.chatHeaderContent}>
+                  <Text style={styles.chatHeaderTitle}>{otherUser?.displayName}</Text>
+                  <Text style={styles.chatHeaderSubtitle}>
+                    {isUserOnlineNow(otherUser) ? '🟢 Online' : '⚫ Offline'}
                   </Text>
                 </View>
-              )}
+              </>
+            )}
+            <TouchableOpacity
+              onPress={() => isMessageSearchOpen ? closeMessageSearch() : setIsMessageSearchOpen(true)}
+              style={styles.chatHeaderAction}
+              accessibilityLabel="Search in conversation"
+            >
+              <Text style={styles.chatHeaderActionText}>{isMessageSearchOpen ? '✕' : '🔍'}</Text>
             </TouchableOpacity>
-            <View style={styles.chatHeaderContent}>
-              <Text style={styles.chatHeaderTitle}>{otherUser.displayName}</Text>
-              <Text style={styles.chatHeaderSubtitle}>
-                {isUserOnlineNow(otherUser) ? '🟢 Online' : '⚫ Offline'}
-              </Text>
-            </View>
           </View>
 
+          {isMessageSearchOpen && (
+            <View style={styles.messageSearchBar}>
+              <TextInput
+                style={styles.messageSearchInput}
+                placeholder="Search in conversation"
+                placeholderTextColor="#999"
+                value={messageSearchText}
+                onChangeText={setMessageSearchText}
+                onSubmitEditing={handleSearchMessages}
+                returnKeyType="search"
+                autoFocus
+              />
+              {isSearchingMessages ? (
+                <ActivityIndicator color="white" size="small" />
+              ) : !!searchedText && (
+                <Text style={styles.messageSearchStatus}>
+                  {messageSearchResults.length > 0
+                    ? `${messageSearchIndex + 1} of ${messageSearchResults.length}${messageSearchCursor ? '+' : ''}`
+                    : messageSearchCursor ? 'No recent matches, ↑ searches older' : 'No matches'}
+                </Text>
+              )}
+              <TouchableOpacity
+                onPress={() => handleShowSearchResult('older')}
+                disabled={messageSearchIndex >= messageSearchResults.length - 1 && !messageSearchCursor}
+                style={styles.messageSearchButton}
+                accessibilityLabel={messageSearchCursor ? 'Older match, searching older messages if needed' : 'Older match'}
+              >
+                <Text style={styles.messageSearchButtonText}>↑</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleShowSearchResult('newer')}
+                disabled={messageSearchIndex <= 0}
+                style={styles.messageSearchButton}
+                accessibilityLabel="Newer match"
+              >
+                <Text style={styles.messageSearchButtonText}>↓</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
           {/* Messages List */}
           <FlatList
             ref={flatListRef}
@@ -971,16 +1664,30 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
             ]}
             data={messages}
             keyExtractor={(item) => item.id}
-            onContentSizeChange={() => scrollMessagesToBottom(false)}
-            onLayout={() => scrollMessagesToBottom(false)}
+            onContentSizeChange={handleMessagesContentSizeChange}
+            onLayout={() => stickToBottomRef.current && scrollMessagesToBottom(false)}
             onScroll={handleMessagesScroll}
+            onScrollToIndexFailed={handleScrollToIndexFailed}
             scrollEventThrottle={16}
             renderItem={({ item }) => {
+              if (item.type === 'system') {
+                return (
+                  <View style={styles.systemMessageContainer}>
+                    <Text style={styles.systemMessageText}>{item.message}</Text>
+                  </View>
+                );
+              }
+
               const isOwnMessage = item.fromUserId === currentUser?.uid;
               const isPendingMessage = item.id.startsWith('offline_');
+              const showReceipt = item.id === lastOwnMessageId && selectedUserId !== BOT_USER_ID;
+              const reactionSummary = item.unsent ? [] : getMessageReactionSummary(item.reactions);
               const messageTime = item.createdAt instanceof Date 
                 ? item.createdAt 
                 : new Date(item.createdAt || Date.now());
+              // In groups each message shows its own sender
+              const sender = selectedGroup ? groupMembers[item.fromUserId] : otherUser;
+              const senderId = selectedGroup ? item.fromUserId : selectedUserId;
               
               return (
                 <View style={[
@@ -989,33 +1696,120 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
                 ]}>
                   {!isOwnMessage && (
                     <TouchableOpacity
-                      disabled={selectedUserId === BOT_USER_ID}
-                      onPress={() => selectedUserId && selectedUserId !== BOT_USER_ID && onNavigateToProfile(selectedUserId)}
+                      disabled={senderId === BOT_USER_ID}
+                      onPress={() => senderId && senderId !== BOT_USER_ID && onNavigateToProfile(senderId)}
                     >
-                      {otherUser?.profilePicture ? (
+                      {sender?.profilePicture ? (
                         <Image
-                          source={{ uri: otherUser.profilePicture }}
+                          source={{ uri: sender.profilePicture }}
                           style={styles.messageAvatar}
                         />
                       ) : (
                         <View style={styles.messageAvatarPlaceholder}>
                           <Text style={styles.messageAvatarText}>
-                            {(otherUser?.displayName || 'User').charAt(0).toUpperCase()}
+                            {(sender?.displayName || 'User').charAt(0).toUpperCase()}
                           </Text>
                         </View>
                       )}
                     </TouchableOpacity>
                   )}
-                  <View style={[
-                    styles.messageBubble,
-                    isOwnMessage ? styles.ownBubble : styles.otherBubble
-                  ]}>
-                    <Text style={[
-                      styles.messageText,
-                      isOwnMessage ? styles.ownMessageText : styles.otherMessageText
-                    ]}>
-                      {item.message || 'No message content'}
-                    </Text>
+                  <TouchableOpacity
+                    activeOpacity={0.8}
+                    onLongPress={() => handleMessageLongPress(item)}
+                    delayLongPress={300}
+                    style={[
+                      styles.messageBubble,
+                      isOwnMessage ? styles.ownBubble : styles.otherBubble,
+                      item.id === highlightedMessageId && styles.highlightedBubble
+                    ]}
+                  >
+                    {selectedGroup && !isOwnMessage && (
+                      <Text style={styles.messageSenderName}>{sender?.displayName || 'Former member'}</Text>
+                    )}
+                    {item.replyTo && !item.unsent && (
+                      <View style={[styles.replyQuote, isOwnMessage ? styles.ownReplyQuote : styles.otherReplyQuote]}>
+                        <Text style={[styles.replyQuoteAuthor, isOwnMessage ? styles.ownMessageText : styles.otherMessageText]}>
+                          {getUserName(item.replyTo.fromUserId)}
+                        </Text>
+                        <Text
+                          style={[styles.replyQuoteText, isOwnMessage ? styles.ownMessageText : styles.otherMessageText]}
+                          numberOfLines={2}
+                        >
+                          {item.replyTo.message || UNSENT_MESSAGE_TEXT}
+                        </Text>
+                      </View>
+                    )}
+                    {item.unsent ? (
+                      <Text style={[
+                        styles.messageText,
+                        styles.unsentMessageText,
+                        isOwnMessage ? styles.ownMessageTime : styles.otherMessageTime
+                      ]}>
+                        🚫 {UNSENT_MESSAGE_TEXT}
+                      </Text>
+                    ) : item.image && !item.image.data ? (
+                      // Cached messages keep only the photo's size until the listener delivers it
+                      <View style={[
+                        styles.messageImage,
+                        styles.messageImagePlaceholder,
+                        {
+                          height: Math.min(
+                            280,
+                            Math.round(MESSAGE_THUMBNAIL_WIDTH * (item.image.height || 1) / (item.image.width || 1))
+                          ),
+                        },
+                      ]}>
+                        <ActivityIndicator color={isOwnMessage ? '#667eea' : 'white'} />
+                      </View>
+                    ) : item.image && (
+                      <TouchableOpacity onPress={() => setViewerImage(item.image!)} activeOpacity={0.9}>
+                        <Image
+                          source={{ uri: item.image.data }}
+                          style={[
+                            styles.messageImage,
+                            {
+                              height: Math.min(
+                                280,
+                                Math.round(MESSAGE_THUMBNAIL_WIDTH * (item.image.height || 1) / (item.image.width || 1))
+                              ),
+                            },
+                          ]}
+                          resizeMode="cover"
+                          accessible
+                          accessibilityLabel={getImageAccessibilityLabel(item.image)}
+                        />
+                      </TouchableOpacity>
+                    )}
+                    {!item.unsent && (!!item.message || !item.image) && (
+                      <Text style={[
+                        styles.messageText,
+                        isOwnMessage ? styles.ownMessageText : styles.otherMessageText
+                      ]}>
+                        {searchedText && messageMatchesSearch(item, searchedText)
+                          ? getSearchHighlightParts(item.message, searchedText).map((part, index) => (
+                              <Text key={index} style={part.highlighted ? styles.searchMatchText : undefined}>
+                                {part.text}
+                              </Text>
+                            ))
+                          : item.message || 'No message content'}
+                      </Text>
+                    )}
+                    {reactionSummary.length > 0 && (
+                      <View style={styles.messageReactions}>
+                        {reactionSummary.map((reaction) => (
+                          <TouchableOpacity
+                            key={reaction.type}
+                            style={[
+                              styles.messageReactionChip,
+                              item.reactions?.[currentUser?.uid || ''] === reaction.type && styles.messageReactionChipSelected,
+                            ]}
+                            onPress={() => handleReactToMessage(item, reaction.type)}
+                          >
+                            <Text style={styles.messageReactionText}>{reaction.emoji} {reaction.count}</Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    )}
                     <Text style={[
                       styles.messageTime,
                       isOwnMessage ? styles.ownMessageTime : styles.otherMessageTime
@@ -1024,13 +1818,19 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
                         hour: '2-digit', 
                         minute: '2-digit' 
                       })}
+                      {item.editedAt && !item.unsent ? ' · edited' : ''}
                     </Text>
                     {isPendingMessage && (
                       <Text style={[styles.pendingSyncText, isOwnMessage ? styles.ownPendingSyncText : styles.otherPendingSyncText]}>
                         Pending sync
                       </Text>
                     )}
-                  </View>
+                    {showReceipt && (
+                      <Text style={[styles.pendingSyncText, styles.ownPendingSyncText]}>
+                        {getReceiptText(item)}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
                 </View>
               );
             }}
@@ -1044,13 +1844,81 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
                 <View style={styles.loadingMoreMessagesContainer}>
                   <Text style={styles.loadingMoreMessagesText}>Beginning of conversation</Text>
                 </View>
+              ) : messages.length > 0 ? (
+                <TouchableOpacity style={styles.loadingMoreMessagesContainer} onPress={loadMoreMessages}>
+                  <Text style={styles.loadingMoreMessagesText}>Load earlier messages</Text>
+                </TouchableOpacity>
               ) : null
             }
           />
 
+          {!!getTypingText() && (
+            <Text style={styles.typingIndicatorText}>{getTypingText()}</Text>
+          )}
+
           {/* Message Input */}
           <View style={styles.inputContainer}>
+            {(editingMessage || replyingTo) && (
+              <View style={styles.composerBanner}>
+                <View style={styles.composerBannerContent}>
+                  <Text style={styles.composerBannerTitle}>
+                    {editingMessage ? '✏️ Editing message' : `↩️ Replying to ${getUserName(replyingTo!.fromUserId)}`}
+                  </Text>
+                  {replyingTo && !editingMessage && (
+                    <Text style={styles.composerBannerText} numberOfLines={1}>{getMessagePreview(replyingTo)}</Text>
+                  )}
+                </View>
+                <TouchableOpacity
+                  onPress={editingMessage ? handleCancelEdit : () => setReplyingTo(null)}
+                  style={styles.attachmentRemoveButton}
+                >
+                  <Text style={styles.attachmentRemoveText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {(pendingAttachment || preparingAttachment) && (
+              <View style={styles.attachmentPreview}>
+                {pendingAttachment ? (
+                  <Image
+                    source={{ uri: pendingAttachment.data }}
+                    style={styles.attachmentPreviewImage}
+                    accessible
+                    accessibilityLabel={getImageAccessibilityLabel(pendingAttachment)}
+                  />
+                ) : (
+                  <ActivityIndicator color="white" />
+                )}
+                <Text style={styles.attachmentPreviewText}>
+                  {pendingAttachment ? 'Photo attached' : 'Preparing photo...'}
+                </Text>
+                {pendingAttachment && (
+                  <TouchableOpacity onPress={() => setPendingAttachment(null)} style={styles.attachmentRemoveButton}>
+                    <Text style={styles.attachmentRemoveText}>✕</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
             <View style={styles.inputRow}>
+              {selectedUserId !== BOT_USER_ID && !editingMessage && (
+                <>
+                  <TouchableOpacity
+                    style={styles.attachButton}
+                    onPress={() => handleAttachImage('gallery')}
+                    disabled={preparingAttachment || loading}
+                  >
+                    <Text style={styles.attachButtonText}>🖼️</Text>
+                  </TouchableOpacity>
+                  {!isWeb && (
+                    <TouchableOpacity
+                      style={styles.attachButton}
+                      onPress={() => handleAttachImage('camera')}
+                      disabled={preparingAttachment || loading}
+                    >
+                      <Text style={styles.attachButtonText}>📷</Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
               <TextInput
                 style={styles.messageInput}
                 placeholder="Type a message..."
@@ -1058,7 +1926,7 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
                 cursorColor="#2ecc71"
                 selectionColor="#2ecc71"
                 value={newMessage}
-                onChangeText={setNewMessage}
+                onChangeText={handleMessageChange}
                 multiline={!isWeb}
                 returnKeyType="send"
                 onSubmitEditing={handleSendMessage}
@@ -1066,19 +1934,96 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
                 maxLength={1000}
               />
               <TouchableOpacity
-                style={[styles.sendButton, !newMessage.trim() && styles.sendButtonDisabled]}
+                style={[styles.sendButton, !newMessage.trim() && !pendingAttachment && styles.sendButtonDisabled]}
                 onPress={handleSendMessage}
-                disabled={!newMessage.trim() || loading}
+                disabled={(!newMessage.trim() && !pendingAttachment) || loading || preparingAttachment}
               >
-                <Text style={styles.sendButtonText}>Send</Text>
+                <Text style={styles.sendButtonText}>{editingMessage ? 'Save' : 'Send'}</Text>
               </TouchableOpacity>
             </View>
           </View>
         </LinearGradient>
+
+        <Modal visible={!!actionMessage} transparent animationType="fade" onRequestClose={() => setActionMessage(null)}>
+          <TouchableOpacity style={styles.messageActionsOverlay} activeOpacity={1} onPress={() => setActionMessage(null)}>
+            {actionMessage && (
+              <View style={styles.messageActionsSheet}>
+                <View style={styles.messageActionsReactions}>
+                  {REACTION_TYPES.map((reaction) => (
+                    <TouchableOpacity
+                      key={reaction.type}
+                      style={[
+                        styles.messageActionsReaction,
+                        actionMessage.reactions?.[currentUser?.uid || ''] === reaction.type && styles.messageReactionChipSelected,
+                      ]}
+                      onPress={() => handleReactToMessage(actionMessage, reaction.type)}
+                      accessibilityLabel={reaction.label}
+                    >
+                      <Text style={styles.messageActionsReactionEmoji}>{reaction.emoji}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {selectedUserId !== BOT_USER_ID && (
+                  <TouchableOpacity style={styles.messageActionButton} onPress={() => handleStartReply(actionMessage)}>
+                    <Text style={styles.messageActionText}>↩️ Reply</Text>
+                  </TouchableOpacity>
+                )}
+                {currentUser && canEditMessage(actionMessage, currentUser.uid) && (
+                  <TouchableOpacity style={styles.messageActionButton} onPress={() => handleStartEdit(actionMessage)}>
+                    <Text style={styles.messageActionText}>✏️ Edit</Text>
+                  </TouchableOpacity>
+                )}
+                {currentUser && canUnsendMessage(actionMessage, currentUser.uid) && (
+                  <TouchableOpacity style={styles.messageActionButton} onPress={() => handleUnsendMessage(actionMessage)}>
+                    <Text style={[styles.messageActionText, styles.messageActionDestructive]}>🚫 Unsend for everyone</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.messageActionButton} onPress={() => setActionMessage(null)}>
+                  <Text style={styles.messageActionText}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </TouchableOpacity>
+        </Modal>
+
+        <Modal visible={!!viewerImage} transparent animationType="fade" onRequestClose={() => setViewerImage(null)}>
+          <View style={styles.imageViewerOverlay}>
+            <View style={styles.imageViewerHeader}>
+              <TouchableOpacity style={styles.imageViewerButton} onPress={() => setViewerImage(null)}>
+                <Text style={styles.imageViewerButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.imageViewerButton} onPress={handleDownloadImage}>
+                <Text style={styles.imageViewerButtonText}>Download</Text>
+              </TouchableOpacity>
+            </View>
+            {viewerImage && (
+              <Image
+                source={{ uri: viewerImage.data }}
+                style={styles.imageViewerImage}
+                resizeMode="contain"
+                accessible
+                accessibilityLabel={getImageAccessibilityLabel(viewerImage)}
+              />
+            )}
+          </View>
+        </Modal>
       </KeyboardAvoidingView>
     );
   };
 
+  const renderGroupModal = () => (
+    <GroupConversationModal
+      visible={groupModalMode !== null}
+      conversation={groupModalMode === 'manage' ? selectedGroup : null}
+      members={groupMembers}
+      friends={friends}
+      currentUserId={currentUser?.uid}
+      onClose={() => setGroupModalMode(null)}
+      onCreated={handleGroupCreated}
+      onLeft={handleLeftGroup}
+    />
+  );
+
   // For web/tablet: side-by-side layout
   if (useSplitLayout) {
     return (
@@ -1094,6 +2039,7 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
           {renderLeftSidebar()}
           {renderChatArea()}
         </View>
+        {renderGroupModal()}
       </SafeAreaView>
     );
   }
@@ -1122,6 +2068,7 @@ const CombinedMessagesScreen: React.FC<CombinedMessagesScreenProps> = ({
           )}
         </>
       )}
+      {renderGroupModal()}
     </SafeAreaView>
   );
 };
@@ -1474,6 +2421,61 @@ const styles = StyleSheet.create({
     flex: 1,
     justifyContent: 'center',
   },
+  chatHeaderAction: {
+    padding: 8,
+  },
+  chatHeaderActionText: {
+    color: 'white',
+    fontSize: 20,
+  },
+  messageSearchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    gap: 8,
+  },
+  messageSearchInput: {
+    flex: 1,
+    backgroundColor: 'white',
+    color: '#1f1f1f',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  messageSearchStatus: {
+    color: 'rgba(255,255,255,0.9)',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  messageSearchButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  messageSearchButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  messageImagePlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.1)',
+  },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: '#ffd166',
+  },
+  searchMatchText: {
+    backgroundColor: '#ffd166',
+    color: '#1f1f1f',
+  },
   chatHeaderTitle: {
     color: 'white',
     fontSize: 20,
@@ -1563,11 +2565,142 @@ const styles = StyleSheet.create({
   otherMessageTime: {
     color: 'rgba(255,255,255,0.7)',
   },
+  messageSenderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#667eea',
+    marginBottom: 2,
+  },
+  systemMessageContainer: {
+    alignSelf: 'center',
+    maxWidth: '85%',
+    marginVertical: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  systemMessageText: {
+    color: 'white',
+    fontSize: 12,
+    textAlign: 'center',
+  },
   pendingSyncText: {
     fontSize: 11,
     marginTop: 2,
     fontWeight: '600',
   },
+  unsentMessageText: {
+    fontStyle: 'italic',
+  },
+  replyQuote: {
+    borderLeftWidth: 3,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginBottom: 6,
+  },
+  ownReplyQuote: {
+    borderLeftColor: '#667eea',
+    backgroundColor: 'rgba(102,126,234,0.12)',
+  },
+  otherReplyQuote: {
+    borderLeftColor: 'white',
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  replyQuoteAuthor: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  replyQuoteText: {
+    fontSize: 13,
+    opacity: 0.85,
+  },
+  messageReactions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 6,
+    gap: 4,
+  },
+  messageReactionChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.08)',
+  },
+  messageReactionChipSelected: {
+    backgroundColor: 'rgba(102,126,234,0.35)',
+  },
+  messageReactionText: {
+    fontSize: 13,
+  },
+  messageActionsOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  messageActionsSheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 16,
+  },
+  messageActionsReactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 8,
+  },
+  messageActionsReaction: {
+    padding: 8,
+    borderRadius: 20,
+  },
+  messageActionsReactionEmoji: {
+    fontSize: 26,
+  },
+  messageActionButton: {
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  messageActionText: {
+    fontSize: 16,
+    color: '#333',
+    textAlign: 'center',
+  },
+  messageActionDestructive: {
+    color: '#e74c3c',
+    fontWeight: '600',
+  },
+  composerBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderLeftWidth: 3,
+    borderLeftColor: 'white',
+    borderRadius: 6,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  composerBannerContent: {
+    flex: 1,
+  },
+  composerBannerTitle: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  composerBannerText: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 12,
+  },
+  typingIndicatorText: {
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 12,
+    fontStyle: 'italic',
+    paddingHorizontal: 16,
+    paddingBottom: 4,
+  },
   ownPendingSyncText: {
     color: 'rgba(0,0,0,0.45)',
     textAlign: 'right',
@@ -1604,6 +2737,76 @@ const styles = StyleSheet.create({
     maxHeight: 100,
     fontSize: 16,
   },
+  attachButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  attachButtonText: {
+    fontSize: 18,
+  },
+  attachmentPreview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  attachmentPreviewImage: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  attachmentPreviewText: {
+    flex: 1,
+    color: 'white',
+    fontSize: 13,
+    marginLeft: 10,
+  },
+  attachmentRemoveButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  attachmentRemoveText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  messageImage: {
+    width: MESSAGE_THUMBNAIL_WIDTH,
+    borderRadius: 12,
+    marginBottom: 4,
+  },
+  imageViewerOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.95)',
+  },
+  imageViewerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 50 : 20,
+    paddingBottom: 10,
+  },
+  imageViewerButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  imageViewerButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  imageViewerImage: {
+    flex: 1,
+    width: '100%',
+  },
   sendButton: {
     backgroundColor: '#2ecc71',
     borderRadius: 20,
@@ -11,18 +11,38 @@ import {
   Dimensions,
   Image,
   KeyboardAvoidingView,
+  Modal,
   useWindowDimensions,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as ImagePicker from 'expo-image-picker';
 import { createPost, getTrendingTags, searchTags, getUserDataWithCounts } from '@/services/postsService';
-import { Tag, User } from '@/types';
+import { Tag, User, PostDraft, PostVisibility } from '@/types';
 import { auth } from '@/services/firebase';
 import { offlineService } from '@/services/offlineService';
 import Navbar from '@/components/Navbar';
-import { FIRESTORE_IMAGE_LIMITS, prepareImageForPost } from '@/utils/imageUtils';
+import {
+  FIRESTORE_IMAGE_LIMITS,
+  MAX_ALT_TEXT_LENGTH,
+  getImageAccessibilityLabel,
+  prepareImageForPost,
+  withAltText
+} from '@/utils/imageUtils';
+import { describeImage } from '@/services/chatbotService';
 import { PostImage } from '@/types';
+import {
+  formatDateTimeInput,
+  parseDateTimeInput,
+  formatTimeAgo,
+  generateUniqueId,
+  getActiveMentionQuery,
+  insertMention
+} from '@/utils/helpers';
+import { saveDraft, getDrafts, loadDraft, deleteDraft } from '@/services/draftsService';
+import { normalizeTag, extractHashtags, MAX_MANUAL_TAGS, MAX_TAG_LENGTH } from '@/utils/tagUtils';
+import MentionSuggestions from '@/components/MentionSuggestions';
+import { DEFAULT_CONTENT_WARNING, MAX_CONTENT_WARNING_LENGTH, normalizeContentWarning } from '@/utils/contentWarnings';
 
 interface CreatePostScreenProps {
   onBack: () => void;
@@ -52,6 +72,36 @@ const getAdaptiveImageLimits = (imageCount: number) => {
   return { ...FIRESTORE_IMAGE_LIMITS, maxDimension: 1600, targetMaxBytes: 320 * 1024 };
 };
 
+const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+const MAX_POLL_OPTIONS = 6;
+const POLL_DURATIONS: { label: string; hours: number | null }[] = [
+  { label: 'No limit', hours: null },
+  { label: '1 day', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '7 days', hours: 168 },
+];
+const VISIBILITY_OPTIONS: { label: string; value: PostVisibility }[] = [
+  { label: 'Public', value: 'public' },
+  { label: 'Friends', value: 'friends' },
+  { label: 'Only me', value: 'private' },
+];
+
+const getSchedulePresets = (): { label: string; date: Date }[] => {
+  const inOneHour = new Date(Date.now() + 60 * 60 * 1000);
+  const tonight = new Date();
+  tonight.setHours(20, 0, 0, 0);
+  const tomorrowMorning = new Date();
+  tomorrowMorning.setDate(tomorrowMorning.getDate() + 1);
+  tomorrowMorning.setHours(9, 0, 0, 0);
+
+  return [
+    { label: 'In 1 hour', date: inOneHour },
+    ...(tonight.getTime() > Date.now() + MIN_SCHEDULE_LEAD_MS ? [{ label: 'Tonight 20:00', date: tonight }] : []),
+    { label: 'Tomorrow 09:00', date: tomorrowMorning },
+  ];
+};
+
 const getImageBase64Length = (image: PostImage): number => {
   if (!image?.data) return 0;
   return image.data.startsWith('data:') ? image.data.split(',')[1]?.length || 0 : image.data.length;
@@ -72,6 +122,7 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
   const isDesktopWeb = Platform.OS === 'web' && viewportWidth >= 900;
 
   const [content, setContent] = useState('');
+  const [mentionedUserIds, setMentionedUserIds] = useState<string[]>([]);
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
   const [suggestedTags, setSuggestedTags] = useState<Tag[]>([]);
@@ -81,7 +132,25 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
   const [showTagSuggestions, setShowTagSuggestions] = useState(false);
   const [navbarTab, setNavbarTab] = useState('create');
   const [currentUserData, setCurrentUserData] = useState<User | null>(null);
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [scheduleInput, setScheduleInput] = useState('');
+  const [pollEnabled, setPollEnabled] = useState(false);
+  const [pollOptions, setPollOptions] = useState<string[]>(['', '']);
+  const [pollAllowMultiple, setPollAllowMultiple] = useState(false);
+  const [pollDurationHours, setPollDurationHours] = useState<number | null>(24);
+  const [visibility, setVisibility] = useState<PostVisibility>('public');
+  const [contentWarningEnabled, setContentWarningEnabled] = useState(false);
+  const [contentWarning, setContentWarning] = useState('');
+  const [describingImageIndex, setDescribingImageIndex] = useState<number | null>(null);
+  const [draftId, setDraftId] = useState(() => generateUniqueId());
+  const [draftCreatedAt, setDraftCreatedAt] = useState(() => new Date());
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [drafts, setDrafts] = useState<PostDraft[]>([]);
+  const [draftsModalVisible, setDraftsModalVisible] = useState(false);
+  const [loadingDrafts, setLoadingDrafts] = useState(false);
   const tagInputRef = useRef<TextInput>(null);
+  // Set while a draft is being restored or after publishing so autosave does not fire
+  const skipAutosaveRef = useRef(false);
   const currentUser = auth.currentUser;
 
   useEffect(() => {
@@ -125,14 +194,91 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
       if (currentUser) {
         const userData = await getUserDataWithCounts(currentUser.uid);
         setCurrentUserData(userData);
+        setVisibility(userData?.privacySettings?.postVisibility || 'public');
       }
     };
     fetchCurrentUser();
   }, [currentUser]);
 
+  useEffect(() => {
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false;
+      return;
+    }
+    if (!currentUser || (!content.trim() && tags.length === 0 && images.length === 0)) {
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        await saveDraft(draftId, content, tags, images, draftCreatedAt);
+        setDraftSavedAt(new Date());
+      } catch (error) {
+        console.error('Error autosaving draft:', error);
+      }
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [content, tags, images]);
+
+  const openDrafts = async () => {
+    setDraftsModalVisible(true);
+    setLoadingDrafts(true);
+    try {
+      const savedDrafts = await getDrafts();
+      setDrafts(savedDrafts.filter(draft => draft.id !== draftId));
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+      Alert.alert('Error', 'Failed to load drafts');
+    } finally {
+      setLoadingDrafts(false);
+    }
+  };
+
+  const handleResumeDraft = async (draft: PostDraft) => {
+    try {
+      const fullDraft = await loadDraft(draft.id);
+      if (!fullDraft) {
+        Alert.alert('Error', 'This draft could not be found');
+        return;
+      }
+
+      skipAutosaveRef.current = true;
+      setDraftId(fullDraft.id);
+      setDraftCreatedAt(fullDraft.createdAt);
+      setDraftSavedAt(fullDraft.updatedAt);
+      setContent(fullDraft.content);
+      setMentionedUserIds([]);
+      setTags(fullDraft.tags);
+      setImages(fullDraft.images);
+      setDraftsModalVisible(false);
+
+      if (fullDraft.imagesLocalOnly && fullDraft.images.length === 0 && fullDraft.imageCount > 0) {
+        Alert.alert('Images Unavailable', 'The images of this draft are only stored on the device where it was created.');
+      }
+    } catch (error) {
+      console.error('Error resuming draft:', error);
+      Alert.alert('Error', 'Failed to open draft');
+    }
+  };
+
+  const handleDiscardDraft = async (draft: PostDraft) => {
+    try {
+      await deleteDraft(draft.id);
+      setDrafts(prev => prev.filter(item => item.id !== draft.id));
+    } catch (error) {
+      console.error('Error discarding draft:', error);
+      Alert.alert('Error', 'Failed to discard draft');
+    }
+  };
+
   const addTag = (tagName: string) => {
-    const cleanTag = tagName.trim().toLowerCase();
-    if (cleanTag && !tags.includes(cleanTag) && tags.length < 5) {
+    const cleanTag = normalizeTag(tagName);
+    if (!cleanTag) {
+      Alert.alert('Invalid Tag', `Tags can use letters, numbers and underscores, up to ${MAX_TAG_LENGTH} characters.`);
+      return;
+    }
+    if (!tags.includes(cleanTag) && tags.length < MAX_MANUAL_TAGS) {
       setTags([...tags, cleanTag]);
       setTagInput('');
       setShowTagSuggestions(false);
@@ -144,6 +290,13 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
     setTags(tags.filter(tag => tag !== tagToRemove));
   };
 
+  const contentHashtags = extractHashtags(content).filter(tag => !tags.includes(tag));
+
+  const handleSelectMention = (user: User) => {
+    setContent(prev => insertMention(prev, user.displayName));
+    setMentionedUserIds(prev => (prev.includes(user.id) ? prev : [...prev, user.id]));
+  };
+
   const handleTagInputSubmit = () => {
     if (tagInput.trim()) {
       addTag(tagInput.trim());
@@ -200,6 +353,21 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
     setImages(images.filter((_, i) => i !== index));
   };
 
+  const updateImageAltText = (index: number, altText: string) => {
+    setImages(prev => prev.map((image, i) => (i === index ? { ...image, altText } : image)));
+  };
+
+  const handleSuggestAltText = async (index: number) => {
+    setDescribingImageIndex(index);
+    try {
+      updateImageAltText(index, await describeImage(images[index]));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to describe image');
+    } finally {
+      setDescribingImageIndex(null);
+    }
+  };
+
   const handleCreatePost = async () => {
     if (!currentUser) {
       Alert.alert('Error', 'Not authenticated');
@@ -216,9 +384,44 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
       return;
     }
 
+    let poll: { options: string[]; allowMultiple: boolean; expiresAt: Date | null } | undefined;
+    if (pollEnabled) {
+      const options = pollOptions.map(option => option.trim()).filter(option => option.length > 0);
+      if (!content.trim()) {
+        Alert.alert('Missing Question', 'Please write the poll question in the post text.');
+        return;
+      }
+      if (options.length < 2) {
+        Alert.alert('Poll Options', 'Please add at least 2 options.');
+        return;
+      }
+      if (scheduleEnabled) {
+        Alert.alert('Not Supported', 'Polls cannot be scheduled yet. Turn off scheduling to publish the poll.');
+        return;
+      }
+      poll = {
+        options,
+        allowMultiple: pollAllowMultiple,
+        expiresAt: pollDurationHours ? new Date(Date.now() + pollDurationHours * 3600000) : null,
+      };
+    }
+
+    let publishAt: Date | null = null;
+    if (scheduleEnabled) {
+      publishAt = parseDateTimeInput(scheduleInput);
+      if (!publishAt) {
+        Alert.alert('Invalid Date', 'Please enter the publish time as YYYY-MM-DD HH:MM.');
+        return;
+      }
+      if (publishAt.getTime() < Date.now() + MIN_SCHEDULE_LEAD_MS) {
+        Alert.alert('Invalid Date', 'The publish time must be in the future.');
+        return;
+      }
+    }
+
     setLoading(true);
     try {
-      let processedImages = images as PostImage[];
+      let processedImages = (images as PostImage[]).map(image => withAltText(image, image.altText));
       let estimatedPayloadChars = processedImages.reduce((sum, image) => sum + getImageBase64Length(image), 0);
 
       // Reprocess all images with stricter limits if payload is too large.
@@ -227,7 +430,8 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
         const reprocessed = await Promise.all(
           processedImages.map(async (img) => {
             if (!img.sourceUri) return img;
-            return prepareImageForPost({ uri: img.sourceUri, width: img.width, height: img.height }, strictLimits);
+            const reprocessedImage = await prepareImageForPost({ uri: img.sourceUri, width: img.width, height: img.height }, strictLimits);
+            return withAltText(reprocessedImage, img.altText);
           })
         );
 
@@ -244,19 +448,47 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
         return;
       }
 
-      if (offlineService.isConnected()) {
-        await createPost(content.trim(), tags, processedImages);
+      const warning = contentWarningEnabled
+        ? normalizeContentWarning(contentWarning) || DEFAULT_CONTENT_WARNING
+        : undefined;
+
+      if (publishAt) {
+        await offlineService.schedulePost(
+          currentUser.uid,
+          content.trim(),
+          tags,
+          processedImages,
+          publishAt,
+          mentionedUserIds,
+          visibility,
+          warning
+        );
+        Alert.alert(
+          'Scheduled',
+          offlineService.isConnected()
+            ? `Your post will be published on ${publishAt.toLocaleString()}.`
+            : 'Post saved offline and will be scheduled when internet is back.'
+        );
+      } else if (offlineService.isConnected()) {
+        await createPost(content.trim(), tags, processedImages, poll, mentionedUserIds, visibility, warning);
         Alert.alert('Success', 'Post created successfully!');
       } else {
         await offlineService.createPost(
           currentUser.uid,
           content.trim(),
           tags,
-          processedImages
+          processedImages,
+          poll,
+          mentionedUserIds,
+          visibility,
+          warning
         );
         Alert.alert('Queued', 'Post saved offline and will sync when internet is back.');
       }
 
+      skipAutosaveRef.current = true;
+      await deleteDraft(draftId).catch((draftError) => console.warn('Failed to clear published draft:', draftError));
+
       onPostCreated(); // Navigate immediately after post is created
     } catch (error: any) {
       console.error('Error creating post:', error);
@@ -316,7 +548,7 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
             disabled={loading || (!content.trim() && images.length === 0)}
           >
             <Text style={styles.postButtonText}>
-              {loading ? 'Posting...' : 'Post'}
+              {loading ? (scheduleEnabled ? 'Scheduling...' : 'Posting...') : (scheduleEnabled ? 'Schedule' : 'Post')}
             </Text>
           </TouchableOpacity>
         </View>
@@ -327,6 +559,16 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
           keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 20}
         >
         <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {/* Drafts */}
+          <View style={styles.draftsRow}>
+            <Text style={styles.draftStatusText}>
+              {draftSavedAt ? `Draft saved ${formatTimeAgo(draftSavedAt).toLowerCase()}` : ''}
+            </Text>
+            <TouchableOpacity style={styles.draftsButton} onPress={openDrafts}>
+              <Text style={styles.draftsButtonText}>📝 Drafts</Text>
+            </TouchableOpacity>
+          </View>
+
           {/* Content Input */}
           <View style={styles.contentContainer}>
             <TextInput
@@ -342,6 +584,12 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
             <Text style={styles.characterCount}>
               {content.length}/2000
             </Text>
+            {contentHashtags.length > 0 && (
+              <Text style={styles.detectedHashtags}>
+                Tags from text: {contentHashtags.map(tag => `#${tag}`).join(' ')}
+              </Text>
+            )}
+            <MentionSuggestions query={getActiveMentionQuery(content)} onSelect={handleSelectMention} />
           </View>
 
           {/* Images */}
@@ -350,13 +598,35 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
               <View style={styles.imagesGrid}>
                 {images.map((image, index) => (
                   <View key={index} style={styles.imageWrapper}>
-                    <Image source={{ uri: image.data }} style={styles.imagePreview} />
+                    <Image
+                      source={{ uri: image.data }}
+                      style={styles.imagePreview}
+                      accessible
+                      accessibilityLabel={getImageAccessibilityLabel(image, index, images.length)}
+                    />
                     <TouchableOpacity
                       style={styles.removeImageButton}
                       onPress={() => removeImage(index)}
                     >
                       <Text style={styles.removeImageText}>✕</Text>
                     </TouchableOpacity>
+                    <TextInput
+                      style={styles.altTextInput}
+                      value={image.altText || ''}
+                      onChangeText={(text) => updateImageAltText(index, text)}
+                      placeholder="Describe this image (alt text)"
+                      placeholderTextColor="rgba(255, 255, 255, 0.7)"
+                      maxLength={MAX_ALT_TEXT_LENGTH}
+                      multiline
+                    />
+                    <TouchableOpacity
+                      onPress={() => handleSuggestAltText(index)}
+                      disabled={describingImageIndex !== null}
+                    >
+                      <Text style={styles.suggestAltText}>
+                        {describingImageIndex === index ? 'Describing...' : '✨ Suggest a description'}
+                      </Text>
+                    </TouchableOpacity>
                   </View>
                 ))}
               </View>
@@ -371,6 +641,119 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
             Images are auto-optimized to max 1600px and around 350KB each before upload.
           </Text>
 
+          {/* Visibility */}
+          <View style={styles.scheduleContainer}>
+            <Text style={styles.tagsTitle}>👁 Visible to</Text>
+            <View style={styles.schedulePresets}>
+              {VISIBILITY_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.trendingTag, visibility === option.value && styles.pollChoiceSelected]}
+                  onPress={() => setVisibility(option.value)}
+                >
+                  <Text style={styles.trendingTagText}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Content warning */}
+          <View style={styles.scheduleContainer}>
+            <TouchableOpacity
+              style={styles.scheduleToggle}
+              onPress={() => setContentWarningEnabled(!contentWarningEnabled)}
+            >
+              <Text style={styles.tagsTitle}>⚠️ Content warning</Text>
+              <Text style={styles.scheduleToggleText}>{contentWarningEnabled ? 'On' : 'Off'}</Text>
+            </TouchableOpacity>
+
+            {contentWarningEnabled && (
+              <>
+                <View style={styles.tagInputContainer}>
+                  <TextInput
+                    style={styles.tagInput}
+                    value={contentWarning}
+                    onChangeText={setContentWarning}
+                    placeholder={`e.g. Spoilers (defaults to "${DEFAULT_CONTENT_WARNING}")`}
+                    placeholderTextColor="rgba(255, 255, 255, 0.7)"
+                    maxLength={MAX_CONTENT_WARNING_LENGTH}
+                  />
+                </View>
+                <Text style={styles.imageHintText}>
+                  Images in this post will be blurred until viewers tap to reveal them.
+                </Text>
+              </>
+            )}
+          </View>
+
+          {/* Poll */}
+          <View style={styles.scheduleContainer}>
+            <TouchableOpacity style={styles.scheduleToggle} onPress={() => setPollEnabled(!pollEnabled)}>
+              <Text style={styles.tagsTitle}>📊 Add a poll</Text>
+              <Text style={styles.scheduleToggleText}>{pollEnabled ? 'On' : 'Off'}</Text>
+            </TouchableOpacity>
+
+            {pollEnabled && (
+              <>
+                {pollOptions.map((option, index) => (
+                  <View key={index} style={[styles.tagInputContainer, styles.pollOptionRow]}>
+                    <TextInput
+                      style={styles.tagInput}
+                      value={option}
+                      onChangeText={(text) =>
+                        setPollOptions(prev => prev.map((value, i) => (i === index ? text : value)))
+                      }
+                      placeholder={`Option ${index + 1}`}
+                      placeholderTextColor="rgba(255, 255, 255, 0.7)"
+                      maxLength={80}
+                    />
+                    {pollOptions.length > 2 && (
+                      <TouchableOpacity onPress={() => setPollOptions(prev => prev.filter((_, i) => i !== index))}>
+                        <Text style={styles.removeTagText}>✕</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+
+                {pollOptions.length < MAX_POLL_OPTIONS && (
+                  <TouchableOpacity
+                    style={[styles.addTagButton, styles.addPollOptionButton]}
+                    onPress={() => setPollOptions(prev => [...prev, ''])}
+                  >
+                    <Text style={styles.addTagButtonText}>+ Add option</Text>
+                  </TouchableOpacity>
+                )}
+
+                <View style={styles.schedulePresets}>
+                  <TouchableOpacity
+                    style={[styles.trendingTag, !pollAllowMultiple && styles.pollChoiceSelected]}
+                    onPress={() => setPollAllowMultiple(false)}
+                  >
+                    <Text style={styles.trendingTagText}>Single choice</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.trendingTag, pollAllowMultiple && styles.pollChoiceSelected]}
+                    onPress={() => setPollAllowMultiple(true)}
+                  >
+                    <Text style={styles.trendingTagText}>Multiple choice</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <View style={styles.schedulePresets}>
+                  {POLL_DURATIONS.map((duration) => (
+                    <TouchableOpacity
+                      key={duration.label}
+                      style={[styles.trendingTag, pollDurationHours === duration.hours && styles.pollChoiceSelected]}
+                      onPress={() => setPollDurationHours(duration.hours)}
+                    >
+                      <Text style={styles.trendingTagText}>{duration.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+
           {/* Tags Input */}
           <View style={styles.tagsContainer}>
             <Text style={styles.tagsTitle}>Tags (Optional)</Text>
@@ -385,7 +768,7 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
                 onSubmitEditing={handleTagInputSubmit}
                 blurOnSubmit={false}
                 returnKeyType="done"
-                maxLength={20}
+                maxLength={MAX_TAG_LENGTH + 1}
               />
               <TouchableOpacity style={styles.addTagButton} onPress={handleTagInputSubmit}>
                 <Text style={styles.addTagButtonText}>Add</Text>
@@ -422,7 +805,55 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
               </View>
             )}
             
-            <Text style={styles.tagLimit}>{tags.length}/5 tags</Text>
+            <Text style={styles.tagLimit}>{tags.length}/{MAX_MANUAL_TAGS} tags</Text>
+          </View>
+
+          {/* Schedule */}
+          <View style={styles.scheduleContainer}>
+            <TouchableOpacity
+              style={styles.scheduleToggle}
+              onPress={() => {
+                if (!scheduleEnabled && !scheduleInput) {
+                  setScheduleInput(formatDateTimeInput(getSchedulePresets()[0].date));
+                }
+                setScheduleEnabled(!scheduleEnabled);
+              }}
+            >
+              <Text style={styles.tagsTitle}>⏰ Schedule for later</Text>
+              <Text style={styles.scheduleToggleText}>{scheduleEnabled ? 'On' : 'Off'}</Text>
+            </TouchableOpacity>
+
+            {scheduleEnabled && (
+              <>
+                <View style={styles.schedulePresets}>
+                  {getSchedulePresets().map((preset) => (
+                    <TouchableOpacity
+                      key={preset.label}
+                      style={styles.trendingTag}
+                      onPress={() => setScheduleInput(formatDateTimeInput(preset.date))}
+                    >
+                      <Text style={styles.trendingTagText}>{preset.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <View style={styles.tagInputContainer}>
+                  <TextInput
+                    style={styles.tagInput}
+                    value={scheduleInput}
+                    onChangeText={setScheduleInput}
+                    placeholder="YYYY-MM-DD HH:MM"
+                    placeholderTextColor="rgba(255, 255, 255, 0.7)"
+                    autoCapitalize="none"
+                    maxLength={16}
+                  />
+                </View>
+                <Text style={styles.imageHintText}>
+                  Scheduled posts are published by the app itself: one due while the app is closed on all
+                  your devices goes out the next time you open it. They can be edited or cancelled from
+                  your profile.
+                </Text>
+              </>
+            )}
           </View>
 
           {/* Trending Tags */}
@@ -430,6 +861,54 @@ const CreatePostScreen: React.FC<CreatePostScreenProps> = ({
         </ScrollView>
         </KeyboardAvoidingView>
         
+        {/* Drafts Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={draftsModalVisible}
+          onRequestClose={() => setDraftsModalVisible(false)}
+        >
+          <View style={styles.draftsModalContainer}>
+            <LinearGradient colors={['#667eea', '#764ba2']} style={styles.draftsModalContent}>
+              <View style={styles.draftsModalHeader}>
+                <Text style={styles.headerTitle}>Drafts</Text>
+                <TouchableOpacity style={styles.backButton} onPress={() => setDraftsModalVisible(false)}>
+                  <Text style={styles.backButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView>
+                {loadingDrafts ? (
+                  <Text style={styles.draftStatusText}>Loading drafts...</Text>
+                ) : drafts.length === 0 ? (
+                  <Text style={styles.draftStatusText}>No saved drafts</Text>
+                ) : (
+                  drafts.map((draft) => (
+                    <View key={draft.id} style={styles.draftItem}>
+                      <Text style={styles.draftContent} numberOfLines={3}>
+                        {draft.content || '(No text)'}
+                      </Text>
+                      <Text style={styles.draftMeta}>
+                        {formatTimeAgo(draft.updatedAt)}
+                        {draft.imageCount > 0 ? ` · 📷 ${draft.imageCount}` : ''}
+                        {draft.tags.length > 0 ? ` · ${draft.tags.map(tag => `#${tag}`).join(' ')}` : ''}
+                      </Text>
+                      <View style={styles.draftActions}>
+                        <TouchableOpacity style={styles.addTagButton} onPress={() => handleResumeDraft(draft)}>
+                          <Text style={styles.addTagButtonText}>Resume</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.addTagButton} onPress={() => handleDiscardDraft(draft)}>
+                          <Text style={styles.addTagButtonText}>Discard</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  ))
+                )}
+              </ScrollView>
+            </LinearGradient>
+          </View>
+        </Modal>
+
         {/* Navbar */}
         <Navbar activeTab={navbarTab} onTabPress={handleNavbarTabPress} user={currentUserData} />
       </SafeAreaView>
@@ -490,6 +969,63 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingHorizontal: 20,
   },
+  draftsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  draftStatusText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+  },
+  draftsButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 15,
+  },
+  draftsButtonText: {
+    color: 'white',
+    fontSize: 14,
+  },
+  draftsModalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  draftsModalContent: {
+    maxHeight: '80%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+  },
+  draftsModalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  draftItem: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  draftContent: {
+    color: 'white',
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  draftMeta: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  draftActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   contentContainer: {
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
     borderRadius: 15,
@@ -508,6 +1044,11 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 10,
   },
+  detectedHashtags: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 12,
+    marginTop: 6,
+  },
   imagesContainer: {
     marginVertical: 10,
   },
@@ -524,6 +1065,22 @@ const styles = StyleSheet.create({
     height: (width - 60) / 2,
     borderRadius: 10,
   },
+  altTextInput: {
+    width: (width - 60) / 2,
+    marginTop: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    color: 'white',
+    fontSize: 12,
+  },
+  suggestAltText: {
+    color: 'rgba(255, 255, 255, 0.85)',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
   removeImageButton: {
     position: 'absolute',
     top: 5,
@@ -648,6 +1205,36 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 5,
   },
+  scheduleContainer: {
+    marginVertical: 15,
+  },
+  scheduleToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  scheduleToggleText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  pollOptionRow: {
+    marginBottom: 8,
+  },
+  addPollOptionButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 10,
+  },
+  pollChoiceSelected: {
+    backgroundColor: 'rgba(255, 255, 255, 0.35)',
+  },
+  schedulePresets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
   trendingContainer: {
     marginVertical: 15,
   },
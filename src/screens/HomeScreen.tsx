@@ -17,6 +17,7 @@ import { getUserDataWithCounts } from '@/services/postsService';
 import { claimDailyQuestXP, ensureDailyQuestForToday, handleDailyLogin, syncUserXP } from '@/services/levelService';
 import { User } from '@/types';
 import Navbar from '../components/Navbar';
+import StoriesBar from '../components/StoriesBar';
 
 interface HomeScreenProps {
   user: FirebaseUser | null;
@@ -44,6 +45,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
   const [userData, setUserData] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [storiesRefreshKey, setStoriesRefreshKey] = useState(0);
   const [dailyLoginChecked, setDailyLoginChecked] = useState(false);
   const [dailyQuestLoading, setDailyQuestLoading] = useState(false);
   const [resetCountdown, setResetCountdown] = useState('');
@@ -171,10 +173,20 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
   // Pull to refresh functionality
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
+    setStoriesRefreshKey(key => key + 1);
     await fetchUserData(false); // Don't check daily login on refresh
     setRefreshing(false);
   }, [fetchUserData]);
 
+  const handleStoryPosted = (xpAwarded: number) => {
+    if (xpAwarded > 0) {
+      showSnackbar(`Story shared! +${xpAwarded} XP for your first story today.`, 'success');
+      fetchUserData(false);
+    } else {
+      showSnackbar('Story shared!', 'success');
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await signOut(auth);
@@ -298,6 +310,16 @@ const HomeScreen: React.FC<HomeScreenProps> = ({
                 </Text>
               </View>
 
+              {/* Stories */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>📸 Stories</Text>
+                <StoriesBar
+                  currentUserId={user?.uid}
+                  refreshKey={storiesRefreshKey}
+                  onStoryPosted={handleStoryPosted}
+                />
+              </View>
+
               {/* Stats Cards */}
               <View style={styles.statsContainer}>
                 <View style={styles.statCard}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -18,19 +18,24 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Post, Comment, User, Reply } from '@/types';
+import { Post, Comment, CommentSort, ReactionType, REACTION_TYPES, User, BookmarkCollection, SensitiveMediaPreference } from '@/types';
 import { 
   getPosts, 
   getPostsPaginated,
   getNewerPostsSince,
-  likePost, 
+  reactToPost,
+  editPost,
+  repostPost,
   getUserData, 
   addComment, 
-  getPostComments, 
-  likeComment,
-  likeReply,
-  addReply,
-  getCommentReplies,
+  getPostCommentsPage,
+  pinComment,
+  reactToComment,
+  loadViewerReactions,
+  getReactions,
+  editComment,
+  deleteComment,
+  getCommentRevisions,
   getPostsFromFollowing,
   getPostsFromFriends,
   getPostsByTagStatic,
@@ -39,11 +44,37 @@ import {
   getUserDataWithCounts
 } from '@/services/postsService';
 import { createReport } from '@/services/reportService';
+import { getRecommendedPosts } from '@/services/advancedFeatures';
+import {
+  getBookmarks,
+  getBookmarkCollections,
+  createBookmarkCollection,
+  addBookmark,
+  removeBookmark
+} from '@/services/bookmarksService';
 import { auth } from '@/services/firebase';
 import { offlineService } from '@/services/offlineService';
 import { onSyncCompleted } from '@/services/offlineService';
-import { hydrateImagesFromFirestore } from '@/utils/imageUtils';
+import { cacheComments, getCachedComments, getUserSettings } from '@/services/offlineStorage';
+import { getImageAccessibilityLabel, hydrateImagesFromFirestore } from '@/utils/imageUtils';
+import { buildCommentTree, findCommentNode, countDescendants, CommentNode } from '@/utils/commentThreads';
+import {
+  applyReaction,
+  getReactionEmoji,
+  getTopReactions,
+  getUserReaction,
+  groupReactionsByType,
+  ReactionGroup
+} from '@/utils/reactions';
 import Navbar from '@/components/Navbar';
+import PollView from '@/components/PollView';
+import EmbeddedPost from '@/components/EmbeddedPost';
+import MentionText from '@/components/MentionText';
+import MentionSuggestions from '@/components/MentionSuggestions';
+import SensitiveMediaOverlay from '@/components/SensitiveMediaOverlay';
+import { getActiveMentionQuery, insertMention } from '@/utils/helpers';
+import { normalizeTag } from '@/utils/tagUtils';
+import { getSensitiveMediaState, SENSITIVE_MEDIA_BLUR_RADIUS } from '@/utils/contentWarnings';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/services/firebase';
 
@@ -57,13 +88,21 @@ interface PostsFeedScreenProps {
   onNavigateToAchievements: () => void;
   onNavigateToProfile: (userId?: string) => void;
   onNavigateToLeaderboard?: () => void;
+  onNavigateToSearch?: () => void;
 }
 
 const { width } = Dimensions.get('window');
 
-type FilterType = 'all' | 'following' | 'friends' | 'tag';
+type FilterType = 'all' | 'foryou' | 'following' | 'friends' | 'tag';
 const MAX_FEED_POSTS = 20;
 const PAGE_SIZE = 3;
+// Deeper replies are opened on their own with "Continue this thread"
+const MAX_VISIBLE_THREAD_DEPTH = 4;
+const COMMENT_SORTS: { label: string; value: CommentSort }[] = [
+  { label: 'Newest', value: 'newest' },
+  { label: 'Oldest', value: 'oldest' },
+  { label: 'Top', value: 'top' },
+];
 
 const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({ 
   onCreatePost, 
@@ -75,6 +114,7 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
   onNavigateToAchievements,
   onNavigateToProfile,
   onNavigateToLeaderboard,
+  onNavigateToSearch,
 }) => {
   const { width: viewportWidth } = useWindowDimensions();
   const isDesktopWeb = Platform.OS === 'web' && viewportWidth >= 900;
@@ -92,6 +132,7 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
   const [postComments, setPostComments] = useState<Comment[]>([]);
   const [commentsWithUsers, setCommentsWithUsers] = useState<(Comment & { user: User })[]>([]);
   const [commentText, setCommentText] = useState('');
+  const [commentMentionIds, setCommentMentionIds] = useState<string[]>([]);
   const [showComments, setShowComments] = useState(false);
   const [loadingComment, setLoadingComment] = useState(false);
   const [imageModalVisible, setImageModalVisible] = useState(false);
@@ -104,15 +145,41 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
   const [currentUserData, setCurrentUserData] = useState<User | null>(null);
   const [likingPosts, setLikingPosts] = useState<Set<string>>(new Set());
   const [likingComments, setLikingComments] = useState<Set<string>>(new Set());
-  const [likingReplies, setLikingReplies] = useState<Set<string>>(new Set());
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null); // Id of the post or comment
+  const [reactionsSheet, setReactionsSheet] = useState<{ targetId: string; groups: ReactionGroup[]; users: Record<string, User>; loading: boolean } | null>(null);
+  const [reactionsSheetFilter, setReactionsSheetFilter] = useState<ReactionType | 'all'>('all');
   const [activeTab, setActiveTab] = useState('posts');
   const [replyingTo, setReplyingTo] = useState<(Comment & { user: User }) | null>(null);
-  const [repliesWithUsers, setRepliesWithUsers] = useState<{ [commentId: string]: (Reply & { user: User })[] }>({});
+  const [editingComment, setEditingComment] = useState<(Comment & { user: User }) | null>(null);
+  const [collapsedComments, setCollapsedComments] = useState<Set<string>>(new Set());
+  const [sensitiveMediaPreference, setSensitiveMediaPreference] = useState<SensitiveMediaPreference>('blur');
+  const [revealedMediaPosts, setRevealedMediaPosts] = useState<Set<string>>(new Set());
+  // Comment whose branch is shown on its own after "Continue this thread"
+  const [focusedThreadId, setFocusedThreadId] = useState<string | null>(null);
+  const [commentSort, setCommentSort] = useState<CommentSort>('newest');
+  const [commentsLastDoc, setCommentsLastDoc] = useState<any>(null);
+  const [hasMoreComments, setHasMoreComments] = useState(false);
+  const [loadingMoreComments, setLoadingMoreComments] = useState(false);
+  const [commentsFromCache, setCommentsFromCache] = useState(false);
   const [reportModalVisible, setReportModalVisible] = useState(false);
   const [reportingPost, setReportingPost] = useState<(Post & { user: User }) | null>(null);
   const [selectedReportCategory, setSelectedReportCategory] = useState('');
   const [customReportReason, setCustomReportReason] = useState('');
-  const commentsUnsubscribeRef = useRef<(() => void) | null>(null);
+  const [editModalVisible, setEditModalVisible] = useState(false);
+  const [editingPost, setEditingPost] = useState<(Post & { user: User }) | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editTags, setEditTags] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [sharingPost, setSharingPost] = useState<(Post & { user: User }) | null>(null);
+  const [quoteText, setQuoteText] = useState('');
+  const [sharing, setSharing] = useState(false);
+  const [bookmarkedPosts, setBookmarkedPosts] = useState<{ [postId: string]: string }>({});
+  const [bookmarkCollections, setBookmarkCollections] = useState<BookmarkCollection[]>([]);
+  const [bookmarkingPost, setBookmarkingPost] = useState<(Post & { user: User }) | null>(null);
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [savingBookmark, setSavingBookmark] = useState(false);
+  // Bumped for every fresh comments load so answers for a previous post or sort are dropped
+  const commentsRequestRef = useRef(0);
   const currentUser = auth.currentUser;
 
   const capHeadPosts = useCallback(<T extends { id: string }>(items: T[]): T[] => {
@@ -136,6 +203,34 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
     fetchCurrentUser();
   }, [currentUser]);
 
+  // Sensitive media preference is a device setting, changed from the profile
+  useEffect(() => {
+    getUserSettings().then(settings => setSensitiveMediaPreference(settings.sensitiveMedia));
+  }, []);
+
+  const revealPostMedia = useCallback((postId: string) => {
+    setRevealedMediaPosts(prev => new Set(prev).add(postId));
+  }, []);
+
+  // Fetch the user's bookmarks so saved posts can be marked in the feed
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const fetchBookmarks = async () => {
+      try {
+        const bookmarks = await getBookmarks();
+        const collectionByPost: { [postId: string]: string } = {};
+        bookmarks.forEach(bookmark => {
+          collectionByPost[bookmark.postId] = bookmark.collectionId;
+        });
+        setBookmarkedPosts(collectionByPost);
+      } catch (error) {
+        console.error('Error loading bookmarks:', error);
+      }
+    };
+    fetchBookmarks();
+  }, [currentUser]);
+
   // Fetch posts based on active filter
   useEffect(() => {
     if (!currentUser) return;
@@ -165,6 +260,9 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
           let fetchedPosts: Post[] = [];
           
           switch (activeFilter) {
+            case 'foryou':
+              fetchedPosts = await getRecommendedPosts(currentUser.uid);
+              break;
             case 'following':
               fetchedPosts = await getPostsFromFollowing(currentUser.uid);
               break;
@@ -195,7 +293,7 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
     };
   }, [currentUser, activeFilter, appliedTagFilter, capHeadPosts]);
 
-  const normalizedTagFilter = tagFilter.trim().toLowerCase();
+  const normalizedTagFilter = normalizeTag(tagFilter) || '';
   const tagSuggestions = normalizedTagFilter.length >= 2
     ? Array.from(new Set(posts.flatMap((post) => post.tags || [])))
         .filter((tag) => tag.toLowerCase().startsWith(normalizedTagFilter))
@@ -232,7 +330,7 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
       
       // Load users for new posts
       const newPostsWithUserData = await Promise.all(
-        newPosts.map(async (post) => {
+        (await loadViewerReactions('post', newPosts)).map(async (post) => {
           const user = await getUserData(post.userId);
           return { ...post, user: user! };
         })
@@ -270,7 +368,7 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
       setPosts(prevPosts => capHeadPosts([...newerPosts, ...prevPosts]));
 
       const newerPostsWithUserData = await Promise.all(
-        newerPosts.map(async (post) => {
+        (await loadViewerReactions('post', newerPosts)).map(async (post) => {
           const user = await getUserData(post.userId);
           return { ...post, user: user! };
         })
@@ -309,8 +407,9 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
 
   const loadUsersForPosts = async (posts: Post[]) => {
     try {
+      const postsWithReactions = await loadViewerReactions('post', posts);
       const postsWithUserData = await Promise.all(
-        posts.map(async (post) => {
+        postsWithReactions.map(async (post) => {
           const user = await getUserData(post.userId);
           return { ...post, user: user! };
         })
@@ -325,99 +424,129 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
     }
   };
 
-  const loadCommentsForPost = (postId: string) => {
-    return getPostComments(postId, async (comments) => {
-      setPostComments(comments);
-      // Load users for comments
-      const commentsWithUserData = await Promise.all(
-        comments.map(async (comment) => {
-          const user = await getUserData(comment.userId);
-          return { ...comment, user: user! };
-        })
-      );
-      setCommentsWithUsers(commentsWithUserData.filter(c => c.user));
-
-    const refreshCommentsForPost = (postId: string) => {
-      commentsUnsubscribeRef.current?.();
-      setPostComments([]);
-      setCommentsWithUsers([]);
-      setRepliesWithUsers({});
-      commentsUnsubscribeRef.current = loadCommentsForPost(postId);
-    };
-      
-      // Load replies for each comment
-      const repliesData: { [commentId: string]: (Reply & { user: User })[] } = {};
-      await Promise.all(
-        comments.map(async (comment) => {
-          if (comment.repliesCount > 0) {
-            getCommentReplies(comment.id, async (replies) => {
-              const repliesWithUserData = await Promise.all(
-                replies.map(async (reply) => {
-                  const user = await getUserData(reply.userId);
-                  return { ...reply, user: user! };
-                })
-              );
-              repliesData[comment.id] = repliesWithUserData.filter(r => r.user);
-              setRepliesWithUsers({ ...repliesData });
-            });
-          }
-        })
-      );
-    });
+  const attachCommentUsers = async (comments: Comment[]) => {
+    const commentsWithReactions = await loadViewerReactions('comment', comments);
+    const commentsWithUserData = await Promise.all(
+      commentsWithReactions.map(async (comment) => {
+        const user = await getUserData(comment.userId);
+        return { ...comment, user: user! };
+      })
+    );
+    return commentsWithUserData.filter(c => c.user);
+  };
+
+  // Loads the first page of comments, falling back to the cached copy when offline
+  const loadComments = async (post: Post, sort: CommentSort) => {
+    const requestId = ++commentsRequestRef.current;
+    setCommentsLastDoc(null);
+    setHasMoreComments(false);
+
+    try {
+      if (!offlineService.isConnected()) throw new Error('Offline');
+
+      const page = await getPostCommentsPage(post.id, sort, post.pinnedCommentId);
+      const pageWithUsers = await attachCommentUsers(page.comments);
+      if (requestId !== commentsRequestRef.current) return;
+
+      setPostComments(page.comments);
+      setCommentsWithUsers(pageWithUsers);
+      setCommentsLastDoc(page.lastVisible);
+      setHasMoreComments(page.hasMore);
+      setCommentsFromCache(false);
+    } catch (error) {
+      const cached = await getCachedComments<Comment & { user: User }>(post.id);
+      if (requestId !== commentsRequestRef.current) return;
+
+      if (cached.length === 0 && offlineService.isConnected()) {
+        console.error('Error loading comments:', error);
+      }
+      setPostComments(cached);
+      setCommentsWithUsers(cached.filter(c => c.user));
+      setCommentsFromCache(true);
+    }
+  };
+
+  const loadMoreComments = async () => {
+    if (!selectedPost || !hasMoreComments || loadingMoreComments || commentsFromCache) return;
+
+    const requestId = commentsRequestRef.current;
+    setLoadingMoreComments(true);
+    try {
+      const page = await getPostCommentsPage(selectedPost.id, commentSort, selectedPost.pinnedCommentId, commentsLastDoc);
+      const pageWithUsers = await attachCommentUsers(page.comments);
+      if (requestId !== commentsRequestRef.current) return;
+
+      // A comment can move between pages while paging (e.g. gaining likes under "Top")
+      const appendNew = <T extends Comment>(prev: T[], next: T[]) =>
+        [...prev, ...next.filter(comment => !prev.some(existing => existing.id === comment.id))];
+      setPostComments(prev => appendNew(prev, page.comments));
+      setCommentsWithUsers(prev => appendNew(prev, pageWithUsers));
+      setCommentsLastDoc(page.lastVisible);
+      setHasMoreComments(page.hasMore);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load more comments');
+    } finally {
+      setLoadingMoreComments(false);
+    }
+  };
+
+  // Keep what has been loaded so the post can be reopened offline
+  useEffect(() => {
+    if (!selectedPost || commentsFromCache || commentsWithUsers.length === 0) return;
+    const synced = commentsWithUsers.filter(
+      comment => !comment.id.startsWith('offline_comment_') && !comment.id.startsWith('offline_reply_')
+    );
+    cacheComments(selectedPost.id, synced);
+  }, [selectedPost, commentsFromCache, commentsWithUsers]);
+
+  const handleChangeCommentSort = (sort: CommentSort) => {
+    if (!selectedPost || sort === commentSort) return;
+    setCommentSort(sort);
+    setFocusedThreadId(null);
+    loadComments(selectedPost, sort);
+  };
+
+  const handleTogglePinComment = async (comment: Comment) => {
+    if (!selectedPost) return;
+
+    const pinnedCommentId = selectedPost.pinnedCommentId === comment.id ? undefined : comment.id;
+    try {
+      await pinComment(selectedPost.id, pinnedCommentId || null);
+      const withPin = <T extends Post>(post: T): T =>
+        post.id === selectedPost.id ? { ...post, pinnedCommentId } : post;
+      setSelectedPost(withPin(selectedPost));
+      setPosts(prev => prev.map(withPin));
+      setPostsWithUsers(prev => prev.map(withPin));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to pin comment');
+    }
   };
 
-  const handleLikePost = async (postId: string) => {
+  // Null removes the current user's reaction
+  const handleReactToPost = async (postId: string, reaction: ReactionType | null) => {
     // Prevent spam clicking
     if (likingPosts.has(postId) || !currentUser) return;
     
     setLikingPosts(prev => new Set(prev).add(postId));
+    setReactionPickerFor(null);
     
     // Save previous state for potential rollback
     const previousPosts = posts;
     const previousPostsWithUsers = postsWithUsers;
     
     // Optimistically update the UI
-    const updatePosts = (postsList: Post[]) => {
-      return postsList.map(post => {
-        if (post.id === postId) {
-          const isLiked = post.likedBy?.includes(currentUser.uid);
-          return {
-            ...post,
-            likes: isLiked ? post.likes - 1 : post.likes + 1,
-            likedBy: isLiked 
-              ? post.likedBy.filter(id => id !== currentUser.uid)
-              : [...(post.likedBy || []), currentUser.uid]
-          };
-        }
-        return post;
-      });
-    };
+    const withReaction = <T extends Post>(post: T): T =>
+      post.id === postId ? applyReaction(post, currentUser.uid, reaction) : post;
     
-    const updatePostsWithUsers = (postsList: (Post & { user: User })[]) => {
-      return postsList.map(post => {
-        if (post.id === postId) {
-          const isLiked = post.likedBy?.includes(currentUser.uid);
-          return {
-            ...post,
-            likes: isLiked ? post.likes - 1 : post.likes + 1,
-            likedBy: isLiked 
-              ? post.likedBy.filter(id => id !== currentUser.uid)
-              : [...(post.likedBy || []), currentUser.uid]
-          };
-        }
-        return post;
-      });
-    };
-    
-    setPosts(updatePosts(posts));
-    setPostsWithUsers(updatePostsWithUsers(postsWithUsers));
+    setPosts(posts.map(withReaction));
+    setPostsWithUsers(postsWithUsers.map(withReaction));
     
     try {
       const isOfflineAction = !offlineService.isConnected();
       if (isOfflineAction) {
-        await offlineService.likePost(postId, currentUser.uid);
+        await offlineService.reactToPost(postId, currentUser.uid, reaction);
       } else {
-        await likePost(postId);
+        await reactToPost(postId, reaction);
       }
 
       // Sync from server to avoid stale counters until manual refresh.
@@ -440,7 +569,7 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
       // Revert to previous state on error
       setPosts(previousPosts);
       setPostsWithUsers(previousPostsWithUsers);
-      Alert.alert('Error', error.message || 'Failed to like post');
+      Alert.alert('Error', error.message || 'Failed to react to post');
     } finally {
       // Remove from set after a delay to prevent rapid re-clicking
       setTimeout(() => {
@@ -453,59 +582,32 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
     }
   };
 
-  const handleLikeComment = async (commentId: string) => {
+  // Null removes the current user's reaction
+  const handleReactToComment = async (commentId: string, reaction: ReactionType | null) => {
     // Prevent spam clicking
     if (likingComments.has(commentId) || !currentUser) return;
     
     setLikingComments(prev => new Set(prev).add(commentId));
+    setReactionPickerFor(null);
     
     // Save previous state for potential rollback
     const previousComments = postComments;
     const previousCommentsWithUsers = commentsWithUsers;
     
     // Optimistically update the UI
-    const updateComments = (commentsList: Comment[]) => {
-      return commentsList.map(comment => {
-        if (comment.id === commentId) {
-          const isLiked = comment.likedBy?.includes(currentUser.uid);
-          return {
-            ...comment,
-            likes: isLiked ? comment.likes - 1 : comment.likes + 1,
-            likedBy: isLiked 
-              ? comment.likedBy.filter(id => id !== currentUser.uid)
-              : [...(comment.likedBy || []), currentUser.uid]
-          };
-        }
-        return comment;
-      });
-    };
-    
-    const updateCommentsWithUsers = (commentsList: (Comment & { user: User })[]) => {
-      return commentsList.map(comment => {
-        if (comment.id === commentId) {
-          const isLiked = comment.likedBy?.includes(currentUser.uid);
-          return {
-            ...comment,
-            likes: isLiked ? comment.likes - 1 : comment.likes + 1,
-            likedBy: isLiked 
-              ? comment.likedBy.filter(id => id !== currentUser.uid)
-              : [...(comment.likedBy || []), currentUser.uid]
-          };
-        }
-        return comment;
-      });
-    };
+    const withReaction = <T extends Comment>(comment: T): T =>
+      comment.id === commentId ? applyReaction(comment, currentUser.uid, reaction) : comment;
     
-    setPostComments(updateComments(postComments));
-    setCommentsWithUsers(updateCommentsWithUsers(commentsWithUsers));
+    setPostComments(postComments.map(withReaction));
+    setCommentsWithUsers(commentsWithUsers.map(withReaction));
     
     try {
-      await likeComment(commentId);
+      await reactToComment(commentId, reaction);
     } catch (error: any) {
       // Revert to previous state on error
       setPostComments(previousComments);
       setCommentsWithUsers(previousCommentsWithUsers);
-      Alert.alert('Error', error.message || 'Failed to like comment');
+      Alert.alert('Error', error.message || 'Failed to react to comment');
     } finally {
       // Remove from set after a delay to prevent rapid re-clicking
       setTimeout(() => {
@@ -518,53 +620,48 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
     }
   };
 
-  const handleLikeReply = async (replyId: string) => {
-    // Prevent spam clicking
-    if (likingReplies.has(replyId) || !currentUser) return;
-    
-    setLikingReplies(prev => new Set(prev).add(replyId));
-    
-    // Save previous state for potential rollback
-    const previousRepliesWithUsers = repliesWithUsers;
-    
-    // Optimistically update the UI
-    const updatedReplies = { ...repliesWithUsers };
-    Object.keys(updatedReplies).forEach(commentId => {
-      updatedReplies[commentId] = updatedReplies[commentId].map(reply => {
-        if (reply.id === replyId) {
-          const isLiked = reply.likedBy?.includes(currentUser.uid);
-          return {
-            ...reply,
-            likes: isLiked ? reply.likes - 1 : reply.likes + 1,
-            likedBy: isLiked 
-              ? reply.likedBy.filter(id => id !== currentUser.uid)
-              : [...(reply.likedBy || []), currentUser.uid]
-          };
-        }
-        return reply;
-      });
-    });
-    
-    setRepliesWithUsers(updatedReplies);
-    
+  // The reaction button likes, or takes back whatever reaction the user left
+  const toggleReaction = (item: Post | Comment): ReactionType | null => {
+    return getUserReaction(item, currentUser?.uid || '') ? null : 'like';
+  };
+
+  const openReactionsSheet = async (targetType: 'post' | 'comment', item: Post | Comment) => {
+    setReactionPickerFor(null);
+    setReactionsSheetFilter('all');
+    setReactionsSheet({ targetId: item.id, groups: [], users: {}, loading: true });
+
     try {
-      await likeReply(replyId);
+      const groups = groupReactionsByType(item, await getReactions(targetType, item.id));
+      const userIds = [...new Set(groups.flatMap(group => group.userIds))];
+      const loadedUsers = await Promise.all(userIds.map(userId => getUserData(userId).catch(() => null)));
+      const users: Record<string, User> = {};
+      loadedUsers.forEach(user => {
+        if (user) users[user.id] = user;
+      });
+
+      // Ignore the result if the sheet was closed or opened for something else meanwhile
+      setReactionsSheet(current => (current?.targetId === item.id ? { ...current, groups, users, loading: false } : current));
     } catch (error: any) {
-      // Revert to previous state on error
-      setRepliesWithUsers(previousRepliesWithUsers);
-      Alert.alert('Error', error.message || 'Failed to like reply');
-    } finally {
-      // Remove from set after a delay to prevent rapid re-clicking
-      setTimeout(() => {
-        setLikingReplies(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(replyId);
-          return newSet;
-        });
-      }, 500);
+      setReactionsSheet(null);
+      Alert.alert('Error', error.message || 'Failed to load reactions');
     }
   };
 
+  const renderReactionPicker = (current: ReactionType | null, onSelect: (reaction: ReactionType | null) => void) => (
+    <View style={styles.reactionPicker}>
+      {REACTION_TYPES.map(reaction => (
+        <TouchableOpacity
+          key={reaction.type}
+          style={[styles.reactionOption, current === reaction.type && styles.reactionOptionSelected]}
+          onPress={() => onSelect(current === reaction.type ? null : reaction.type)}
+          accessibilityLabel={reaction.label}
+        >
+          <Text style={styles.reactionOptionEmoji}>{reaction.emoji}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   const handleImagePress = (imageUri: string, images: any[], index: number) => {
     setSelectedImage(imageUri);
     setSelectedPostImages(images);
@@ -638,53 +735,44 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
 
     setLoadingComment(true);
     try {
-      if (replyingTo) {
-        // Adding a reply to a comment
-        if (offlineService.isConnected()) {
-          await addReply(replyingTo.id, commentText.trim());
-        } else {
-          const offlineReply = await offlineService.createReply(replyingTo.id, currentUser.uid, commentText.trim());
-
-          if (currentUserData) {
-            setRepliesWithUsers((prev) => {
-              const existing = prev[replyingTo.id] || [];
-              return {
-                ...prev,
-                [replyingTo.id]: [...existing, { ...offlineReply, user: currentUserData }],
-              };
-            });
-          }
+      const text = commentText.trim();
+
+      if (editingComment) {
+        const updated = await editComment(editingComment.id, text, commentMentionIds);
+        const withEdit = <T extends Comment>(comment: T): T =>
+          comment.id === updated.id ? { ...comment, ...updated } : comment;
+        setPostComments((prev) => prev.map(withEdit));
+        setCommentsWithUsers((prev) => prev.map(withEdit));
+        setEditingComment(null);
+        setCommentText('');
+        setCommentMentionIds([]);
+        return;
+      }
 
-          setPostComments((prev) =>
-            prev.map((comment) =>
-              comment.id === replyingTo.id
-                ? { ...comment, repliesCount: (comment.repliesCount || 0) + 1 }
-                : comment
-            )
-          );
-          setCommentsWithUsers((prev) =>
-            prev.map((comment) =>
-              comment.id === replyingTo.id
-                ? { ...comment, repliesCount: (comment.repliesCount || 0) + 1 }
-                : comment
-            )
-          );
-        }
+      const newComment = offlineService.isConnected()
+        ? await addComment(selectedPost.id, text, commentMentionIds, replyingTo?.id)
+        : replyingTo
+          ? await offlineService.createReply(selectedPost.id, replyingTo.id, currentUser.uid, text, commentMentionIds)
+          : await offlineService.createComment(selectedPost.id, currentUser.uid, text, commentMentionIds);
+
+      const withReplyCount = <T extends Comment>(comment: T): T =>
+        replyingTo && comment.id === replyingTo.id
+          ? { ...comment, repliesCount: (comment.repliesCount || 0) + 1 }
+          : comment;
+
+      setPostComments((prev) => [...prev.map(withReplyCount), newComment]);
+      if (currentUserData) {
+        setCommentsWithUsers((prev) => [...prev.map(withReplyCount), { ...newComment, user: currentUserData }]);
+      }
+
+      if (replyingTo) {
+        setCollapsedComments((prev) => {
+          const next = new Set(prev);
+          next.delete(replyingTo.id);
+          return next;
+        });
         setReplyingTo(null);
       } else {
-        // Adding a comment to the post
-        if (offlineService.isConnected()) {
-          await addComment(selectedPost.id, commentText.trim());
-        } else {
-          const offlineComment = await offlineService.createComment(selectedPost.id, currentUser.uid, commentText.trim());
-
-          if (currentUserData) {
-            const pendingComment = { ...offlineComment, user: currentUserData };
-            setPostComments((prev) => [offlineComment, ...prev]);
-            setCommentsWithUsers((prev) => [pendingComment, ...prev]);
-          }
-        }
-        
         // Update the comment count in local state
         setPosts(posts => posts.map(post => 
           post.id === selectedPost.id 
@@ -698,62 +786,145 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
         ));
       }
       setCommentText('');
+      setCommentMentionIds([]);
     } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to add ' + (replyingTo ? 'reply' : 'comment'));
+      Alert.alert('Error', error.message || 'Failed to ' + (editingComment ? 'edit comment' : 'add ' + (replyingTo ? 'reply' : 'comment')));
     } finally {
       setLoadingComment(false);
     }
   };
 
+  const handleSelectCommentMention = (user: User) => {
+    setCommentText(prev => insertMention(prev, user.displayName));
+    setCommentMentionIds(prev => (prev.includes(user.id) ? prev : [...prev, user.id]));
+  };
+
+  const openMentionedProfile = (userId: string) => {
+    closeComments();
+    onNavigateToProfile(userId);
+  };
+
   const handleReplyToComment = (comment: Comment & { user: User }) => {
+    setEditingComment(null);
     setReplyingTo(comment);
   };
 
   const cancelReply = () => {
     setReplyingTo(null);
+    setEditingComment(null);
     setCommentText('');
+    setCommentMentionIds([]);
+  };
+
+  const handleEditComment = (comment: Comment & { user: User }) => {
+    setReplyingTo(null);
+    setEditingComment(comment);
+    setCommentText(comment.text);
+    setCommentMentionIds([]);
+  };
+
+  const handleDeleteComment = async (comment: Comment) => {
+    if (!selectedPost) return;
+
+    const message = 'Remove this comment? Replies to it stay visible.';
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve =>
+          Alert.alert(
+            'Delete Comment',
+            message,
+            [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Delete', style: 'destructive', onPress: () => resolve(true) },
+            ]
+          )
+        );
+
+    if (!confirmed) return;
+
+    try {
+      await deleteComment(comment.id);
+
+      const withRemoval = <T extends Comment>(item: T): T => {
+        if (item.id === comment.id) {
+          return { ...item, deleted: true, text: '', mentions: undefined, deletedAt: new Date() };
+        }
+        if (item.id === comment.parentId) {
+          return { ...item, repliesCount: Math.max(0, (item.repliesCount || 0) - 1) };
+        }
+        return item;
+      };
+      setPostComments((prev) => prev.map(withRemoval));
+      setCommentsWithUsers((prev) => prev.map(withRemoval));
+      if (editingComment?.id === comment.id) cancelReply();
+
+      if (!comment.parentId) {
+        const withoutComment = <T extends Post>(post: T): T =>
+          post.id === selectedPost.id
+            ? {
+                ...post,
+                comments: Math.max(0, post.comments - 1),
+                pinnedCommentId: post.pinnedCommentId === comment.id ? undefined : post.pinnedCommentId,
+              }
+            : post;
+        setSelectedPost(withoutComment(selectedPost));
+        setPosts(prev => prev.map(withoutComment));
+        setPostsWithUsers(prev => prev.map(withoutComment));
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to delete comment');
+    }
+  };
+
+  // Edit history is only readable by the comment's author
+  const handleShowCommentHistory = async (comment: Comment) => {
+    try {
+      const revisions = await getCommentRevisions(comment.id);
+      const history = revisions
+        .map(revision => `${revision.editedAt.toLocaleString()}\n${revision.previousText}`)
+        .join('\n\n');
+      Alert.alert('Edit History', history || 'No earlier versions.');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load edit history');
+    }
   };
 
   const openComments = (post: Post) => {
     setSelectedPost(post);
     setShowComments(true);
-    commentsUnsubscribeRef.current?.();
-    commentsUnsubscribeRef.current = loadCommentsForPost(post.id);
+    setCommentSort('newest');
+    loadComments(post, 'newest');
   };
 
   const closeComments = () => {
     setShowComments(false);
     setSelectedPost(null);
-    commentsUnsubscribeRef.current?.();
-    commentsUnsubscribeRef.current = null;
+    commentsRequestRef.current++;
     setPostComments([]);
     setCommentsWithUsers([]);
     setCommentText('');
+    setCommentMentionIds([]);
     setReplyingTo(null);
-    setRepliesWithUsers({});
+    setEditingComment(null);
+    setCollapsedComments(new Set());
+    setFocusedThreadId(null);
+    setCommentsLastDoc(null);
+    setHasMoreComments(false);
+    setCommentsFromCache(false);
   };
 
   useEffect(() => {
     const unsubscribe = onSyncCompleted((actions) => {
       const shouldRefreshComments = actions.some((action) => action.type === 'CREATE_COMMENT' || action.type === 'CREATE_REPLY');
 
+      // Reload so the pending comments are replaced by their synced versions
       if (shouldRefreshComments && showComments && selectedPost) {
-        setPostComments((prev) => prev.filter((comment) => !comment.id.startsWith('offline_comment_')));
-        setCommentsWithUsers((prev) => prev.filter((comment) => !comment.id.startsWith('offline_comment_')));
-        setRepliesWithUsers((prev) => {
-          const cleanedReplies: { [commentId: string]: (Reply & { user: User })[] } = {};
-
-          Object.entries(prev).forEach(([commentId, replies]) => {
-            cleanedReplies[commentId] = replies.filter((reply) => !reply.id.startsWith('offline_reply_'));
-          });
-
-          return cleanedReplies;
-        });
+        loadComments(selectedPost, commentSort);
       }
     });
 
     return unsubscribe;
-  }, [selectedPost, showComments]);
+  }, [selectedPost, showComments, commentSort]);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -780,7 +951,7 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
 
   const handleTagSearch = (tagOverride?: string) => {
     // Trigger re-fetch by updating a dummy state or just forcing the useEffect
-    const nextTag = (tagOverride ?? tagFilter).trim();
+    const nextTag = normalizeTag(tagOverride ?? tagFilter) || '';
     if (activeFilter === 'tag' && nextTag) {
       setAppliedTagFilter(nextTag);
     }
@@ -860,6 +1031,150 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
     }
   };
 
+  const openEditPost = (post: Post & { user: User }) => {
+    setEditingPost(post);
+    setEditContent(post.content);
+    setEditTags((post.tags || []).join(', '));
+    setEditModalVisible(true);
+  };
+
+  const closeEditPost = () => {
+    setEditModalVisible(false);
+    setEditingPost(null);
+    setEditContent('');
+    setEditTags('');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingPost || savingEdit) return;
+
+    if (!editContent.trim()) {
+      Alert.alert('Error', 'Post content cannot be empty');
+      return;
+    }
+
+    const tags = editTags
+      .split(',')
+      .map(tag => tag.trim().replace(/^#/, ''))
+      .filter((tag, index, list) => tag.length > 0 && list.indexOf(tag) === index);
+
+    setSavingEdit(true);
+    try {
+      await editPost(editingPost.id, editContent.trim(), tags);
+
+      const now = new Date();
+      const applyEdit = <T extends Post>(postsList: T[]): T[] => postsList.map(post =>
+        post.id === editingPost.id
+          ? { ...post, content: editContent.trim(), tags, updatedAt: now, editedAt: now, revisionCount: (post.revisionCount || 0) + 1 }
+          : post
+      );
+      setPosts(prev => applyEdit(prev));
+      setPostsWithUsers(prev => applyEdit(prev));
+      closeEditPost();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to edit post');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const closeShareModal = () => {
+    setSharingPost(null);
+    setQuoteText('');
+  };
+
+  const handleShare = async (withQuote: boolean) => {
+    if (!sharingPost || sharing) return;
+
+    if (withQuote && !quoteText.trim()) {
+      Alert.alert('Error', 'Please add your thoughts to quote this post');
+      return;
+    }
+
+    setSharing(true);
+    try {
+      await repostPost(sharingPost.id, withQuote ? quoteText : undefined);
+      // Plain reposts count towards the post they point to
+      const countedPostId = sharingPost.repostType === 'repost' && sharingPost.repostOf
+        ? sharingPost.repostOf
+        : sharingPost.id;
+      const applyShare = <T extends Post>(postsList: T[]): T[] => postsList.map(post =>
+        post.id === countedPostId ? { ...post, shares: (post.shares || 0) + 1 } : post
+      );
+      setPosts(prev => applyShare(prev));
+      setPostsWithUsers(prev => applyShare(prev));
+      closeShareModal();
+      Alert.alert('Success', withQuote ? 'Quote post published' : 'Post reposted');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to share post');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const openBookmarkModal = async (post: Post & { user: User }) => {
+    setBookmarkingPost(post);
+    try {
+      setBookmarkCollections(await getBookmarkCollections());
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load collections');
+    }
+  };
+
+  const closeBookmarkModal = () => {
+    setBookmarkingPost(null);
+    setNewCollectionName('');
+  };
+
+  const handleBookmark = async (collectionId: string) => {
+    if (!bookmarkingPost || savingBookmark) return;
+
+    setSavingBookmark(true);
+    try {
+      await addBookmark(bookmarkingPost, collectionId);
+      setBookmarkedPosts(prev => ({ ...prev, [bookmarkingPost.id]: collectionId }));
+      closeBookmarkModal();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to bookmark post');
+    } finally {
+      setSavingBookmark(false);
+    }
+  };
+
+  const handleCreateCollectionAndBookmark = async () => {
+    if (!bookmarkingPost || savingBookmark || !newCollectionName.trim()) return;
+
+    setSavingBookmark(true);
+    try {
+      const created = await createBookmarkCollection(newCollectionName);
+      await addBookmark(bookmarkingPost, created.id);
+      setBookmarkedPosts(prev => ({ ...prev, [bookmarkingPost.id]: created.id }));
+      closeBookmarkModal();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to create collection');
+    } finally {
+      setSavingBookmark(false);
+    }
+  };
+
+  const handleRemoveBookmark = async () => {
+    if (!bookmarkingPost || savingBookmark) return;
+
+    setSavingBookmark(true);
+    try {
+      await removeBookmark(bookmarkingPost.id);
+      setBookmarkedPosts(prev => {
+        const { [bookmarkingPost.id]: _removed, ...rest } = prev;
+        return rest;
+      });
+      closeBookmarkModal();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to remove bookmark');
+    } finally {
+      setSavingBookmark(false);
+    }
+  };
+
   const isFollowing = (userId: string): boolean => {
     return currentUserData?.following?.includes(userId) || false;
   };
@@ -886,13 +1201,22 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
   };
 
   const renderPost = useCallback(({ item }: { item: Post & { user: User } }) => {
-    const isLiked = item.likedBy.includes(currentUser?.uid || '');
+    const userReaction = getUserReaction(item, currentUser?.uid || '');
+    const isLiked = userReaction !== null;
+    const topReactions = getTopReactions(item);
     const isOwnPost = item.userId === currentUser?.uid;
+    const isBookmarked = !!bookmarkedPosts[item.id];
     const userIsFriend = isFriend(item.userId);
     const userIsFollowed = isFollowing(item.userId);
+    const mediaState = getSensitiveMediaState(item, sensitiveMediaPreference, revealedMediaPosts.has(item.id));
+    const mediaBlurRadius = mediaState === 'blurred' ? SENSITIVE_MEDIA_BLUR_RADIUS : 0;
     
     return (
       <View style={[styles.postContainer, isDesktopWeb && styles.postContainerDesktop]}>
+        {item.repostType === 'repost' && (
+          <Text style={styles.repostLabel}>🔁 {isOwnPost ? 'You' : item.user.displayName} reposted</Text>
+        )}
+
         {/* Post Header */}
         <View style={styles.postHeader}>
           <Image
@@ -927,6 +1251,9 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
             </View>
             <View style={styles.postMeta}>
               <Text style={styles.timestamp}>{formatTime(item.createdAt)}</Text>
+              {item.editedAt && (
+                <Text style={styles.editedIndicator}>(edited)</Text>
+              )}
               {item.tags && item.tags.length > 0 && (
                 <View style={styles.tagsContainer}>
                   {item.tags.slice(0, 3).map((tag, index) => (
@@ -941,22 +1268,51 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
           </View>
         </View>
 
+        {!!item.contentWarning && (
+          <Text style={styles.contentWarningLabel}>⚠️ {item.contentWarning}</Text>
+        )}
+
         {/* Post Content */}
-        <Text style={styles.postContent}>{item.content}</Text>
+        {!!item.content && (
+          <MentionText
+            text={item.content}
+            mentions={item.mentions}
+            style={styles.postContent}
+            onPressMention={onNavigateToProfile}
+          />
+        )}
+
+        {/* Reposted / quoted original */}
+        {item.repostOf && (
+          <EmbeddedPost
+            postId={item.repostOf}
+            sensitiveMediaPreference={sensitiveMediaPreference}
+            onPressAuthor={onNavigateToProfile}
+          />
+        )}
+
+        {/* Poll */}
+        {item.poll && <PollView post={item} currentUserId={currentUser?.uid} />}
 
         {/* Post Images */}
         {item.images && item.images.length > 0 && (
           <View style={styles.imagesContainer}>
-            {item.images.length === 1 ? (
+            {mediaState === 'hidden' ? (
+              <SensitiveMediaOverlay state="hidden" onReveal={() => revealPostMedia(item.id)} />
+            ) : item.images.length === 1 ? (
               // Single image - full width
               <TouchableOpacity 
                 onPress={() => handleImagePress(item.images![0].data, item.images!, 0)}
                 activeOpacity={0.8}
+                disabled={mediaState !== 'visible'}
               >
                 <Image
                   source={{ uri: item.images[0].data }}
                   style={[styles.singlePostImage, isDesktopWeb && styles.singlePostImageDesktop]}
                   resizeMode="cover"
+                  blurRadius={mediaBlurRadius}
+                  accessible
+                  accessibilityLabel={getImageAccessibilityLabel(item.images[0])}
                 />
               </TouchableOpacity>
             ) : (
@@ -971,30 +1327,53 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
                     key={index}
                     onPress={() => handleImagePress(image.data, item.images!, index)}
                     activeOpacity={0.8}
+                    disabled={mediaState !== 'visible'}
                   >
                     <Image
                       source={{ uri: image.data }}
                       style={[styles.multiplePostImage, isDesktopWeb && styles.multiplePostImageDesktop]}
                       resizeMode="cover"
+                      blurRadius={mediaBlurRadius}
+                      accessible
+                      accessibilityLabel={getImageAccessibilityLabel(image, index, item.images!.length)}
                     />
                   </TouchableOpacity>
                 ))}
               </ScrollView>
             )}
+            {mediaState === 'blurred' && (
+              <SensitiveMediaOverlay state="blurred" onReveal={() => revealPostMedia(item.id)} />
+            )}
           </View>
         )}
 
+        {topReactions.length > 0 && (
+          <TouchableOpacity style={styles.reactionSummary} onPress={() => openReactionsSheet('post', item)}>
+            <Text style={styles.reactionSummaryText}>
+              {topReactions.map(getReactionEmoji).join('')} See who reacted
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Post Actions */}
         <View style={styles.postActions}>
           <TouchableOpacity
             style={[styles.actionButton, isLiked && styles.likedButton]}
-            onPress={() => handleLikePost(item.id)}
+            onPress={() => handleReactToPost(item.id, toggleReaction(item))}
+            onLongPress={() => setReactionPickerFor(item.id)}
           >
             <Text style={[styles.actionText, isLiked && styles.likedText]}>
-              {isLiked ? '❤️' : '🤍'} {item.likes}
+              {userReaction ? getReactionEmoji(userReaction) : '🤍'} {item.likes}
             </Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setReactionPickerFor(current => (current === item.id ? null : item.id))}
+          >
+            <Text style={styles.actionText}>😀+</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.actionButton}
             onPress={() => openComments(item)}
@@ -1002,6 +1381,29 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
             <Text style={styles.actionText}>💬 {item.comments}</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setSharingPost(item)}
+          >
+            <Text style={styles.actionText}>🔁 {item.shares || 0}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => openBookmarkModal(item)}
+          >
+            <Text style={styles.actionText}>{isBookmarked ? '🔖 Saved' : '📑 Save'}</Text>
+          </TouchableOpacity>
+
+          {isOwnPost && item.repostType !== 'repost' && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => openEditPost(item)}
+            >
+              <Text style={styles.actionText}>✏️ Edit</Text>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity 
             style={styles.actionButton}
             onPress={() => {
@@ -1014,16 +1416,23 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
             <Text style={styles.actionText}>⚠️ Report</Text>
           </TouchableOpacity>
         </View>
+
+        {reactionPickerFor === item.id && renderReactionPicker(userReaction, reaction => handleReactToPost(item.id, reaction))}
       </View>
     );
   }, [
     currentUser?.uid,
     currentUserData?.friends,
     currentUserData?.following,
+    bookmarkedPosts,
+    reactionPickerFor,
+    sensitiveMediaPreference,
+    revealedMediaPosts,
+    revealPostMedia,
     onNavigateToProfile,
     handleUnfollowUser,
     handleFollowUser,
-    handleLikePost,
+    handleReactToPost,
     openComments,
     formatTime,
     isDesktopWeb,
@@ -1039,89 +1448,171 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
     }
   }, [activeFilter, isLoadingNewer, hasNewer, loadNewerPosts]);
 
-  const renderReply = (reply: Reply & { user: User }) => {
-    const isLiked = reply.likedBy.includes(currentUser?.uid || '');
-    const isPendingReply = reply.id.startsWith('offline_reply_');
+  const pinnedCommentId = selectedPost?.pinnedCommentId;
+  const commentTree = useMemo(
+    () => buildCommentTree(commentsWithUsers, commentSort, pinnedCommentId),
+    [commentsWithUsers, commentSort, pinnedCommentId]
+  );
+  const focusedThread = focusedThreadId ? findCommentNode(commentTree, focusedThreadId) : null;
+
+  const toggleCommentCollapsed = (commentId: string) => {
+    setCollapsedComments(prev => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
+  const renderCommentNode = (node: CommentNode<Comment & { user: User }>, depth: number): React.ReactElement => {
+    const userReaction = getUserReaction(node, currentUser?.uid || '');
+    const isLiked = userReaction !== null;
+    const topReactions = getTopReactions(node);
+    const isPendingComment = node.id.startsWith('offline_comment_') || node.id.startsWith('offline_reply_');
+    const isCollapsed = collapsedComments.has(node.id);
+    const hasReplies = node.children.length > 0;
+    const hiddenReplies = isCollapsed ? countDescendants(node) : 0;
+    const isPinned = node.id === pinnedCommentId;
+    const canPin = !node.parentId && !isPendingComment && selectedPost?.userId === currentUser?.uid;
+    const isOwnComment = node.userId === currentUser?.uid && !isPendingComment;
     
-    return (
-      <View key={reply.id} style={styles.replyContainer}>
-        <Image
-          source={{
-            uri: reply.user.profilePicture || 'https://via.placeholder.com/30'
-          }}
-          style={styles.replyAvatar}
-        />
-        <View style={styles.commentContent}>
-          <View style={styles.commentHeader}>
-            <Text style={styles.commentUsername}>{reply.user.displayName}</Text>
-            <Text style={styles.commentTime}>{formatTime(reply.createdAt)}</Text>
-            {isPendingReply && <Text style={styles.pendingSyncCommentText}> • Pending sync</Text>}
-          </View>
-          <Text style={styles.commentText}>{reply.text}</Text>
-          <View style={styles.commentActions}>
-            <TouchableOpacity
-              style={[styles.commentAction, isLiked && styles.likedAction]}
-              onPress={() => handleLikeReply(reply.id)}
-            >
-              <Text style={[styles.commentActionText, isLiked && styles.likedCommentText]}>
-                {isLiked ? '❤️' : '🤍'} {reply.likes}
-              </Text>
-            </TouchableOpacity>
+    if (node.deleted) {
+      return (
+        <View key={node.id}>
+          <View style={styles.commentContainer}>
+            <Image
+              source={{ uri: 'https://via.placeholder.com/30' }}
+              style={depth === 0 ? styles.commentAvatar : styles.replyAvatar}
+            />
+            <View style={styles.commentContent}>
+              <Text style={styles.removedCommentText}>Comment removed</Text>
+              <View style={styles.commentActions}>
+                <TouchableOpacity style={styles.commentAction} onPress={() => toggleCommentCollapsed(node.id)}>
+                  <Text style={styles.commentActionText}>
+                    {isCollapsed ? `▸ Show ${hiddenReplies} ${hiddenReplies === 1 ? 'reply' : 'replies'}` : '▾ Hide replies'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
           </View>
+          {!isCollapsed && renderCommentChildren(node, depth)}
         </View>
-      </View>
-    );
-  };
+      );
+    }
 
-  const renderComment = ({ item }: { item: Comment & { user: User } }) => {
-    const isLiked = item.likedBy.includes(currentUser?.uid || '');
-    const replies = repliesWithUsers[item.id] || [];
-    const isPendingComment = item.id.startsWith('offline_comment_');
-    
     return (
-      <View>
+      <View key={node.id}>
         <View style={styles.commentContainer}>
           <Image
             source={{
-              uri: item.user.profilePicture || 'https://via.placeholder.com/30'
+              uri: node.user.profilePicture || 'https://via.placeholder.com/30'
             }}
-            style={styles.commentAvatar}
+            style={depth === 0 ? styles.commentAvatar : styles.replyAvatar}
           />
           <View style={styles.commentContent}>
             <View style={styles.commentHeader}>
-              <Text style={styles.commentUsername}>{item.user.displayName}</Text>
-              <Text style={styles.commentTime}>{formatTime(item.createdAt)}</Text>
+              <Text style={styles.commentUsername}>{node.user.displayName}</Text>
+              <Text style={styles.commentTime}>{formatTime(node.createdAt)}</Text>
+              {node.editedAt && (
+                isOwnComment ? (
+                  <TouchableOpacity onPress={() => handleShowCommentHistory(node)}>
+                    <Text style={styles.commentTime}> • edited</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <Text style={styles.commentTime}> • edited</Text>
+                )
+              )}
               {isPendingComment && <Text style={styles.pendingSyncCommentText}> • Pending sync</Text>}
+              {isPinned && <Text style={styles.pinnedCommentText}> • 📌 Pinned</Text>}
             </View>
-            <Text style={styles.commentText}>{item.text}</Text>
+            <MentionText
+              text={node.text}
+              mentions={node.mentions}
+              style={styles.commentText}
+              onPressMention={openMentionedProfile}
+            />
             <View style={styles.commentActions}>
               <TouchableOpacity
                 style={[styles.commentAction, isLiked && styles.likedAction]}
-                onPress={() => handleLikeComment(item.id)}
+                onPress={() => handleReactToComment(node.id, toggleReaction(node))}
+                onLongPress={() => setReactionPickerFor(node.id)}
               >
                 <Text style={[styles.commentActionText, isLiked && styles.likedCommentText]}>
-                  {isLiked ? '❤️' : '🤍'} {item.likes}
+                  {userReaction ? getReactionEmoji(userReaction) : '🤍'} {node.likes}
                 </Text>
               </TouchableOpacity>
+              {topReactions.length > 0 && (
+                <TouchableOpacity style={styles.commentAction} onPress={() => openReactionsSheet('comment', node)}>
+                  <Text style={styles.commentActionText}>{topReactions.map(getReactionEmoji).join('')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.commentAction}
+                onPress={() => setReactionPickerFor(current => (current === node.id ? null : node.id))}
+              >
+                <Text style={styles.commentActionText}>React</Text>
+              </TouchableOpacity>
               <TouchableOpacity 
                 style={styles.commentAction}
-                onPress={() => handleReplyToComment(item)}
+                onPress={() => handleReplyToComment(node)}
               >
-                <Text style={styles.commentActionText}>Reply {item.repliesCount > 0 ? `(${item.repliesCount})` : ''}</Text>
+                <Text style={styles.commentActionText}>Reply</Text>
               </TouchableOpacity>
+              {canPin && (
+                <TouchableOpacity style={styles.commentAction} onPress={() => handleTogglePinComment(node)}>
+                  <Text style={styles.commentActionText}>{isPinned ? 'Unpin' : 'Pin'}</Text>
+                </TouchableOpacity>
+              )}
+              {isOwnComment && (
+                <>
+                  <TouchableOpacity style={styles.commentAction} onPress={() => handleEditComment(node)}>
+                    <Text style={styles.commentActionText}>Edit</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.commentAction} onPress={() => handleDeleteComment(node)}>
+                    <Text style={styles.commentActionText}>Delete</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              {hasReplies && (
+                <TouchableOpacity style={styles.commentAction} onPress={() => toggleCommentCollapsed(node.id)}>
+                  <Text style={styles.commentActionText}>
+                    {isCollapsed ? `▸ Show ${hiddenReplies} ${hiddenReplies === 1 ? 'reply' : 'replies'}` : '▾ Hide replies'}
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
+            {reactionPickerFor === node.id && renderReactionPicker(userReaction, reaction => handleReactToComment(node.id, reaction))}
           </View>
         </View>
-        {/* Render replies with indentation */}
-        {replies.length > 0 && (
-          <View style={styles.repliesContainer}>
-            {replies.map(reply => renderReply(reply))}
-          </View>
-        )}
+        {!isCollapsed && renderCommentChildren(node, depth)}
+      </View>
+    );
+  };
+
+  // Replies with indentation, or a link to open deep branches on their own
+  const renderCommentChildren = (node: CommentNode<Comment & { user: User }>, depth: number) => {
+    if (node.children.length === 0) return null;
+
+    if (depth + 1 >= MAX_VISIBLE_THREAD_DEPTH) {
+      return (
+        <TouchableOpacity style={styles.repliesContainer} onPress={() => setFocusedThreadId(node.id)}>
+          <Text style={styles.continueThreadText}>Continue this thread →</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <View style={styles.repliesContainer}>
+        {node.children.map(child => renderCommentNode(child, depth + 1))}
       </View>
     );
   };
 
+  const renderComment = ({ item }: { item: CommentNode<Comment & { user: User }> }) => renderCommentNode(item, 0);
+
   const renderCommentsModal = () => (
     <Modal
       visible={showComments}
@@ -1145,9 +1636,33 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
               <View style={styles.modalHeaderSpacer} />
             </View>
 
+            <View style={styles.commentSortRow}>
+              {COMMENT_SORTS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.filterTab, commentSort === option.value && styles.filterTabActive]}
+                  onPress={() => handleChangeCommentSort(option.value)}
+                  disabled={commentsFromCache}
+                >
+                  <Text style={[styles.filterTabText, commentSort === option.value && styles.filterTabTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {commentsFromCache && (
+              <Text style={styles.cachedCommentsText}>Offline - showing the comments loaded last time</Text>
+            )}
+
+            {focusedThread && (
+              <TouchableOpacity style={styles.threadBackButton} onPress={() => setFocusedThreadId(null)}>
+                <Text style={styles.continueThreadText}>← Back to all comments</Text>
+              </TouchableOpacity>
+            )}
+
             {/* Comments List */}
             <FlatList
-              data={commentsWithUsers}
+              data={focusedThread ? [focusedThread] : commentTree}
               renderItem={renderComment}
               keyExtractor={(item) => item.id}
               style={styles.commentsList}
@@ -1155,14 +1670,28 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
               ListEmptyComponent={
                 <Text style={styles.emptyComments}>No comments yet. Be the first to comment!</Text>
               }
+              ListFooterComponent={
+                hasMoreComments && !focusedThread ? (
+                  <TouchableOpacity
+                    style={styles.loadMoreCommentsButton}
+                    onPress={loadMoreComments}
+                    disabled={loadingMoreComments}
+                  >
+                    <Text style={styles.continueThreadText}>
+                      {loadingMoreComments ? 'Loading...' : 'Load more comments'}
+                    </Text>
+                  </TouchableOpacity>
+                ) : null
+              }
             />
 
             {/* Add Comment */}
             <View>
-              {replyingTo && (
+              <MentionSuggestions query={getActiveMentionQuery(commentText)} onSelect={handleSelectCommentMention} />
+              {(replyingTo || editingComment) && (
                 <View style={styles.replyingToContainer}>
                   <Text style={styles.replyingToText}>
-                    Replying to {replyingTo.user.displayName}
+                    {editingComment ? 'Editing your comment' : `Replying to ${replyingTo?.user.displayName}`}
                   </Text>
                   <TouchableOpacity onPress={cancelReply}>
                     <Text style={styles.cancelReplyText}>✕</Text>
@@ -1180,7 +1709,7 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
                   style={styles.commentInput}
                   value={commentText}
                   onChangeText={setCommentText}
-                  placeholder={replyingTo ? "Write a reply..." : "Add a comment..."}
+                  placeholder={editingComment ? "Edit your comment..." : replyingTo ? "Write a reply..." : "Add a comment..."}
                   placeholderTextColor="rgba(255, 255, 255, 0.7)"
                   multiline={Platform.OS !== 'web'}
                   returnKeyType="send"
@@ -1202,9 +1731,86 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
           </KeyboardAvoidingView>
         </SafeAreaView>
       </LinearGradient>
+      {renderReactionsSheet()}
     </Modal>
   );
 
+  const openReactorProfile = (userId: string) => {
+    setReactionsSheet(null);
+    if (showComments) closeComments();
+    onNavigateToProfile(userId);
+  };
+
+  // iOS shows one modal at a time, so while the comments are open this is rendered inside their modal
+  const renderReactionsSheet = () => {
+    const groups = reactionsSheet?.groups || [];
+    const total = groups.reduce((sum, group) => sum + group.userIds.length, 0);
+    const visibleGroups = groups.filter(group => reactionsSheetFilter === 'all' || group.type === reactionsSheetFilter);
+
+    return (
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={!!reactionsSheet}
+        onRequestClose={() => setReactionsSheet(null)}
+      >
+        <View style={styles.reportModalContainer}>
+          <LinearGradient colors={['rgba(0,0,0,0.8)', 'rgba(0,0,0,0.9)']} style={styles.reportModalGradient}>
+            <View style={styles.reportModalContent}>
+              <View style={styles.reportModalHeader}>
+                <Text style={styles.reportModalTitle}>Reactions</Text>
+                <TouchableOpacity style={styles.closeReportButton} onPress={() => setReactionsSheet(null)}>
+                  <Text style={styles.closeReportButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.reactionFilterRow}>
+                <TouchableOpacity
+                  style={[styles.filterTab, reactionsSheetFilter === 'all' && styles.filterTabActive]}
+                  onPress={() => setReactionsSheetFilter('all')}
+                >
+                  <Text style={[styles.filterTabText, reactionsSheetFilter === 'all' && styles.filterTabTextActive]}>
+                    All {total}
+                  </Text>
+                </TouchableOpacity>
+                {groups.map(group => (
+                  <TouchableOpacity
+                    key={group.type}
+                    style={[styles.filterTab, reactionsSheetFilter === group.type && styles.filterTabActive]}
+                    onPress={() => setReactionsSheetFilter(group.type)}
+                  >
+                    <Text style={[styles.filterTabText, reactionsSheetFilter === group.type && styles.filterTabTextActive]}>
+                      {getReactionEmoji(group.type)} {group.userIds.length}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+
+              {reactionsSheet?.loading ? (
+                <Text style={styles.reportModalDescription}>Loading...</Text>
+              ) : (
+                <ScrollView style={styles.reactionUsersList}>
+                  {visibleGroups.flatMap(group => group.userIds.map(userId => (
+                    <TouchableOpacity
+                      key={`${group.type}_${userId}`}
+                      style={styles.reactionUserRow}
+                      onPress={() => openReactorProfile(userId)}
+                    >
+                      <Text style={styles.reactionUserName}>
+                        {reactionsSheet?.users[userId]?.displayName || 'Unknown user'}
+                      </Text>
+                      <Text style={styles.reactionOptionEmoji}>{getReactionEmoji(group.type)}</Text>
+                    </TouchableOpacity>
+                  )))}
+                </ScrollView>
+              )}
+            </View>
+          </LinearGradient>
+        </View>
+      </Modal>
+    );
+  };
+
   return (
     <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
       <SafeAreaView style={[styles.safeArea, isDesktopWeb && styles.safeAreaDesktopWeb]} edges={['top']}>
@@ -1214,9 +1820,16 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
             <Text style={styles.backButton}>← Back</Text>
           </TouchableOpacity>
           <Text style={styles.title}>Posts</Text>
-          <TouchableOpacity style={styles.createButton} onPress={onCreatePost}>
-            <Text style={styles.createButtonText}>✏️</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            {onNavigateToSearch && (
+              <TouchableOpacity style={styles.createButton} onPress={onNavigateToSearch}>
+                <Text style={styles.createButtonText}>🔍</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.createButton} onPress={onCreatePost}>
+              <Text style={styles.createButtonText}>✏️</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Filter Tabs */}
@@ -1230,6 +1843,14 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
                 All Posts
               </Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.filterTab, activeFilter === 'foryou' && styles.filterTabActive]}
+              onPress={() => setActiveFilter('foryou')}
+            >
+              <Text style={[styles.filterTabText, activeFilter === 'foryou' && styles.filterTabTextActive]}>
+                For You
+              </Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={[styles.filterTab, activeFilter === 'following' && styles.filterTabActive]}
               onPress={() => setActiveFilter('following')}
@@ -1389,6 +2010,12 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
                     source={{ uri: selectedImage }}
                     style={styles.fullScreenImage}
                     resizeMode="contain"
+                    accessible
+                    accessibilityLabel={getImageAccessibilityLabel(
+                      selectedPostImages[selectedImageIndex],
+                      selectedImageIndex,
+                      selectedPostImages.length
+                    )}
                   />
                   
                   {/* Navigation arrows for multiple images */}
@@ -1504,6 +2131,198 @@ const PostsFeedScreen: React.FC<PostsFeedScreenProps> = ({
           </View>
         </Modal>
         
+        {/* Edit Post Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={editModalVisible}
+          onRequestClose={closeEditPost}
+        >
+          <View style={styles.reportModalContainer}>
+            <LinearGradient colors={['rgba(0,0,0,0.8)', 'rgba(0,0,0,0.9)']} style={styles.reportModalGradient}>
+              <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                keyboardVerticalOffset={Platform.OS === 'ios' ? 88 : 24}
+              >
+              <View style={styles.reportModalContent}>
+                <View style={styles.reportModalHeader}>
+                  <Text style={styles.reportModalTitle}>Edit Post</Text>
+                  <TouchableOpacity style={styles.closeReportButton} onPress={closeEditPost}>
+                    <Text style={styles.closeReportButtonText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <Text style={styles.reportModalDescription}>
+                  Previous versions are kept and can be reviewed by moderators.
+                </Text>
+
+                <TextInput
+                  style={[styles.customReasonInput, styles.editContentInput]}
+                  placeholder="What's on your mind?"
+                  placeholderTextColor="#888"
+                  value={editContent}
+                  onChangeText={setEditContent}
+                  multiline
+                  maxLength={2000}
+                />
+
+                <View style={styles.customReasonContainer}>
+                  <Text style={styles.customReasonLabel}>Tags (comma separated):</Text>
+                  <TextInput
+                    style={styles.customReasonInput}
+                    placeholder="travel, food"
+                    placeholderTextColor="#888"
+                    value={editTags}
+                    onChangeText={setEditTags}
+                    autoCapitalize="none"
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.submitReportButton, (!editContent.trim() || savingEdit) && styles.submitReportButtonDisabled]}
+                  onPress={handleSaveEdit}
+                  disabled={!editContent.trim() || savingEdit}
+                >
+                  <Text style={styles.submitReportButtonText}>{savingEdit ? 'Saving...' : 'Save Changes'}</Text>
+                </TouchableOpacity>
+              </View>
+              </KeyboardAvoidingView>
+            </LinearGradient>
+          </View>
+        </Modal>
+        
+        {/* Share Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={!!sharingPost}
+          onRequestClose={closeShareModal}
+        >
+          <View style={styles.reportModalContainer}>
+            <LinearGradient colors={['rgba(0,0,0,0.8)', 'rgba(0,0,0,0.9)']} style={styles.reportModalGradient}>
+              <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                keyboardVerticalOffset={Platform.OS === 'ios' ? 88 : 24}
+              >
+              <View style={styles.reportModalContent}>
+                <View style={styles.reportModalHeader}>
+                  <Text style={styles.reportModalTitle}>Share Post</Text>
+                  <TouchableOpacity style={styles.closeReportButton} onPress={closeShareModal}>
+                    <Text style={styles.closeReportButtonText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.submitReportButton, sharing && styles.submitReportButtonDisabled]}
+                  onPress={() => handleShare(false)}
+                  disabled={sharing}
+                >
+                  <Text style={styles.submitReportButtonText}>🔁 Repost</Text>
+                </TouchableOpacity>
+
+                <View style={styles.customReasonContainer}>
+                  <Text style={styles.customReasonLabel}>Or quote it with your own thoughts:</Text>
+                  <TextInput
+                    style={styles.customReasonInput}
+                    placeholder="Add a comment..."
+                    placeholderTextColor="#888"
+                    value={quoteText}
+                    onChangeText={setQuoteText}
+                    multiline
+                    maxLength={2000}
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.submitReportButton, (!quoteText.trim() || sharing) && styles.submitReportButtonDisabled]}
+                  onPress={() => handleShare(true)}
+                  disabled={!quoteText.trim() || sharing}
+                >
+                  <Text style={styles.submitReportButtonText}>{sharing ? 'Sharing...' : 'Quote Post'}</Text>
+                </TouchableOpacity>
+              </View>
+              </KeyboardAvoidingView>
+            </LinearGradient>
+          </View>
+        </Modal>
+
+        {/* Bookmark Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={!!bookmarkingPost}
+          onRequestClose={closeBookmarkModal}
+        >
+          <View style={styles.reportModalContainer}>
+            <LinearGradient colors={['rgba(0,0,0,0.8)', 'rgba(0,0,0,0.9)']} style={styles.reportModalGradient}>
+              <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                keyboardVerticalOffset={Platform.OS === 'ios' ? 88 : 24}
+              >
+              <View style={styles.reportModalContent}>
+                <View style={styles.reportModalHeader}>
+                  <Text style={styles.reportModalTitle}>Save to Collection</Text>
+                  <TouchableOpacity style={styles.closeReportButton} onPress={closeBookmarkModal}>
+                    <Text style={styles.closeReportButtonText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <ScrollView style={styles.reasonsList} keyboardShouldPersistTaps="handled">
+                  {bookmarkCollections.map((bookmarkCollection) => {
+                    const isCurrent = !!bookmarkingPost && bookmarkedPosts[bookmarkingPost.id] === bookmarkCollection.id;
+                    return (
+                      <TouchableOpacity
+                        key={bookmarkCollection.id}
+                        style={[styles.reasonButton, isCurrent && styles.reasonButtonSelected]}
+                        onPress={() => handleBookmark(bookmarkCollection.id)}
+                        disabled={savingBookmark || isCurrent}
+                      >
+                        <Text style={[styles.reasonText, isCurrent && styles.reasonTextSelected]}>
+                          {isCurrent ? '✓ ' : ''}{bookmarkCollection.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+
+                <View style={styles.customReasonContainer}>
+                  <Text style={styles.customReasonLabel}>Or create a new collection:</Text>
+                  <TextInput
+                    style={styles.customReasonInput}
+                    placeholder="Collection name"
+                    placeholderTextColor="#888"
+                    value={newCollectionName}
+                    onChangeText={setNewCollectionName}
+                    maxLength={40}
+                  />
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.submitReportButton, (!newCollectionName.trim() || savingBookmark) && styles.submitReportButtonDisabled]}
+                  onPress={handleCreateCollectionAndBookmark}
+                  disabled={!newCollectionName.trim() || savingBookmark}
+                >
+                  <Text style={styles.submitReportButtonText}>{savingBookmark ? 'Saving...' : 'Create & Save'}</Text>
+                </TouchableOpacity>
+
+                {!!bookmarkingPost && !!bookmarkedPosts[bookmarkingPost.id] && (
+                  <TouchableOpacity
+                    style={[styles.submitReportButton, savingBookmark && styles.submitReportButtonDisabled]}
+                    onPress={handleRemoveBookmark}
+                    disabled={savingBookmark}
+                  >
+                    <Text style={styles.submitReportButtonText}>Remove Bookmark</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              </KeyboardAvoidingView>
+            </LinearGradient>
+          </View>
+        </Modal>
+
+        {/* Who reacted */}
+        {!showComments && renderReactionsSheet()}
+
         {/* Navbar */}
         <Navbar activeTab={activeTab} onTabPress={handleTabPress} user={currentUserData} />
       </SafeAreaView>
@@ -1546,6 +2365,10 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: 'bold',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   createButton: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
     padding: 8,
@@ -1615,6 +2438,12 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginRight: 10,
   },
+  editedIndicator: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginRight: 10,
+  },
   tagsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1634,9 +2463,26 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     marginBottom: 10,
   },
+  repostLabel: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
   imagesContainer: {
     marginBottom: 10,
   },
+  contentWarningLabel: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(243, 156, 18, 0.15)',
+    color: '#b9770e',
+    fontSize: 13,
+    fontWeight: '600',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    marginBottom: 8,
+  },
   imagesContent: {
     paddingRight: 10,
   },
@@ -1688,6 +2534,53 @@ const styles = StyleSheet.create({
   likedText: {
     color: '#ff69b4',
   },
+  reactionSummary: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  reactionSummaryText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+    fontSize: 13,
+  },
+  reactionPicker: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    marginTop: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 4,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  reactionOption: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 14,
+  },
+  reactionOptionSelected: {
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  reactionOptionEmoji: {
+    fontSize: 20,
+  },
+  reactionFilterRow: {
+    flexGrow: 0,
+    marginBottom: 15,
+  },
+  reactionUsersList: {
+    maxHeight: 300,
+  },
+  reactionUserRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  reactionUserName: {
+    color: 'white',
+    fontSize: 15,
+  },
   // Comments Modal Styles
   modalContainer: {
     flex: 1,
@@ -1791,9 +2684,41 @@ const styles = StyleSheet.create({
     borderLeftWidth: 2,
     borderLeftColor: 'rgba(255, 255, 255, 0.15)',
   },
-  replyContainer: {
+  continueThreadText: {
+    color: '#ffd700',
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 15,
+  },
+  threadBackButton: {
+    paddingHorizontal: 15,
+    paddingTop: 10,
+  },
+  commentSortRow: {
     flexDirection: 'row',
-    marginBottom: 12,
+    paddingHorizontal: 15,
+    paddingTop: 10,
+  },
+  cachedCommentsText: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    fontStyle: 'italic',
+    paddingHorizontal: 15,
+    paddingTop: 8,
+  },
+  removedCommentText: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginBottom: 5,
+  },
+  pinnedCommentText: {
+    color: '#ffd700',
+    fontSize: 11,
+  },
+  loadMoreCommentsButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
   },
   replyAvatar: {
     width: 26,
@@ -2222,6 +3147,10 @@ const styles = StyleSheet.create({
     minHeight: 80,
     textAlignVertical: 'top',
   },
+  editContentInput: {
+    minHeight: 140,
+    marginBottom: 15,
+  },
   submitReportButton: {
     backgroundColor: 'rgba(118, 75, 162, 0.8)',
     padding: 15,
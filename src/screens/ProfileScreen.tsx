@@ -21,15 +21,41 @@ import * as ImagePicker from 'expo-image-picker';
 import { auth, db } from '@/services/firebase';
 import { collection, getDocs, query, where } from 'firebase/firestore';
 import { updateUserProfile } from '@/services/firestore';
+import { updatePrivacySettings } from '@/services/advancedFeatures';
 import { getUserDataWithCounts, followUser, unfollowUser } from '@/services/postsService';
-import { getUserPosts } from '@/services/postsService';
+import { getUserPosts, getViewableVisibilities } from '@/services/postsService';
 import { sendFriendRequest } from '@/services/friendsService';
 import { signOut as appSignOut } from '@/services/auth';
 import { createReport } from '@/services/reportService';
-import { User, Post } from '@/types';
+import { getScheduledPosts, updateScheduledPost, cancelScheduledPost } from '@/services/scheduledPostsService';
+import { offlineService, onSyncCompleted } from '@/services/offlineService';
+import { getUserSettings, saveUserSettings } from '@/services/offlineStorage';
+import {
+  getBookmarkLibrary,
+  removeBookmark,
+  deleteBookmarkCollection,
+  BookmarkLibrary,
+  DEFAULT_BOOKMARK_COLLECTION_ID
+} from '@/services/bookmarksService';
+import { User, Post, ScheduledPost, PrivacySettings, ProfileHighlight, SensitiveMediaPreference } from '@/types';
+import { formatDateTimeInput, parseDateTimeInput } from '@/utils/helpers';
 import { calculateLevel } from '@/utils/gamification';
+import {
+  MAX_HIGHLIGHT_TITLE_LENGTH,
+  MAX_PINNED_POSTS,
+  addHighlight,
+  getHighlightPosts,
+  getPinnedPosts,
+  toggleHighlightPost,
+  togglePinnedPost
+} from '@/utils/profileHighlights';
+import { getImageAccessibilityLabel } from '@/utils/imageUtils';
+import { getSensitiveMediaState, SENSITIVE_MEDIA_BLUR_RADIUS, SENSITIVE_MEDIA_OPTIONS } from '@/utils/contentWarnings';
 import { ACHIEVEMENT_DEFINITIONS } from '@/types';
 import Navbar from '@/components/Navbar';
+import EmbeddedPost from '@/components/EmbeddedPost';
+import MentionText from '@/components/MentionText';
+import SensitiveMediaOverlay from '@/components/SensitiveMediaOverlay';
 
 interface ProfileScreenProps {
   userId?: string | null; // Optional userId to view other users' profiles
@@ -67,6 +93,12 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
   const [editMode, setEditMode] = useState(false);
   const [tempBio, setTempBio] = useState('');
   const [tempProfilePicture, setTempProfilePicture] = useState('');
+  const [tempPinnedPostIds, setTempPinnedPostIds] = useState<string[]>([]);
+  const [tempHighlights, setTempHighlights] = useState<ProfileHighlight[]>([]);
+  const [newHighlightTitle, setNewHighlightTitle] = useState('');
+  const [selectedHighlightId, setSelectedHighlightId] = useState<string | null>(null);
+  const [sensitiveMediaPreference, setSensitiveMediaPreference] = useState<SensitiveMediaPreference>('blur');
+  const [revealedMediaPosts, setRevealedMediaPosts] = useState<Set<string>>(new Set());
   const [saving, setSaving] = useState(false);
   const [navbarTab, setNavbarTab] = useState('profile');
   const [imageModalVisible, setImageModalVisible] = useState(false);
@@ -81,6 +113,14 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
   const [loggingOut, setLoggingOut] = useState(false);
   const [reportModalVisible, setReportModalVisible] = useState(false);
   const [selectedReportReason, setSelectedReportReason] = useState('');
+  const [scheduledPosts, setScheduledPosts] = useState<ScheduledPost[]>([]);
+  const [pendingScheduledPosts, setPendingScheduledPosts] = useState<ScheduledPost[]>([]);
+  const [editingScheduledPost, setEditingScheduledPost] = useState<ScheduledPost | null>(null);
+  const [scheduledContent, setScheduledContent] = useState('');
+  const [scheduledTime, setScheduledTime] = useState('');
+  const [savingScheduledPost, setSavingScheduledPost] = useState(false);
+  const [bookmarkLibrary, setBookmarkLibrary] = useState<BookmarkLibrary | null>(null);
+  const [selectedCollectionId, setSelectedCollectionId] = useState(DEFAULT_BOOKMARK_COLLECTION_ID);
   const currentUser = auth.currentUser;
 
   const REPORT_REASONS = [
@@ -104,19 +144,22 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
         setUserData(data);
         setTempBio(data?.bio || '');
         setTempProfilePicture(data?.profilePicture || '');
+        setTempPinnedPostIds(data?.pinnedPostIds || []);
+        setTempHighlights(data?.highlights || []);
       } catch (error) {
         console.error('Error fetching user data:', error);
       }
     }
   }, [viewingUserId]);
 
-  // Fetch user posts
-  const fetchUserPosts = useCallback(() => {
+  // Fetch user posts, limited to the visibilities the current user may see
+  const fetchUserPosts = useCallback(async () => {
     if (viewingUserId) {
+      const visibilities = await getViewableVisibilities(viewingUserId);
       return getUserPosts(viewingUserId, (posts) => {
         setUserPosts(posts);
         setLoading(false);
-      });
+      }, visibilities);
     }
   }, [viewingUserId]);
 
@@ -124,7 +167,7 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
     const loadData = async () => {
       setLoading(true);
       await fetchUserData();
-      const unsubscribe = fetchUserPosts();
+      const unsubscribe = await fetchUserPosts();
       return unsubscribe;
     };
 
@@ -162,6 +205,206 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
     loadRelationshipStatus();
   }, [currentUser, viewingUserId, isOwnProfile]);
 
+  // Scheduled posts are private, so they are only loaded on the user's own profile
+  useEffect(() => {
+    if (!isOwnProfile || !currentUser) return;
+
+    const refreshPendingScheduledPosts = () => {
+      setPendingScheduledPosts(offlineService.getPendingScheduledPosts(currentUser.uid));
+    };
+
+    refreshPendingScheduledPosts();
+    const unsubscribeScheduled = getScheduledPosts(currentUser.uid, setScheduledPosts);
+    const unsubscribeSync = onSyncCompleted(refreshPendingScheduledPosts);
+
+    return () => {
+      unsubscribeScheduled();
+      unsubscribeSync();
+    };
+  }, [currentUser, isOwnProfile]);
+
+  // Sensitive media preference is a device setting
+  useEffect(() => {
+    getUserSettings().then(settings => setSensitiveMediaPreference(settings.sensitiveMedia));
+  }, []);
+
+  // Bookmarks are private as well; the library falls back to its offline copy without a connection
+  useEffect(() => {
+    if (!isOwnProfile || !currentUser) return;
+
+    const loadBookmarks = async () => {
+      try {
+        setBookmarkLibrary(await getBookmarkLibrary());
+      } catch (error) {
+        console.error('Error loading bookmarks:', error);
+      }
+    };
+    loadBookmarks();
+  }, [currentUser, isOwnProfile]);
+
+  const bookmarkedPostsInCollection = bookmarkLibrary
+    ? bookmarkLibrary.bookmarks
+        .filter(bookmark => bookmark.collectionId === selectedCollectionId)
+        .map(bookmark => bookmarkLibrary.posts.find(post => post.id === bookmark.postId))
+        .filter((post): post is Post => !!post)
+    : [];
+
+  // Edit mode previews the unsaved pins and highlights; handleSaveProfile stores them
+  const isEditingLayout = editMode && isOwnProfile;
+  const pinnedPostIds = isEditingLayout ? tempPinnedPostIds : userData?.pinnedPostIds || [];
+  const highlights = (isEditingLayout ? tempHighlights : userData?.highlights || [])
+    .filter(highlight => isEditingLayout || getHighlightPosts(userPosts, highlight).length > 0);
+  const selectedHighlight = highlights.find(highlight => highlight.id === selectedHighlightId);
+  const pinnedPosts = getPinnedPosts(userPosts, pinnedPostIds);
+  const timelinePosts = userPosts.filter(post => !pinnedPostIds.includes(post.id));
+
+  const handleTogglePin = (postId: string) => {
+    try {
+      setTempPinnedPostIds(togglePinnedPost(tempPinnedPostIds, postId));
+    } catch (error: any) {
+      Alert.alert('Pinned Posts', error.message);
+    }
+  };
+
+  const handleAddHighlight = () => {
+    try {
+      const updated = addHighlight(tempHighlights, newHighlightTitle);
+      setTempHighlights(updated);
+      setSelectedHighlightId(updated[updated.length - 1].id);
+      setNewHighlightTitle('');
+    } catch (error: any) {
+      Alert.alert('Highlights', error.message);
+    }
+  };
+
+  const handleRemoveHighlight = (highlightId: string) => {
+    setTempHighlights(prev => prev.filter(highlight => highlight.id !== highlightId));
+    setSelectedHighlightId(null);
+  };
+
+  const handleToggleHighlightPost = (postId: string) => {
+    if (!selectedHighlightId) return;
+    setTempHighlights(prev => toggleHighlightPost(prev, selectedHighlightId, postId));
+  };
+
+  const handleRemoveBookmark = async (postId: string) => {
+    try {
+      await removeBookmark(postId);
+      setBookmarkLibrary(prev => prev && {
+        ...prev,
+        bookmarks: prev.bookmarks.filter(bookmark => bookmark.postId !== postId),
+        posts: prev.posts.filter(post => post.id !== postId),
+      });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to remove bookmark');
+    }
+  };
+
+  const handleDeleteCollection = async () => {
+    const collectionName = bookmarkLibrary?.collections.find(c => c.id === selectedCollectionId)?.name;
+    const message = `Delete "${collectionName}"? Posts saved in it will be unbookmarked.`;
+
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm(message)
+      : await new Promise<boolean>(resolve =>
+          Alert.alert(
+            'Delete Collection',
+            message,
+            [
+              { text: 'Keep', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Delete', style: 'destructive', onPress: () => resolve(true) },
+            ]
+          )
+        );
+
+    if (!confirmed) return;
+
+    try {
+      await deleteBookmarkCollection(selectedCollectionId);
+      setBookmarkLibrary(prev => prev && {
+        collections: prev.collections.filter(c => c.id !== selectedCollectionId),
+        bookmarks: prev.bookmarks.filter(bookmark => bookmark.collectionId !== selectedCollectionId),
+        posts: prev.posts,
+      });
+      setSelectedCollectionId(DEFAULT_BOOKMARK_COLLECTION_ID);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to delete collection');
+    }
+  };
+
+  const allScheduledPosts = [...pendingScheduledPosts, ...scheduledPosts]
+    .sort((a, b) => a.publishAt.getTime() - b.publishAt.getTime());
+
+  const openEditScheduledPost = (post: ScheduledPost) => {
+    setEditingScheduledPost(post);
+    setScheduledContent(post.content);
+    setScheduledTime(formatDateTimeInput(post.publishAt));
+  };
+
+  const handleSaveScheduledPost = async () => {
+    if (!editingScheduledPost || !currentUser || savingScheduledPost) return;
+
+    const publishAt = parseDateTimeInput(scheduledTime);
+    if (!publishAt) {
+      Alert.alert('Invalid Date', 'Please enter the publish time as YYYY-MM-DD HH:MM.');
+      return;
+    }
+    if (publishAt.getTime() <= Date.now()) {
+      Alert.alert('Invalid Date', 'The publish time must be in the future.');
+      return;
+    }
+    if (!scheduledContent.trim() && !editingScheduledPost.images?.length) {
+      Alert.alert('Empty Post', 'Please add some content to your post.');
+      return;
+    }
+
+    setSavingScheduledPost(true);
+    try {
+      const updates = { content: scheduledContent.trim(), publishAt };
+      if (editingScheduledPost.isLocal) {
+        await offlineService.updatePendingScheduledPost(editingScheduledPost.id, updates);
+        setPendingScheduledPosts(offlineService.getPendingScheduledPosts(currentUser.uid));
+      } else {
+        await updateScheduledPost(editingScheduledPost.id, updates);
+      }
+      setEditingScheduledPost(null);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update scheduled post');
+    } finally {
+      setSavingScheduledPost(false);
+    }
+  };
+
+  const handleCancelScheduledPost = async (post: ScheduledPost) => {
+    if (!currentUser) return;
+
+    const confirmed = Platform.OS === 'web'
+      ? window.confirm('Cancel this scheduled post? It will not be published.')
+      : await new Promise<boolean>(resolve =>
+          Alert.alert(
+            'Cancel Scheduled Post',
+            'Cancel this scheduled post? It will not be published.',
+            [
+              { text: 'Keep', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Cancel Post', style: 'destructive', onPress: () => resolve(true) },
+            ]
+          )
+        );
+
+    if (!confirmed) return;
+
+    try {
+      if (post.isLocal) {
+        await offlineService.cancelPendingScheduledPost(post.id);
+        setPendingScheduledPosts(offlineService.getPendingScheduledPosts(currentUser.uid));
+      } else {
+        await cancelScheduledPost(post.id);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to cancel scheduled post');
+    }
+  };
+
   const handleFollowToggle = async () => {
     if (!viewingUserId || !currentUser || isOwnProfile || followLoading) return;
 
@@ -269,6 +512,9 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
         updates.profilePicture = tempProfilePicture;
       }
 
+      updates.pinnedPostIds = tempPinnedPostIds;
+      updates.highlights = tempHighlights;
+
       await updateUserProfile(currentUser.uid, updates);
       
       // Refresh user data
@@ -284,9 +530,37 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
     }
   };
 
+  const handleToggleAllowTagging = async () => {
+    if (!currentUser || !userData) return;
+
+    const allowTagging = userData.privacySettings?.allowTagging === false;
+    try {
+      await updatePrivacySettings(currentUser.uid, { ...userData.privacySettings, allowTagging });
+      setUserData(prev => prev && {
+        ...prev,
+        privacySettings: { ...prev.privacySettings, allowTagging } as PrivacySettings,
+      });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update privacy settings');
+    }
+  };
+
+  // Stored on the device, so it applies right away rather than with the profile save
+  const handleCycleSensitiveMedia = async () => {
+    const index = SENSITIVE_MEDIA_OPTIONS.findIndex(option => option.value === sensitiveMediaPreference);
+    const next = SENSITIVE_MEDIA_OPTIONS[(index + 1) % SENSITIVE_MEDIA_OPTIONS.length].value;
+    setSensitiveMediaPreference(next);
+    const settings = await getUserSettings();
+    await saveUserSettings({ ...settings, sensitiveMedia: next });
+  };
+
   const handleCancelEdit = () => {
     setTempBio(userData?.bio || '');
     setTempProfilePicture(userData?.profilePicture || '');
+    setTempPinnedPostIds(userData?.pinnedPostIds || []);
+    setTempHighlights(userData?.highlights || []);
+    setNewHighlightTitle('');
+    setSelectedHighlightId(null);
     setEditMode(false);
   };
 
@@ -404,40 +678,94 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
     }
   };
 
-  const renderPost = ({ item }: { item: Post }) => (
-    <View style={styles.postCard}>
-      <Text style={styles.postContent}>{item.content}</Text>
+  const renderPost = ({ item }: { item: Post }) => {
+    const mediaState = getSensitiveMediaState(item, sensitiveMediaPreference, revealedMediaPosts.has(item.id));
+    const revealMedia = () => setRevealedMediaPosts(prev => new Set(prev).add(item.id));
+
+    return (
+      <View style={styles.postCard}>
+        {item.repostType === 'repost' && <Text style={styles.postStats}>🔁 Reposted</Text>}
+        {!!item.contentWarning && (
+          <Text style={styles.contentWarningLabel}>⚠️ {item.contentWarning}</Text>
+        )}
+        {!!item.content && (
+          <MentionText
+            text={item.content}
+            mentions={item.mentions}
+            style={styles.postContent}
+            onPressMention={onNavigateToProfile}
+          />
+        )}
+        {item.repostOf && (
+          <View style={styles.embeddedPostWrapper}>
+            <EmbeddedPost
+              postId={item.repostOf}
+              sensitiveMediaPreference={sensitiveMediaPreference}
+              onPressAuthor={onNavigateToProfile}
+            />
+          </View>
+        )}
       
-      {item.images && item.images.length > 0 && (
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          style={styles.postImagesContainer}
-        >
-          {item.images.map((image, index) => (
-            <TouchableOpacity
-              key={index}
-              onPress={() => handleImagePress(image.data, item.images!, index)}
-              activeOpacity={0.85}
-            >
-              <Image
-                source={{ uri: image.data }}
-                style={styles.postImage}
-                resizeMode="cover"
-              />
-            </TouchableOpacity>
-          ))}
-        </ScrollView>
-      )}
+        {item.images && item.images.length > 0 && (
+          <View style={styles.postImagesContainer}>
+            {mediaState === 'hidden' ? (
+              <SensitiveMediaOverlay state="hidden" onReveal={revealMedia} />
+            ) : (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {item.images.map((image, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    onPress={() => handleImagePress(image.data, item.images!, index)}
+                    activeOpacity={0.85}
+                    disabled={mediaState !== 'visible'}
+                  >
+                    <Image
+                      source={{ uri: image.data }}
+                      style={styles.postImage}
+                      resizeMode="cover"
+                      blurRadius={mediaState === 'blurred' ? SENSITIVE_MEDIA_BLUR_RADIUS : 0}
+                      accessible
+                      accessibilityLabel={getImageAccessibilityLabel(image, index, item.images!.length)}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+            {mediaState === 'blurred' && <SensitiveMediaOverlay state="blurred" onReveal={revealMedia} />}
+          </View>
+        )}
       
-      <View style={styles.postFooter}>
-        <Text style={styles.postStats}>
-          ❤️ {item.likes} · 💬 {item.comments}
-        </Text>
-        <Text style={styles.postTime}>{formatTime(item.createdAt)}</Text>
+        <View style={styles.postFooter}>
+          <Text style={styles.postStats}>
+            ❤️ {item.likes} · 💬 {item.comments}
+          </Text>
+          <Text style={styles.postTime}>{formatTime(item.createdAt)}</Text>
+        </View>
       </View>
-    </View>
-  );
+    );
+  };
+
+  // Pin and album buttons under each of the user's posts while editing the profile
+  const renderLayoutActions = (post: Post) => {
+    if (!isEditingLayout) return null;
+
+    const isPinned = tempPinnedPostIds.includes(post.id);
+    const inHighlight = !!selectedHighlight?.postIds.includes(post.id);
+    return (
+      <View style={styles.layoutActions}>
+        <TouchableOpacity onPress={() => handleTogglePin(post.id)}>
+          <Text style={styles.bookmarkActionText}>{isPinned ? '📌 Unpin' : '📌 Pin'}</Text>
+        </TouchableOpacity>
+        {selectedHighlight && (
+          <TouchableOpacity onPress={() => handleToggleHighlightPost(post.id)}>
+            <Text style={styles.bookmarkActionText}>
+              {inHighlight ? `✨ Remove from ${selectedHighlight.title}` : `✨ Add to ${selectedHighlight.title}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
 
   if (loading) {
     return (
@@ -599,6 +927,24 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
               )}
             </View>
 
+            {editMode && isOwnProfile && (
+              <TouchableOpacity style={styles.privacyToggle} onPress={handleToggleAllowTagging}>
+                <Text style={styles.bioLabel}>Allow @mentions</Text>
+                <Text style={styles.privacyToggleValue}>
+                  {userData?.privacySettings?.allowTagging === false ? 'Off' : 'On'}
+                </Text>
+              </TouchableOpacity>
+            )}
+
+            {editMode && isOwnProfile && (
+              <TouchableOpacity style={styles.privacyToggle} onPress={handleCycleSensitiveMedia}>
+                <Text style={styles.bioLabel}>Sensitive media</Text>
+                <Text style={styles.privacyToggleValue}>
+                  {SENSITIVE_MEDIA_OPTIONS.find(option => option.value === sensitiveMediaPreference)?.label}
+                </Text>
+              </TouchableOpacity>
+            )}
+
             {/* Cancel button in edit mode */}
             {editMode && isOwnProfile && (
               <TouchableOpacity 
@@ -674,6 +1020,162 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
             )}
           </View>
 
+          {/* Scheduled Posts Section */}
+          {isOwnProfile && allScheduledPosts.length > 0 && (
+            <View style={styles.postsSection}>
+              <Text style={styles.sectionTitle}>⏰ Scheduled ({allScheduledPosts.length})</Text>
+              {allScheduledPosts.map((post) => (
+                <View key={post.id} style={styles.postCard}>
+                  <Text style={styles.postContent} numberOfLines={4}>{post.content}</Text>
+                  {post.images && post.images.length > 0 && (
+                    <Text style={styles.postStats}>📷 {post.images.length} image(s)</Text>
+                  )}
+                  <View style={styles.postFooter}>
+                    <Text style={styles.postStats}>
+                      {post.publishAt.toLocaleString()}{post.isLocal ? ' · Pending sync' : ''}
+                    </Text>
+                    <View style={styles.scheduledActions}>
+                      <TouchableOpacity onPress={() => openEditScheduledPost(post)}>
+                        <Text style={styles.scheduledActionText}>Edit</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={() => handleCancelScheduledPost(post)}>
+                        <Text style={[styles.scheduledActionText, styles.scheduledCancelText]}>Cancel</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Bookmarks Section */}
+          {isOwnProfile && bookmarkLibrary && (
+            <View style={styles.postsSection}>
+              <Text style={styles.sectionTitle}>🔖 Bookmarks ({bookmarkLibrary.bookmarks.length})</Text>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.collectionChips}
+              >
+                {bookmarkLibrary.collections.map((bookmarkCollection) => {
+                  const isSelected = bookmarkCollection.id === selectedCollectionId;
+                  return (
+                    <TouchableOpacity
+                      key={bookmarkCollection.id}
+                      style={[styles.collectionChip, isSelected && styles.collectionChipSelected]}
+                      onPress={() => setSelectedCollectionId(bookmarkCollection.id)}
+                    >
+                      <Text style={[styles.collectionChipText, isSelected && styles.collectionChipTextSelected]}>
+                        {bookmarkCollection.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+
+              {selectedCollectionId !== DEFAULT_BOOKMARK_COLLECTION_ID && (
+                <TouchableOpacity onPress={handleDeleteCollection} style={styles.deleteCollectionButton}>
+                  <Text style={styles.bookmarkActionText}>Delete collection</Text>
+                </TouchableOpacity>
+              )}
+
+              {bookmarkedPostsInCollection.length === 0 ? (
+                <View style={styles.emptyPosts}>
+                  <Text style={styles.emptyPostsText}>Nothing saved here yet</Text>
+                  <Text style={styles.emptyPostsSubtext}>Tap Save on a post in the feed to bookmark it.</Text>
+                </View>
+              ) : (
+                bookmarkedPostsInCollection.map((post) => (
+                  <View key={post.id}>
+                    {renderPost({ item: post })}
+                    <TouchableOpacity onPress={() => handleRemoveBookmark(post.id)} style={styles.removeBookmarkButton}>
+                      <Text style={styles.bookmarkActionText}>Remove bookmark</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+            </View>
+          )}
+
+          {/* Highlights Section */}
+          {(highlights.length > 0 || isEditingLayout) && (
+            <View style={styles.postsSection}>
+              <Text style={styles.sectionTitle}>✨ Highlights</Text>
+              {highlights.length > 0 && (
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  style={styles.collectionChips}
+                >
+                  {highlights.map((highlight) => {
+                    const isSelected = highlight.id === selectedHighlightId;
+                    return (
+                      <TouchableOpacity
+                        key={highlight.id}
+                        style={[styles.collectionChip, isSelected && styles.collectionChipSelected]}
+                        onPress={() => setSelectedHighlightId(isSelected ? null : highlight.id)}
+                      >
+                        <Text style={[styles.collectionChipText, isSelected && styles.collectionChipTextSelected]}>
+                          {highlight.title}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              )}
+
+              {isEditingLayout && (
+                <>
+                  <View style={styles.highlightInputRow}>
+                    <TextInput
+                      style={styles.highlightInput}
+                      value={newHighlightTitle}
+                      onChangeText={setNewHighlightTitle}
+                      placeholder="New highlight name"
+                      placeholderTextColor="rgba(255, 255, 255, 0.6)"
+                      maxLength={MAX_HIGHLIGHT_TITLE_LENGTH}
+                    />
+                    <TouchableOpacity style={styles.collectionChip} onPress={handleAddHighlight}>
+                      <Text style={styles.collectionChipText}>Add</Text>
+                    </TouchableOpacity>
+                  </View>
+                  <Text style={styles.layoutHint}>
+                    {selectedHighlight
+                      ? `Use the buttons under your posts to add them to ${selectedHighlight.title}.`
+                      : `Pin up to ${MAX_PINNED_POSTS} posts, or pick a highlight to fill it with posts.`}
+                  </Text>
+                  {selectedHighlight && (
+                    <TouchableOpacity
+                      onPress={() => handleRemoveHighlight(selectedHighlight.id)}
+                      style={styles.deleteCollectionButton}
+                    >
+                      <Text style={styles.bookmarkActionText}>Delete highlight</Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+
+              {selectedHighlight && !isEditingLayout && getHighlightPosts(userPosts, selectedHighlight).map((post) => (
+                <View key={post.id}>
+                  {renderPost({ item: post })}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Pinned Posts Section */}
+          {pinnedPosts.length > 0 && (
+            <View style={styles.postsSection}>
+              <Text style={styles.sectionTitle}>📌 Pinned</Text>
+              {pinnedPosts.map((post) => (
+                <View key={post.id}>
+                  {renderPost({ item: post })}
+                  {renderLayoutActions(post)}
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* My Posts Section */}
           <View style={styles.postsSection}>
             <Text style={styles.sectionTitle}>My Posts ({userPosts.length})</Text>
@@ -685,9 +1187,10 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
               </View>
             ) : (
               <View>
-                {userPosts.map((post) => (
+                {timelinePosts.map((post) => (
                   <View key={post.id}>
                     {renderPost({ item: post })}
+                    {renderLayoutActions(post)}
                   </View>
                 ))}
               </View>
@@ -726,7 +1229,17 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
                 </View>
 
                 <View style={styles.imageModalImageContainer}>
-                  <Image source={{ uri: selectedImage }} style={styles.fullScreenImage} resizeMode="contain" />
+                  <Image
+                    source={{ uri: selectedImage }}
+                    style={styles.fullScreenImage}
+                    resizeMode="contain"
+                    accessible
+                    accessibilityLabel={getImageAccessibilityLabel(
+                      selectedPostImages[selectedImageIndex],
+                      selectedImageIndex,
+                      selectedPostImages.length
+                    )}
+                  />
 
                   {selectedPostImages.length > 1 && (
                     <>
@@ -796,6 +1309,56 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({
           </View>
         </Modal>
         
+        {/* Edit Scheduled Post Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={!!editingScheduledPost}
+          onRequestClose={() => setEditingScheduledPost(null)}
+        >
+          <View style={styles.reportModalContainer}>
+            <LinearGradient colors={['rgba(0,0,0,0.8)', 'rgba(0,0,0,0.92)']} style={styles.reportModalGradient}>
+              <View style={styles.reportModalHeader}>
+                <Text style={styles.reportModalTitle}>Edit Scheduled Post</Text>
+                <TouchableOpacity onPress={() => setEditingScheduledPost(null)}>
+                  <Text style={styles.closeImageButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+
+              <TextInput
+                style={[styles.scheduledInput, styles.scheduledContentInput]}
+                value={scheduledContent}
+                onChangeText={setScheduledContent}
+                placeholder="What's on your mind?"
+                placeholderTextColor="rgba(255,255,255,0.6)"
+                multiline
+                maxLength={2000}
+              />
+
+              <Text style={styles.reportModalSubtitle}>Publish at (YYYY-MM-DD HH:MM):</Text>
+              <TextInput
+                style={styles.scheduledInput}
+                value={scheduledTime}
+                onChangeText={setScheduledTime}
+                placeholder="YYYY-MM-DD HH:MM"
+                placeholderTextColor="rgba(255,255,255,0.6)"
+                autoCapitalize="none"
+                maxLength={16}
+              />
+
+              <TouchableOpacity
+                style={[styles.submitReportButton, styles.saveScheduledButton]}
+                onPress={handleSaveScheduledPost}
+                disabled={savingScheduledPost}
+              >
+                <Text style={styles.submitReportButtonText}>
+                  {savingScheduledPost ? 'Saving...' : 'Save Changes'}
+                </Text>
+              </TouchableOpacity>
+            </LinearGradient>
+          </View>
+        </Modal>
+        
         {/* Navbar */}
         <Navbar activeTab={navbarTab} onTabPress={handleNavbarTabPress} user={userData} />
       </SafeAreaView>
@@ -1026,6 +1589,18 @@ const styles = StyleSheet.create({
     minHeight: 80,
     textAlignVertical: 'top',
   },
+  privacyToggle: {
+    width: '100%',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  privacyToggleValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#667eea',
+    marginBottom: 8,
+  },
   cancelButton: {
     marginTop: 10,
     paddingVertical: 10,
@@ -1151,6 +1726,22 @@ const styles = StyleSheet.create({
   postImagesContainer: {
     marginBottom: 10,
   },
+  contentWarningLabel: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(243, 156, 18, 0.15)',
+    color: '#b9770e',
+    fontSize: 13,
+    fontWeight: '600',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    marginBottom: 8,
+  },
+  embeddedPostWrapper: {
+    backgroundColor: '#667eea',
+    borderRadius: 12,
+    marginTop: 6,
+  },
   postImage: {
     width: 150,
     height: 150,
@@ -1173,6 +1764,95 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  scheduledActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  scheduledActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#667eea',
+  },
+  scheduledCancelText: {
+    color: '#b22222',
+  },
+  scheduledInput: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 10,
+    padding: 12,
+    color: '#fff',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  scheduledContentInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  collectionChips: {
+    marginBottom: 12,
+  },
+  collectionChip: {
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  collectionChipSelected: {
+    backgroundColor: 'white',
+  },
+  collectionChipText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  collectionChipTextSelected: {
+    color: '#667eea',
+  },
+  deleteCollectionButton: {
+    alignSelf: 'flex-end',
+    marginBottom: 12,
+  },
+  removeBookmarkButton: {
+    alignSelf: 'flex-end',
+    marginTop: -6,
+    marginBottom: 12,
+  },
+  bookmarkActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.85)',
+  },
+  layoutActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: -6,
+    marginBottom: 12,
+  },
+  highlightInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  highlightInput: {
+    flex: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+    fontSize: 13,
+    color: 'white',
+  },
+  layoutHint: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginBottom: 12,
+  },
+  saveScheduledButton: {
+    backgroundColor: '#667eea',
+  },
   emptyPosts: {
     backgroundColor: 'rgba(255, 255, 255, 0.95)',
     borderRadius: 12,
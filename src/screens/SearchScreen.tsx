@@ -0,0 +1,405 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Image,
+  Alert,
+  Platform,
+  ScrollView,
+  useWindowDimensions,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { SearchResult, SearchResultType, User } from '@/types';
+import { auth } from '@/services/firebase';
+import { searchAll } from '@/services/searchService';
+import { getUserData } from '@/services/postsService';
+import Navbar from '@/components/Navbar';
+
+interface SearchScreenProps {
+  onBack: () => void;
+  onNavigateToHome: () => void;
+  onNavigateToFriends: () => void;
+  onNavigateToPostsFeed: () => void;
+  onNavigateToCreatePost: () => void;
+  onNavigateToAchievements: () => void;
+  onNavigateToProfile: (userId?: string) => void;
+  onNavigateToLeaderboard?: () => void;
+}
+
+type TypeFilter = 'all' | SearchResultType;
+type DateFilter = 'any' | 'day' | 'week' | 'month' | 'year';
+
+const TYPE_FILTERS: { id: TypeFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'post', label: 'Posts' },
+  { id: 'user', label: 'People' },
+  { id: 'tag', label: 'Tags' },
+];
+
+const DATE_FILTERS: { id: DateFilter; label: string; days?: number }[] = [
+  { id: 'any', label: 'Any time' },
+  { id: 'day', label: '24 hours', days: 1 },
+  { id: 'week', label: '7 days', days: 7 },
+  { id: 'month', label: '30 days', days: 30 },
+  { id: 'year', label: 'Year', days: 365 },
+];
+
+const SearchScreen: React.FC<SearchScreenProps> = ({
+  onBack,
+  onNavigateToHome,
+  onNavigateToFriends,
+  onNavigateToPostsFeed,
+  onNavigateToCreatePost,
+  onNavigateToProfile,
+  onNavigateToLeaderboard,
+}) => {
+  const { width: viewportWidth } = useWindowDimensions();
+  const isDesktopWeb = Platform.OS === 'web' && viewportWidth >= 900;
+
+  const [searchText, setSearchText] = useState('');
+  const [submittedText, setSubmittedText] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('any');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [authors, setAuthors] = useState<{ [userId: string]: User }>({});
+  const [loading, setLoading] = useState(false);
+  const [currentUserData, setCurrentUserData] = useState<User | null>(null);
+  const currentUser = auth.currentUser;
+
+  useEffect(() => {
+    if (currentUser) {
+      getUserData(currentUser.uid).then(setCurrentUserData);
+    }
+  }, [currentUser]);
+
+  // Filters apply to the submitted text straight away
+  useEffect(() => {
+    if (!submittedText) return;
+
+    let cancelled = false;
+    const runSearch = async () => {
+      setLoading(true);
+      try {
+        const days = DATE_FILTERS.find(filter => filter.id === dateFilter)?.days;
+        const found = await searchAll(submittedText, {
+          types: typeFilter === 'all' ? undefined : [typeFilter],
+          dateRange: days ? { start: new Date(Date.now() - days * 24 * 60 * 60 * 1000) } : undefined,
+        });
+        if (cancelled) return;
+        setResults(found);
+
+        const authorIds = [...new Set(found.filter(result => result.post).map(result => result.post!.userId))];
+        const loadedAuthors = await Promise.all(authorIds.map(userId => getUserData(userId)));
+        if (cancelled) return;
+        const authorMap: { [userId: string]: User } = {};
+        loadedAuthors.forEach(author => {
+          if (author) authorMap[author.id] = author;
+        });
+        setAuthors(authorMap);
+      } catch (error: any) {
+        if (!cancelled) Alert.alert('Error', error.message || 'Search failed');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    runSearch();
+    return () => {
+      cancelled = true;
+    };
+  }, [submittedText, typeFilter, dateFilter]);
+
+  const handleSubmit = () => {
+    setSubmittedText(searchText.trim());
+    if (!searchText.trim()) setResults([]);
+  };
+
+  // Tapping a tag looks for posts with it
+  const handleTagPress = (tagName: string) => {
+    setSearchText(tagName);
+    setSubmittedText(tagName);
+    setTypeFilter('post');
+  };
+
+  const handleNavbarTabPress = (tab: string) => {
+    if (tab === 'home') onNavigateToHome();
+    else if (tab === 'explore') onNavigateToFriends();
+    else if (tab === 'posts') onNavigateToPostsFeed();
+    else if (tab === 'create') onNavigateToCreatePost();
+    else if (tab === 'leaderboard') onNavigateToLeaderboard?.();
+    else if (tab === 'profile') onNavigateToProfile();
+  };
+
+  const renderResult = ({ item }: { item: SearchResult }) => {
+    if (item.user) {
+      return (
+        <TouchableOpacity style={styles.resultCard} onPress={() => onNavigateToProfile(item.user!.id)}>
+          <Image
+            source={{ uri: item.user.profilePicture || 'https://via.placeholder.com/40' }}
+            style={styles.avatar}
+          />
+          <View style={styles.resultBody}>
+            <Text style={styles.resultTitle}>{item.user.displayName}</Text>
+            {!!item.user.bio && <Text style={styles.resultText} numberOfLines={2}>{item.user.bio}</Text>}
+          </View>
+          <Text style={styles.resultType}>Person</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (item.tag) {
+      return (
+        <TouchableOpacity style={styles.resultCard} onPress={() => handleTagPress(item.tag!.name)}>
+          <View style={styles.resultBody}>
+            <Text style={styles.resultTitle}>#{item.tag.name}</Text>
+            <Text style={styles.resultText}>
+              {item.tag.postsCount || 0} {item.tag.postsCount === 1 ? 'post' : 'posts'}
+            </Text>
+          </View>
+          <Text style={styles.resultType}>Tag</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (item.post) {
+      const author = authors[item.post.userId];
+      return (
+        <TouchableOpacity style={styles.resultCard} onPress={() => onNavigateToProfile(item.post!.userId)}>
+          <View style={styles.resultBody}>
+            <Text style={styles.resultTitle}>{author?.displayName || 'Post'}</Text>
+            <Text style={styles.resultText} numberOfLines={3}>{item.post.content}</Text>
+            <Text style={styles.resultMeta}>{item.post.createdAt.toLocaleDateString()}</Text>
+          </View>
+          <Text style={styles.resultType}>Post</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onBack}>
+            <Text style={styles.backButton}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Search</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={[styles.content, isDesktopWeb && styles.contentDesktop]}>
+          <View style={styles.searchContainer}>
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search posts, people and tags..."
+              placeholderTextColor="rgba(255, 255, 255, 0.6)"
+              value={searchText}
+              onChangeText={setSearchText}
+              onSubmitEditing={handleSubmit}
+              returnKeyType="search"
+              autoCapitalize="none"
+            />
+            <TouchableOpacity style={styles.searchButton} onPress={handleSubmit}>
+              <Text style={styles.searchButtonText}>🔍</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+            {TYPE_FILTERS.map(filter => (
+              <TouchableOpacity
+                key={filter.id}
+                style={[styles.filterTab, typeFilter === filter.id && styles.filterTabActive]}
+                onPress={() => setTypeFilter(filter.id)}
+              >
+                <Text style={[styles.filterTabText, typeFilter === filter.id && styles.filterTabTextActive]}>
+                  {filter.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+            {DATE_FILTERS.map(filter => (
+              <TouchableOpacity
+                key={filter.id}
+                style={[styles.filterTab, dateFilter === filter.id && styles.filterTabActive]}
+                onPress={() => setDateFilter(filter.id)}
+              >
+                <Text style={[styles.filterTabText, dateFilter === filter.id && styles.filterTabTextActive]}>
+                  {filter.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {loading ? (
+            <ActivityIndicator color="#fff" style={styles.loader} />
+          ) : (
+            <FlatList
+              data={results}
+              keyExtractor={item => `${item.type}_${item.id}`}
+              renderItem={renderResult}
+              contentContainerStyle={styles.listContent}
+              ListEmptyComponent={
+                <View style={styles.emptyContainer}>
+                  <Text style={styles.emptyText}>
+                    {submittedText ? 'No results found' : 'Type something and press search'}
+                  </Text>
+                </View>
+              }
+            />
+          )}
+        </View>
+
+        <Navbar activeTab="posts" onTabPress={handleNavbarTabPress} user={currentUserData} />
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    color: 'white',
+    fontSize: 16,
+  },
+  title: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 15,
+    paddingTop: 15,
+    width: '100%',
+  },
+  contentDesktop: {
+    maxWidth: 700,
+    alignSelf: 'center',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#fff',
+    marginRight: 10,
+  },
+  searchButton: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  searchButtonText: {
+    fontSize: 18,
+  },
+  filterRow: {
+    flexGrow: 0,
+    marginBottom: 10,
+  },
+  filterTab: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 10,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  filterTabActive: {
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  filterTabText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  filterTabTextActive: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  loader: {
+    marginTop: 32,
+  },
+  listContent: {
+    paddingBottom: 120,
+  },
+  resultCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  resultBody: {
+    flex: 1,
+  },
+  resultTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  resultText: {
+    color: 'rgba(255, 255, 255, 0.85)',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  resultMeta: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  resultType: {
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    marginLeft: 10,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    color: 'rgba(255, 255, 255, 0.7)',
+    fontSize: 16,
+  },
+});
+
+export default SearchScreen;
@@ -5,18 +5,26 @@ import {
   updateDoc, 
   getDocs, 
   getDoc,
-  deleteDoc,
+  setDoc,
   query, 
   where, 
   orderBy, 
   serverTimestamp,
   Timestamp,
   writeBatch,
+  WriteBatch,
+  QueryDocumentSnapshot,
   increment,
+  deleteField,
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { batchApplyRetroactiveXP } from './levelService';
-import { Tag, User } from '@/types';
+import { getPostBookmarkRefs } from './bookmarksService';
+import { queueSearchIndexWrite, queueSearchIndexDelete, getPostSearchText, getUserSearchText } from './searchService';
+import { Post, PostVisibility, ReactionType, Tag, User } from '@/types';
+import { mergeTags, normalizeTag } from '@/utils/tagUtils';
+import { getProfileLayoutWithoutPost } from '@/utils/profileHighlights';
+import { DEFAULT_CONTENT_WARNING, normalizeContentWarning } from '@/utils/contentWarnings';
 
 // Admin stats interface
 interface AdminStats {
@@ -44,6 +52,109 @@ interface BackupData {
   data: { [collectionName: string]: any[] };
 }
 
+// Tag store migration summary
+interface TagMigrationResult {
+  postsScanned: number;
+  postsUpdated: number;
+  tagsWritten: number;
+  tagsRemoved: number;
+  hashtagsMigrated: number;
+}
+
+// Post visibility backfill summary
+interface VisibilityBackfillResult {
+  postsScanned: number;
+  postsUpdated: number;
+}
+
+// Replies to comment threads migration summary
+interface ReplyMigrationResult {
+  repliesScanned: number;
+  repliesMoved: number;
+  orphansRemoved: number;
+  commentsUpdated: number;
+}
+
+// Likes to reactions migration summary
+interface ReactionMigrationResult {
+  postsScanned: number;
+  postsUpdated: number;
+  commentsScanned: number;
+  commentsUpdated: number;
+  reactionsMoved: number;
+}
+
+// Search index rebuild summary
+interface SearchIndexRebuildResult {
+  postsIndexed: number;
+  usersIndexed: number;
+  tagsIndexed: number;
+  entriesRemoved: number;
+}
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 450;
+
+const commitInChunks = async (operations: Array<(batch: WriteBatch) => void>): Promise<void> => {
+  for (let i = 0; i < operations.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    operations.slice(i, i + MAX_BATCH_WRITES).forEach(operation => operation(batch));
+    await batch.commit();
+  }
+};
+
+// Data migrations the queries of this version depend on. Each one records a `migrations/{id}`
+// document when it completes, and the admin dashboard lists the ones that have not.
+// They have to run right after the rules are deployed (see FIRESTORE_SETUP.md).
+export type RequiredMigrationId = 'postVisibility' | 'tagStore' | 'replyThreads' | 'searchIndex';
+
+export interface RequiredMigration {
+  id: RequiredMigrationId;
+  title: string;
+  description: string;
+}
+
+export const REQUIRED_MIGRATIONS: RequiredMigration[] = [
+  {
+    id: 'postVisibility',
+    title: 'Post visibility',
+    description: 'Feeds, tag pages and profiles only list posts that have a visibility; older posts stay hidden until this runs.',
+  },
+  {
+    id: 'tagStore',
+    title: 'Tag store',
+    description: 'Tag pages look posts up by their normalised tags; older posts with tags in other forms are missing from them until this runs.',
+  },
+  {
+    id: 'replyThreads',
+    title: 'Reply threads',
+    description: 'Replies in the legacy replies collection do not show under their comments until they are moved into the threads.',
+  },
+  {
+    id: 'searchIndex',
+    title: 'Search index',
+    description: 'Search and mention suggestions only find what is in the search index; existing users, posts and tags are missing until it is rebuilt. Run it after the post visibility backfill.',
+  },
+];
+
+const recordMigration = async (id: RequiredMigrationId, moderatorId: string, result: object): Promise<void> => {
+  await setDoc(doc(db, 'migrations', id), {
+    completedAt: serverTimestamp(),
+    completedBy: moderatorId,
+    result,
+  });
+};
+
+export const adminGetPendingMigrations = async (): Promise<RequiredMigration[]> => {
+  try {
+    const statusDocs = await Promise.all(REQUIRED_MIGRATIONS.map(migration => getDoc(doc(db, 'migrations', migration.id))));
+    return REQUIRED_MIGRATIONS.filter((_, index) => !statusDocs[index].exists());
+  } catch (error) {
+    console.error('Error checking migrations:', error);
+    throw error;
+  }
+};
+
 // Admin Dashboard Functions
 export const getAdminStats = async (): Promise<AdminStats> => {
   try {
@@ -343,11 +454,16 @@ export const adminDeletePost = async (postId: string, moderatorId: string): Prom
 
     // Delete the post
     batch.delete(postRef);
+    queueSearchIndexDelete(batch, 'post', postId);
 
     // Decrement owner's post count
     if (postData.userId) {
-      batch.update(doc(db, 'users', postData.userId), {
+      const authorRef = doc(db, 'users', postData.userId);
+      const authorSnap = await getDoc(authorRef);
+      const author = authorSnap.exists() ? authorSnap.data() as User : null;
+      batch.update(authorRef, {
         totalPosts: increment(-1),
+        ...(author?.pinnedPostIds || author?.highlights ? getProfileLayoutWithoutPost(author, postId) : {}),
       });
     }
 
@@ -362,8 +478,22 @@ export const adminDeletePost = async (postId: string, moderatorId: string): Prom
       }
     }
 
+    // Give back the share a repost added to its original
+    if (postData.repostOf) {
+      const originalRef = doc(db, 'posts', postData.repostOf);
+      const originalSnap = await getDoc(originalRef);
+      if (originalSnap.exists()) {
+        batch.update(originalRef, { shares: increment(-1) });
+      }
+    }
+
     await batch.commit();
 
+    // Everyone's bookmarks of the post go in batches of their own, since a popular post
+    // can have more of them than a single batch holds
+    const bookmarkRefs = await getPostBookmarkRefs(postId);
+    await commitInChunks(bookmarkRefs.map(bookmarkRef => (chunk: WriteBatch) => chunk.delete(bookmarkRef)));
+
     // Log the action
     await addDoc(collection(db, 'moderationLogs'), {
       contentId: postId,
@@ -378,13 +508,51 @@ export const adminDeletePost = async (postId: string, moderatorId: string): Prom
   }
 };
 
+/**
+ * Put a content warning on a post instead of deleting it, so its images are blurred for viewers.
+ * Replaces any warning the author set. Returns the label that was applied.
+ */
+export const adminApplyContentWarning = async (
+  postId: string,
+  label: string,
+  moderatorId: string
+): Promise<string> => {
+  try {
+    const contentWarning = normalizeContentWarning(label) || DEFAULT_CONTENT_WARNING;
+    const postRef = doc(db, 'posts', postId);
+    const postSnap = await getDoc(postRef);
+    if (!postSnap.exists()) throw new Error('Post not found');
+
+    await updateDoc(postRef, {
+      contentWarning,
+      contentWarningAppliedBy: moderatorId,
+    });
+
+    await addDoc(collection(db, 'moderationLogs'), {
+      contentId: postId,
+      contentType: 'post',
+      action: 'content_warning_applied',
+      moderatorId,
+      reason: contentWarning,
+      timestamp: serverTimestamp(),
+    });
+
+    return contentWarning;
+  } catch (error) {
+    console.error('Error applying content warning:', error);
+    throw error;
+  }
+};
+
 /**
  * Delete a tag entirely from the tags collection.
  */
 export const adminDeleteTag = async (tagId: string, moderatorId: string): Promise<void> => {
   try {
-    const tagRef = doc(db, 'tags', tagId);
-    await deleteDoc(tagRef);
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'tags', tagId));
+    queueSearchIndexDelete(batch, 'tag', tagId);
+    await batch.commit();
 
     await addDoc(collection(db, 'moderationLogs'), {
       contentId: tagId,
@@ -399,6 +567,405 @@ export const adminDeleteTag = async (tagId: string, moderatorId: string): Promis
   }
 };
 
+/**
+ * Move existing data to the canonical tag store.
+ * Normalises the tags of every post (including #hashtags in the text), rebuilds the
+ * `tags` collection from the resulting counts and folds the legacy `hashtags`
+ * collection into it. Required migration; safe to run more than once.
+ */
+export const adminMigrateTagStore = async (moderatorId: string): Promise<TagMigrationResult> => {
+  try {
+    const [postsSnapshot, tagsSnapshot, hashtagsSnapshot] = await Promise.all([
+      getDocs(collection(db, 'posts')),
+      getDocs(collection(db, 'tags')),
+      getDocs(collection(db, 'hashtags')),
+    ]);
+
+    const operations: Array<(batch: WriteBatch) => void> = [];
+    const counts = new Map<string, number>();
+    const lastUsed = new Map<string, Date>();
+    let postsUpdated = 0;
+
+    postsSnapshot.docs.forEach(postDoc => {
+      const data = postDoc.data();
+      const currentTags: string[] = data.tags || [];
+      const normalizedTags = mergeTags(currentTags, data.content || '');
+      const createdAt: Date = data.createdAt?.toDate?.() ?? new Date();
+
+      normalizedTags.forEach(tag => {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+        if (!lastUsed.has(tag) || lastUsed.get(tag)!.getTime() < createdAt.getTime()) {
+          lastUsed.set(tag, createdAt);
+        }
+      });
+
+      if (normalizedTags.join('|') !== currentTags.join('|')) {
+        postsUpdated++;
+        operations.push(batch => batch.update(postDoc.ref, { tags: normalizedTags }));
+      }
+    });
+
+    // Keep the earliest known creation date of every tag that survives normalisation
+    const createdAtByTag = new Map<string, Date>();
+    tagsSnapshot.docs.forEach(tagDoc => {
+      const tag = normalizeTag(tagDoc.id);
+      const createdAt: Date | undefined = tagDoc.data().createdAt?.toDate?.();
+      if (tag && createdAt && (!createdAtByTag.has(tag) || createdAtByTag.get(tag)!.getTime() > createdAt.getTime())) {
+        createdAtByTag.set(tag, createdAt);
+      }
+    });
+
+    let hashtagsMigrated = 0;
+    hashtagsSnapshot.docs.forEach(hashtagDoc => {
+      const tag = normalizeTag(hashtagDoc.data().name || hashtagDoc.id);
+      if (tag && !counts.has(tag)) {
+        counts.set(tag, 0);
+      }
+      hashtagsMigrated++;
+      operations.push(batch => batch.delete(hashtagDoc.ref));
+    });
+
+    let tagsRemoved = 0;
+    tagsSnapshot.docs.forEach(tagDoc => {
+      if (!counts.has(tagDoc.id)) {
+        tagsRemoved++;
+        operations.push(batch => batch.delete(tagDoc.ref));
+      }
+    });
+
+    counts.forEach((postsCount, tag) => {
+      const tagLastUsed = lastUsed.get(tag) ?? new Date();
+      operations.push(batch => batch.set(doc(db, 'tags', tag), {
+        name: tag,
+        postsCount,
+        lastUsed: tagLastUsed,
+        createdAt: createdAtByTag.get(tag) ?? tagLastUsed,
+      }));
+    });
+
+    await commitInChunks(operations);
+
+    const result: TagMigrationResult = {
+      postsScanned: postsSnapshot.size,
+      postsUpdated,
+      tagsWritten: counts.size,
+      tagsRemoved,
+      hashtagsMigrated,
+    };
+
+    await addDoc(collection(db, 'adminActions'), {
+      action: 'tag_store_migration',
+      moderatorId,
+      timestamp: serverTimestamp(),
+      result,
+    });
+    await recordMigration('tagStore', moderatorId, result);
+
+    return result;
+  } catch (error) {
+    console.error('Error migrating tag store:', error);
+    throw error;
+  }
+};
+
+/**
+ * Rebuild the search index from the posts, users and tags collections.
+ * Entries written before the index existed are added and entries whose source is
+ * gone are removed. Required migration; safe to run more than once.
+ */
+export const adminRebuildSearchIndex = async (moderatorId: string): Promise<SearchIndexRebuildResult> => {
+  try {
+    const [postsSnapshot, usersSnapshot, tagsSnapshot, indexSnapshot] = await Promise.all([
+      getDocs(collection(db, 'posts')),
+      getDocs(collection(db, 'users')),
+      getDocs(collection(db, 'tags')),
+      getDocs(collection(db, 'searchIndex')),
+    ]);
+
+    const operations: Array<(batch: WriteBatch) => void> = [];
+    const expectedEntryIds = new Set<string>();
+
+    // Plain reposts have no text of their own
+    const indexedPosts = postsSnapshot.docs.filter(postDoc => postDoc.data().repostType !== 'repost');
+    indexedPosts.forEach(postDoc => {
+      const data = postDoc.data();
+      expectedEntryIds.add(`post_${postDoc.id}`);
+      operations.push(batch => queueSearchIndexWrite(
+        batch, 'post', postDoc.id, data.userId, getPostSearchText(data as Post), data.createdAt, data.visibility || 'public'
+      ));
+    });
+
+    usersSnapshot.docs.forEach(userDoc => {
+      const data = userDoc.data();
+      expectedEntryIds.add(`user_${userDoc.id}`);
+      operations.push(batch => queueSearchIndexWrite(
+        batch, 'user', userDoc.id, userDoc.id, getUserSearchText(data as User), data.createdAt
+      ));
+    });
+
+    tagsSnapshot.docs.forEach(tagDoc => {
+      expectedEntryIds.add(`tag_${tagDoc.id}`);
+      operations.push(batch => queueSearchIndexWrite(
+        batch, 'tag', tagDoc.id, '', tagDoc.id, tagDoc.data().createdAt
+      ));
+    });
+
+    const staleEntries = indexSnapshot.docs.filter(entryDoc => !expectedEntryIds.has(entryDoc.id));
+    staleEntries.forEach(entryDoc => operations.push(batch => batch.delete(entryDoc.ref)));
+
+    await commitInChunks(operations);
+
+    const result: SearchIndexRebuildResult = {
+      postsIndexed: indexedPosts.length,
+      usersIndexed: usersSnapshot.size,
+      tagsIndexed: tagsSnapshot.size,
+      entriesRemoved: staleEntries.length,
+    };
+
+    await addDoc(collection(db, 'adminActions'), {
+      action: 'search_index_rebuild',
+      moderatorId,
+      timestamp: serverTimestamp(),
+      result,
+    });
+    await recordMigration('searchIndex', moderatorId, result);
+
+    return result;
+  } catch (error) {
+    console.error('Error rebuilding search index:', error);
+    throw error;
+  }
+};
+
+/**
+ * Stamp a visibility on posts created before it was enforced.
+ * Each post gets its author's current default, and its search entry is updated to match.
+ * Feed queries filter on the field, so unstamped posts are invisible until this has run.
+ * Required migration; safe to run more than once.
+ */
+export const adminBackfillPostVisibility = async (moderatorId: string): Promise<VisibilityBackfillResult> => {
+  try {
+    const [postsSnapshot, usersSnapshot] = await Promise.all([
+      getDocs(collection(db, 'posts')),
+      getDocs(collection(db, 'users')),
+    ]);
+
+    const defaults = new Map<string, PostVisibility>();
+    usersSnapshot.docs.forEach(userDoc => {
+      defaults.set(userDoc.id, (userDoc.data() as User).privacySettings?.postVisibility || 'public');
+    });
+
+    const operations: Array<(batch: WriteBatch) => void> = [];
+    const unstampedPosts = postsSnapshot.docs.filter(postDoc => !postDoc.data().visibility);
+    unstampedPosts.forEach(postDoc => {
+      const data = postDoc.data();
+      const visibility = defaults.get(data.userId) || 'public';
+      operations.push(batch => batch.update(postDoc.ref, { visibility }));
+      if (data.repostType !== 'repost') {
+        operations.push(batch => queueSearchIndexWrite(
+          batch, 'post', postDoc.id, data.userId, getPostSearchText(data as Post), data.createdAt, visibility
+        ));
+      }
+    });
+
+    await commitInChunks(operations);
+
+    const result: VisibilityBackfillResult = {
+      postsScanned: postsSnapshot.size,
+      postsUpdated: unstampedPosts.length,
+    };
+
+    await addDoc(collection(db, 'adminActions'), {
+      action: 'post_visibility_backfill',
+      moderatorId,
+      timestamp: serverTimestamp(),
+      result,
+    });
+    await recordMigration('postVisibility', moderatorId, result);
+
+    return result;
+  } catch (error) {
+    console.error('Error backfilling post visibility:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fold the legacy `replies` collection into the comment threads and stamp the thread
+ * fields (`depth`, `rootId`) that comment pages are queried by.
+ * Every reply becomes a comment with the same id whose `parentId` is the comment it
+ * answered; replies to comments that no longer exist are dropped.
+ * Required migration; safe to run more than once.
+ */
+export const adminMigrateRepliesToThreads = async (moderatorId: string): Promise<ReplyMigrationResult> => {
+  try {
+    const [repliesSnapshot, commentsSnapshot] = await Promise.all([
+      getDocs(collection(db, 'replies')),
+      getDocs(collection(db, 'comments')),
+    ]);
+
+    const parentById = new Map<string, string | undefined>();
+    commentsSnapshot.docs.forEach(commentDoc => parentById.set(commentDoc.id, commentDoc.data().parentId));
+    const postIdByComment = new Map<string, string>();
+    commentsSnapshot.docs.forEach(commentDoc => postIdByComment.set(commentDoc.id, commentDoc.data().postId));
+
+    const movedReplies = repliesSnapshot.docs.filter(replyDoc => postIdByComment.has(replyDoc.data().commentId));
+    movedReplies.forEach(replyDoc => parentById.set(replyDoc.id, replyDoc.data().commentId));
+
+    // Walks up to the top-level comment; the visited set guards against malformed cycles
+    const getThreadPosition = (commentId: string): { depth: number; rootId?: string } => {
+      const visited = new Set([commentId]);
+      let current = commentId;
+      let depth = 0;
+      let parentId = parentById.get(current);
+      while (parentId && parentById.has(parentId) && !visited.has(parentId)) {
+        current = parentId;
+        visited.add(current);
+        depth++;
+        parentId = parentById.get(current);
+      }
+      return depth === 0 ? { depth } : { depth, rootId: current };
+    };
+
+    const operations: Array<(batch: WriteBatch) => void> = [];
+
+    movedReplies.forEach(replyDoc => {
+      const data = replyDoc.data();
+      const { depth, rootId } = getThreadPosition(replyDoc.id);
+      operations.push(batch => batch.set(doc(db, 'comments', replyDoc.id), {
+        postId: postIdByComment.get(data.commentId),
+        parentId: data.commentId,
+        rootId,
+        depth,
+        userId: data.userId,
+        text: data.text || '',
+        likes: data.likes || 0,
+        likedBy: data.likedBy || [],
+        repliesCount: 0,
+        ...(data.mentions ? { mentions: data.mentions } : {}),
+        createdAt: data.createdAt || new Date(),
+        updatedAt: data.updatedAt || data.createdAt || new Date(),
+      }));
+    });
+    repliesSnapshot.docs.forEach(replyDoc => operations.push(batch => batch.delete(replyDoc.ref)));
+
+    // Comments readers take a missing depth as 0, so top-level comments written before
+    // threads are left as they are
+    let commentsUpdated = 0;
+    commentsSnapshot.docs.forEach(commentDoc => {
+      const data = commentDoc.data();
+      const { depth, rootId } = getThreadPosition(commentDoc.id);
+      if ((data.depth ?? 0) !== depth || data.rootId !== rootId) {
+        commentsUpdated++;
+        operations.push(batch => batch.update(commentDoc.ref, { depth, rootId: rootId ?? deleteField() }));
+      }
+    });
+
+    await commitInChunks(operations);
+
+    const result: ReplyMigrationResult = {
+      repliesScanned: repliesSnapshot.size,
+      repliesMoved: movedReplies.length,
+      orphansRemoved: repliesSnapshot.size - movedReplies.length,
+      commentsUpdated,
+    };
+
+    await addDoc(collection(db, 'adminActions'), {
+      action: 'reply_threads_migration',
+      moderatorId,
+      timestamp: serverTimestamp(),
+      result,
+    });
+    await recordMigration('replyThreads', moderatorId, result);
+
+    return result;
+  } catch (error) {
+    console.error('Error migrating replies to threads:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move likes and reactions stored on posts and comments (`likedBy` and the `reactions` map)
+ * into the `reactions` sub-collections, keeping the totals on the documents.
+ * Documents that never had `reactionCounts` get them counted from the entries being moved.
+ * Safe to run more than once: migrated documents have nothing left to move.
+ */
+export const adminMigrateLikesToReactions = async (moderatorId: string): Promise<ReactionMigrationResult> => {
+  try {
+    const [postsSnapshot, commentsSnapshot] = await Promise.all([
+      getDocs(collection(db, 'posts')),
+      getDocs(collection(db, 'comments')),
+    ]);
+
+    const operations: Array<(batch: WriteBatch) => void> = [];
+    let reactionsMoved = 0;
+
+    // Queues the writes for one document and reports whether it had anything to move
+    const queueReactionMove = (targetType: 'post' | 'comment', snapshot: QueryDocumentSnapshot): boolean => {
+      const data = snapshot.data();
+      const legacy: Record<string, ReactionType> = {};
+      (data.likedBy || []).forEach((userId: string) => {
+        legacy[userId] = 'like';
+      });
+      Object.entries(data.reactions || {}).forEach(([userId, type]) => {
+        legacy[userId] = type as ReactionType;
+      });
+
+      const entries = Object.entries(legacy);
+      if (entries.length === 0 && data.likedBy === undefined && data.reactions === undefined) return false;
+
+      entries.forEach(([userId, type]) => {
+        operations.push(batch => batch.set(doc(snapshot.ref, 'reactions', userId), {
+          userId,
+          type,
+          targetType,
+          targetId: snapshot.id,
+          createdAt: serverTimestamp(),
+        }));
+      });
+      reactionsMoved += entries.length;
+
+      const updates: Record<string, any> = { likedBy: deleteField(), reactions: deleteField() };
+      if (!data.reactionCounts) {
+        const reactionCounts: Partial<Record<ReactionType, number>> = {};
+        entries.forEach(([, type]) => {
+          reactionCounts[type] = (reactionCounts[type] || 0) + 1;
+        });
+        updates.reactionCounts = reactionCounts;
+        updates.likes = entries.length;
+      }
+      operations.push(batch => batch.update(snapshot.ref, updates));
+      return true;
+    };
+
+    const postsUpdated = postsSnapshot.docs.filter(postDoc => queueReactionMove('post', postDoc)).length;
+    const commentsUpdated = commentsSnapshot.docs.filter(commentDoc => queueReactionMove('comment', commentDoc)).length;
+
+    await commitInChunks(operations);
+
+    const result: ReactionMigrationResult = {
+      postsScanned: postsSnapshot.size,
+      postsUpdated,
+      commentsScanned: commentsSnapshot.size,
+      commentsUpdated,
+      reactionsMoved,
+    };
+
+    await addDoc(collection(db, 'adminActions'), {
+      action: 'likes_to_reactions_migration',
+      moderatorId,
+      timestamp: serverTimestamp(),
+      result,
+    });
+
+    return result;
+  } catch (error) {
+    console.error('Error migrating likes to reactions:', error);
+    throw error;
+  }
+};
+
 /**
  * Fetch all tags for admin management.
  */
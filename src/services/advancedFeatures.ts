@@ -1,6 +1,8 @@
 import { 
   collection, 
+  collectionGroup,
   doc, 
+  getDoc,
   addDoc, 
   updateDoc, 
   getDocs, 
@@ -11,12 +13,17 @@ import {
   onSnapshot,
   serverTimestamp,
   arrayUnion,
+  writeBatch,
   QuerySnapshot,
   DocumentData,
   Unsubscribe
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { Post, User } from '../types';
+import { Post, User, Tag, SearchResultType, PostVisibility } from '../types';
+import { normalizeTag } from '@/utils/tagUtils';
+import { getTrendingTags, mapPostDoc } from './postsService';
+import { searchAll, queueSearchIndexWrite } from './searchService';
+import { buildTagInterests, rankPosts } from '@/utils/feedRanking';
 
 // Interfaces for advanced features
 interface PushNotificationData {
@@ -32,14 +39,6 @@ interface RecommendedPost extends Post {
   recommendationScore: number;
 }
 
-interface Hashtag {
-  id?: string;
-  name: string;
-  usageCount: number;
-  createdAt: any;
-  lastUsed: any;
-}
-
 interface VerificationRequest {
   userId: string;
   type: 'identity' | 'business' | 'creator';
@@ -50,7 +49,7 @@ interface VerificationRequest {
 
 interface PrivacySettings {
   profileVisibility: 'public' | 'friends' | 'private';
-  postVisibility: 'public' | 'friends' | 'private';
+  postVisibility: PostVisibility;
   allowMessages: 'everyone' | 'friends' | 'none';
   allowFriendRequests: boolean;
   showOnlineStatus: boolean;
@@ -121,30 +120,65 @@ export const sendPushNotification = async (
 };
 
 // Content Recommendation Engine
+const RECOMMENDATION_CANDIDATES = 100;
+const INTEREST_SAMPLE_SIZE = 50;
+
 export const getRecommendedPosts = async (userId: string, limitCount: number = 20): Promise<RecommendedPost[]> => {
   try {
-    // Simple recommendation based on user's friends and interests
-    // In production, you'd use ML algorithms
-    
-    const postsRef = collection(db, 'posts');
-    const q = query(
-      postsRef,
-      orderBy('likes', 'desc'),
-      orderBy('createdAt', 'desc'),
-      limit(limitCount)
+    const [userDoc, candidatesSnapshot, legacyLikedSnapshot, reactionsSnapshot, commentsSnapshot] = await Promise.all([
+      getDoc(doc(db, 'users', userId)),
+      getDocs(query(
+        collection(db, 'posts'),
+        where('visibility', '==', 'public'),
+        orderBy('createdAt', 'desc'),
+        limit(RECOMMENDATION_CANDIDATES)
+      )),
+      // Posts liked before reactions moved to their own sub-collection
+      getDocs(query(
+        collection(db, 'posts'),
+        where('likedBy', 'array-contains', userId),
+        where('visibility', '==', 'public'),
+        limit(INTEREST_SAMPLE_SIZE)
+      )),
+      getDocs(query(
+        collectionGroup(db, 'reactions'),
+        where('userId', '==', userId),
+        where('targetType', '==', 'post'),
+        limit(INTEREST_SAMPLE_SIZE)
+      )),
+      getDocs(query(collection(db, 'comments'), where('userId', '==', userId), limit(INTEREST_SAMPLE_SIZE)))
+    ]);
+
+    const userData = userDoc.exists() ? userDoc.data() as User : null;
+    const candidates = candidatesSnapshot.docs.map(mapPostDoc);
+
+    // Tags of reacted and commented posts come from the candidates when possible, the rest are fetched
+    const knownTags = new Map<string, string[]>();
+    [...candidates, ...legacyLikedSnapshot.docs.map(mapPostDoc)].forEach(post => knownTags.set(post.id, post.tags || []));
+
+    const reactedPostIds = [...new Set([
+      ...legacyLikedSnapshot.docs.map(postDoc => postDoc.id),
+      ...reactionsSnapshot.docs.map(reactionDoc => reactionDoc.data().targetId as string)
+    ])];
+    const commentedPostIds = [...new Set(commentsSnapshot.docs.map(commentDoc => commentDoc.data().postId as string))];
+    const missingPostIds = [...new Set([...reactedPostIds, ...commentedPostIds])].filter(postId => !knownTags.has(postId));
+    const missingPosts = await Promise.all(missingPostIds.map(postId => getDoc(doc(db, 'posts', postId)).catch(() => null)));
+    missingPosts.forEach(postDoc => {
+      if (postDoc?.exists()) knownTags.set(postDoc.id, (postDoc.data() as Post).tags || []);
+    });
+
+    const tagInterests = buildTagInterests(
+      reactedPostIds.map(postId => knownTags.get(postId) || []),
+      commentedPostIds.map(postId => knownTags.get(postId) || [])
     );
-    
-    const querySnapshot = await getDocs(q);
-    const recommendations: RecommendedPost[] = querySnapshot.docs.map(doc => ({ 
-      id: doc.id, 
-      ...doc.data(),
-      recommendationScore: Math.random() * 100 // Simple random scoring
-    }) as RecommendedPost);
-    
-    // Track recommendation view
-    // await trackUserAction(userId, 'recommendations_viewed', { count: recommendations.length });
-    
-    return recommendations;
+
+    return rankPosts(candidates, {
+      userId,
+      followingIds: userData?.following || [],
+      friendIds: userData?.friends || [],
+      tagInterests,
+      now: Date.now()
+    }).slice(0, limitCount);
   } catch (error) {
     console.error('Error getting recommended posts:', error);
     throw error;
@@ -152,41 +186,29 @@ export const getRecommendedPosts = async (userId: string, limitCount: number = 2
 };
 
 // Hashtag System
+// Hashtags live in the same `tags` collection as post tags; the old `hashtags`
+// collection is folded into it by adminMigrateTagStore.
 export const createHashtag = async (hashtag: string): Promise<void> => {
+  const tag = normalizeTag(hashtag);
+  if (!tag) throw new Error('Invalid hashtag');
+
   try {
-    const hashtagRef = doc(db, 'hashtags', hashtag.toLowerCase());
-    await updateDoc(hashtagRef, {
-      name: hashtag,
-      usageCount: 1,
-      createdAt: serverTimestamp(),
+    // Usage counts are only changed by posts, so this just makes the tag known
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'tags', tag), {
+      name: tag,
       lastUsed: serverTimestamp()
-    });
+    }, { merge: true });
+    queueSearchIndexWrite(batch, 'tag', tag, '', tag, new Date());
+    await batch.commit();
   } catch (error) {
-    // If hashtag doesn't exist, create it
-    await addDoc(collection(db, 'hashtags'), {
-      name: hashtag,
-      usageCount: 1,
-      createdAt: serverTimestamp(),
-      lastUsed: serverTimestamp()
-    });
+    console.error('Error creating hashtag:', error);
+    throw error;
   }
 };
 
-export const getTrendingHashtags = async (limitCount: number = 10): Promise<Hashtag[]> => {
-  try {
-    const hashtagsRef = collection(db, 'hashtags');
-    const q = query(
-      hashtagsRef,
-      orderBy('usageCount', 'desc'),
-      limit(limitCount)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Hashtag);
-  } catch (error) {
-    console.error('Error getting trending hashtags:', error);
-    throw error;
-  }
+export const getTrendingHashtags = async (limitCount: number = 10): Promise<Tag[]> => {
+  return getTrendingTags(limitCount);
 };
 
 // User Verification System
@@ -326,46 +348,23 @@ export const advancedSearch = async (searchParams: SearchParams): Promise<any[]>
       query: searchQuery,
       type,
       filters = {},
-      sortBy = 'relevance',
       limit: limitCount = 20
     } = searchParams;
-    
-    let collectionName: string;
-    let searchField: string;
-    
-    switch (type) {
-      case 'users':
-        collectionName = 'users';
-        searchField = 'displayName';
-        break;
-      case 'posts':
-        collectionName = 'posts';
-        searchField = 'content';
-        break;
-      case 'hashtags':
-        collectionName = 'hashtags';
-        searchField = 'name';
-        break;
-      default:
-        throw new Error('Invalid search type');
-    }
-    
-    const collectionRef = collection(db, collectionName);
-    let q = query(
-      collectionRef,
-      where(searchField, '>=', searchQuery),
-      where(searchField, '<=', searchQuery + '\\uf8ff'),
-      limit(limitCount)
-    );
-    
-    // Apply additional filters
-    if (filters.dateRange) {
-      q = query(q, where('createdAt', '>=', filters.dateRange.start));
-      q = query(q, where('createdAt', '<=', filters.dateRange.end));
-    }
-    
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+    const resultTypes: Record<SearchParams['type'], SearchResultType> = {
+      users: 'user',
+      posts: 'post',
+      hashtags: 'tag'
+    };
+    if (!resultTypes[type]) throw new Error('Invalid search type');
+
+    // Results are ordered by relevance by the search index
+    const results = await searchAll(searchQuery, {
+      types: [resultTypes[type]],
+      dateRange: filters.dateRange,
+      limit: limitCount
+    });
+    return results.map(result => result.post || result.user || result.tag);
   } catch (error) {
     console.error('Error performing advanced search:', error);
     throw error;
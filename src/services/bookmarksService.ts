@@ -0,0 +1,317 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  getDoc,
+  writeBatch,
+  DocumentReference
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { Bookmark, BookmarkCollection, Post } from '@/types';
+import { getPostById } from './postsService';
+import { offlineService } from './offlineService';
+
+export const DEFAULT_BOOKMARK_COLLECTION_ID = 'saved';
+const MAX_COLLECTION_NAME_LENGTH = 40;
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 450;
+
+export interface BookmarkLibrary {
+  collections: BookmarkCollection[];
+  bookmarks: Bookmark[];
+  posts: Post[];
+}
+
+interface CachedBookmarkLibrary extends BookmarkLibrary {
+  userId: string;
+}
+
+// Bookmarks are keyed by user and post, so a post can only sit in one collection at a time
+const getBookmarkId = (userId: string, postId: string) => `${userId}_${postId}`;
+
+const getDefaultCollection = (userId: string): BookmarkCollection => ({
+  id: DEFAULT_BOOKMARK_COLLECTION_ID,
+  userId,
+  name: 'Saved',
+  createdAt: new Date(0),
+});
+
+const mapBookmarkDoc = (docSnap: any): Bookmark => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    createdAt: data.createdAt?.toDate() || new Date(),
+  } as Bookmark;
+};
+
+const mapCollectionDoc = (docSnap: any): BookmarkCollection => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    createdAt: data.createdAt?.toDate() || new Date(),
+  } as BookmarkCollection;
+};
+
+// JSON round-trips through AsyncStorage turn dates into strings
+const reviveCachedLibrary = (cached: CachedBookmarkLibrary): BookmarkLibrary => ({
+  collections: cached.collections.map(c => ({ ...c, createdAt: new Date(c.createdAt) })),
+  bookmarks: cached.bookmarks.map(b => ({ ...b, createdAt: new Date(b.createdAt) })),
+  posts: cached.posts.map(p => ({
+    ...p,
+    createdAt: new Date(p.createdAt),
+    updatedAt: p.updatedAt ? new Date(p.updatedAt) : undefined,
+    editedAt: p.editedAt ? new Date(p.editedAt) : undefined,
+  })),
+});
+
+const getCachedLibrary = async (userId: string): Promise<BookmarkLibrary | null> => {
+  const cached = await offlineService.getCachedData<CachedBookmarkLibrary>('BOOKMARKS');
+  if (!cached || cached.userId !== userId) return null;
+  return reviveCachedLibrary(cached);
+};
+
+const cacheLibrary = async (userId: string, library: BookmarkLibrary): Promise<void> => {
+  await offlineService.cacheData<CachedBookmarkLibrary>('BOOKMARKS', { userId, ...library });
+};
+
+export const getBookmarkCollections = async (): Promise<BookmarkCollection[]> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  if (!offlineService.isConnected()) {
+    const cached = await getCachedLibrary(currentUser.uid);
+    return cached?.collections || [getDefaultCollection(currentUser.uid)];
+  }
+
+  try {
+    const snapshot = await getDocs(collection(db, 'users', currentUser.uid, 'bookmarkCollections'));
+    const collections = snapshot.docs
+      .map(mapCollectionDoc)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return [getDefaultCollection(currentUser.uid), ...collections];
+  } catch (error) {
+    console.error('Error fetching bookmark collections:', error);
+    throw error;
+  }
+};
+
+export const createBookmarkCollection = async (name: string): Promise<BookmarkCollection> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error('Collection name cannot be empty');
+  if (trimmedName.length > MAX_COLLECTION_NAME_LENGTH) {
+    throw new Error(`Collection names can be at most ${MAX_COLLECTION_NAME_LENGTH} characters`);
+  }
+
+  try {
+    const existing = await getBookmarkCollections();
+    if (existing.some(c => c.name.toLowerCase() === trimmedName.toLowerCase())) {
+      throw new Error('You already have a collection with this name');
+    }
+
+    const collectionData = {
+      userId: currentUser.uid,
+      name: trimmedName,
+      createdAt: new Date(),
+    };
+    const docRef = await addDoc(collection(db, 'users', currentUser.uid, 'bookmarkCollections'), collectionData);
+    return { id: docRef.id, ...collectionData };
+  } catch (error) {
+    console.error('Error creating bookmark collection:', error);
+    throw error;
+  }
+};
+
+// Deleting a collection also removes the bookmarks filed under it
+export const deleteBookmarkCollection = async (collectionId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  if (collectionId === DEFAULT_BOOKMARK_COLLECTION_ID) {
+    throw new Error('The default collection cannot be deleted');
+  }
+
+  try {
+    const bookmarksSnapshot = await getDocs(
+      query(
+        collection(db, 'bookmarks'),
+        where('userId', '==', currentUser.uid),
+        where('collectionId', '==', collectionId)
+      )
+    );
+
+    const batch = writeBatch(db);
+    bookmarksSnapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+    batch.delete(doc(db, 'users', currentUser.uid, 'bookmarkCollections', collectionId));
+    await batch.commit();
+
+    const cached = await getCachedLibrary(currentUser.uid);
+    if (cached) {
+      const removedPostIds = new Set(bookmarksSnapshot.docs.map(d => d.data().postId));
+      await cacheLibrary(currentUser.uid, {
+        collections: cached.collections.filter(c => c.id !== collectionId),
+        bookmarks: cached.bookmarks.filter(b => b.collectionId !== collectionId),
+        posts: cached.posts.filter(p => !removedPostIds.has(p.id)),
+      });
+    }
+  } catch (error) {
+    console.error('Error deleting bookmark collection:', error);
+    throw error;
+  }
+};
+
+// Saves a post into a collection, or moves it there if it is already bookmarked
+export const addBookmark = async (
+  post: Post,
+  collectionId: string = DEFAULT_BOOKMARK_COLLECTION_ID
+): Promise<Bookmark> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    const bookmarkId = getBookmarkId(currentUser.uid, post.id);
+    const bookmarkData: Omit<Bookmark, 'id'> = {
+      userId: currentUser.uid,
+      postId: post.id,
+      postOwnerId: post.userId,
+      collectionId,
+      createdAt: new Date(),
+    };
+
+    await setDoc(doc(db, 'bookmarks', bookmarkId), bookmarkData);
+    const bookmark: Bookmark = { id: bookmarkId, ...bookmarkData };
+
+    const cached = await getCachedLibrary(currentUser.uid);
+    if (cached) {
+      await cacheLibrary(currentUser.uid, {
+        collections: cached.collections,
+        bookmarks: [bookmark, ...cached.bookmarks.filter(b => b.postId !== post.id)],
+        posts: [post, ...cached.posts.filter(p => p.id !== post.id)],
+      });
+    }
+
+    return bookmark;
+  } catch (error) {
+    console.error('Error adding bookmark:', error);
+    throw error;
+  }
+};
+
+export const removeBookmark = async (postId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    await deleteDoc(doc(db, 'bookmarks', getBookmarkId(currentUser.uid, postId)));
+
+    const cached = await getCachedLibrary(currentUser.uid);
+    if (cached) {
+      await cacheLibrary(currentUser.uid, {
+        collections: cached.collections,
+        bookmarks: cached.bookmarks.filter(b => b.postId !== postId),
+        posts: cached.posts.filter(p => p.id !== postId),
+      });
+    }
+  } catch (error) {
+    console.error('Error removing bookmark:', error);
+    throw error;
+  }
+};
+
+export const getBookmarks = async (): Promise<Bookmark[]> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  if (!offlineService.isConnected()) {
+    const cached = await getCachedLibrary(currentUser.uid);
+    return cached?.bookmarks || [];
+  }
+
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'bookmarks'), where('userId', '==', currentUser.uid))
+    );
+    return snapshot.docs
+      .map(mapBookmarkDoc)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error('Error fetching bookmarks:', error);
+    throw error;
+  }
+};
+
+// Posts that fail to load were either deleted or are no longer visible to the user. Only
+// bookmarks of deleted posts are removed; the others come back if the post is shared again.
+const removeDanglingBookmarks = async (userId: string, postIds: string[]): Promise<void> => {
+  try {
+    const deletedPostIds = (await Promise.all(postIds.map(async postId => {
+      try {
+        return (await getDoc(doc(db, 'posts', postId))).exists() ? null : postId;
+      } catch {
+        return null; // Still there, just not readable
+      }
+    }))).filter((postId): postId is string => !!postId);
+
+    for (let i = 0; i < deletedPostIds.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      deletedPostIds.slice(i, i + MAX_BATCH_WRITES)
+        .forEach(postId => batch.delete(doc(db, 'bookmarks', getBookmarkId(userId, postId))));
+      await batch.commit();
+    }
+  } catch (error) {
+    console.warn('Failed to remove bookmarks of deleted posts:', error);
+  }
+};
+
+// Loads collections, bookmarks and the bookmarked posts in one go and keeps a copy
+// for offline reading. Falls back to that copy when there is no connection.
+export const getBookmarkLibrary = async (): Promise<BookmarkLibrary> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  if (!offlineService.isConnected()) {
+    const cached = await getCachedLibrary(currentUser.uid);
+    return cached || { collections: [getDefaultCollection(currentUser.uid)], bookmarks: [], posts: [] };
+  }
+
+  try {
+    const [collections, bookmarks] = await Promise.all([getBookmarkCollections(), getBookmarks()]);
+    const posts = (await Promise.all(bookmarks.map(b => getPostById(b.postId))))
+      .filter((post): post is Post => !!post);
+
+    // Skip bookmarks whose post has disappeared, and delete the ones whose post was deleted
+    const postIds = new Set(posts.map(p => p.id));
+    const missingPostIds = bookmarks.map(b => b.postId).filter(postId => !postIds.has(postId));
+    if (missingPostIds.length > 0) {
+      await removeDanglingBookmarks(currentUser.uid, missingPostIds);
+    }
+    const library: BookmarkLibrary = {
+      collections,
+      bookmarks: bookmarks.filter(b => postIds.has(b.postId)),
+      posts,
+    };
+
+    await cacheLibrary(currentUser.uid, library);
+    return library;
+  } catch (error) {
+    console.error('Error loading bookmarks:', error);
+    const cached = await getCachedLibrary(currentUser.uid);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Every bookmark of a post, for admins removing the post
+export const getPostBookmarkRefs = async (postId: string): Promise<DocumentReference[]> => {
+  const snapshot = await getDocs(query(collection(db, 'bookmarks'), where('postId', '==', postId)));
+  return snapshot.docs.map(docSnap => docSnap.ref);
+};
@@ -1,5 +1,6 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { User } from '@/types';
+import { PostImage, User } from '@/types';
+import { MAX_ALT_TEXT_LENGTH, stripDataUrlPrefix } from '@/utils/imageUtils';
 
 // Initialize Gemini AI
 const GEMINI_API_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY?.trim();
@@ -217,6 +218,34 @@ Respond helpfully and concisely. If asked about their stats, use the info above.
   }
 };
 
+/**
+ * Suggest alt text for an image the user is about to post. The author reviews it before posting,
+ * so failures are reported to them rather than replaced with a canned answer.
+ */
+export const describeImage = async (image: PostImage): Promise<string> => {
+  if (!genAI) {
+    throw new Error('Image descriptions are not available right now');
+  }
+
+  const base64 = image.chunks?.length ? image.chunks.join('') : stripDataUrlPrefix(image.data);
+  if (!base64) {
+    throw new Error('This image cannot be described');
+  }
+
+  try {
+    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+    const result = await model.generateContent([
+      { inlineData: { data: base64, mimeType: image.mimeType || 'image/jpeg' } },
+      `Write alt text for this image for screen reader users. Describe what it shows in one or two plain sentences, under ${MAX_ALT_TEXT_LENGTH} characters. Do not start with "Image of" or "Picture of". Reply with the description only.`,
+    ]);
+    const text = (await result.response).text().trim().replace(/^["']|["']$/g, '');
+    return text.slice(0, MAX_ALT_TEXT_LENGTH);
+  } catch (error) {
+    console.error('Error describing image:', error);
+    throw error;
+  }
+};
+
 /**
  * Get a welcome message for new users chatting with the bot
  */
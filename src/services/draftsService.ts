@@ -0,0 +1,209 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { PostDraft, PostImage } from '@/types';
+import { normalizeImagesForFirestore, hydrateImagesFromFirestore } from '@/utils/imageUtils';
+import {
+  saveLocalDraft,
+  getLocalDrafts,
+  getLocalDraft,
+  deleteLocalDraft,
+  getPendingDraftDeletions,
+  setPendingDraftDeletions,
+  getUserSettings
+} from './offlineStorage';
+import { offlineService } from './offlineService';
+
+// Keep mirrored drafts well below the 1MB Firestore document limit
+const MAX_DRAFT_IMAGE_CHARS = 700000;
+
+const shouldMirrorDrafts = async (): Promise<boolean> => {
+  const settings = await getUserSettings();
+  return settings.syncDrafts !== false && offlineService.isConnected();
+};
+
+const mirrorDraftToFirestore = async (draft: PostDraft): Promise<void> => {
+  const normalizedImages = normalizeImagesForFirestore(draft.images);
+  const imageChars = normalizedImages.reduce((sum, img) => sum + (img.chunks?.join('').length || 0), 0);
+  const imagesLocalOnly = imageChars > MAX_DRAFT_IMAGE_CHARS;
+
+  await setDoc(doc(db, 'users', draft.userId, 'drafts', draft.id), {
+    content: draft.content,
+    tags: draft.tags,
+    images: imagesLocalOnly ? [] : normalizedImages,
+    imageCount: normalizedImages.length,
+    imagesLocalOnly,
+    createdAt: draft.createdAt,
+    updatedAt: draft.updatedAt
+  });
+};
+
+export const saveDraft = async (
+  draftId: string,
+  content: string,
+  tags: string[],
+  images: PostImage[],
+  createdAt: Date = new Date()
+): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const draft: PostDraft = {
+    id: draftId,
+    userId: currentUser.uid,
+    content,
+    tags,
+    images,
+    imageCount: images.length,
+    createdAt,
+    updatedAt: new Date()
+  };
+
+  await saveLocalDraft(draft);
+
+  const pendingDeletions = await getPendingDraftDeletions(currentUser.uid);
+  if (pendingDeletions.includes(draftId)) {
+    await setPendingDraftDeletions(currentUser.uid, pendingDeletions.filter(id => id !== draftId));
+  }
+
+  if (await shouldMirrorDrafts()) {
+    try {
+      await mirrorDraftToFirestore(draft);
+    } catch (error) {
+      // The local copy is the source of truth, so a failed mirror is not fatal
+      console.warn('Draft mirror to Firestore failed:', error);
+    }
+  }
+};
+
+// Lists local and mirrored drafts, newest first. Image data is not loaded here.
+export const getDrafts = async (): Promise<PostDraft[]> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const localDrafts = await getLocalDrafts(currentUser.uid);
+  const draftsById = new Map(localDrafts.map(draft => [draft.id, draft]));
+
+  if (await shouldMirrorDrafts()) {
+    try {
+      await syncPendingDraftDeletions();
+      const pendingDeletions = new Set(await getPendingDraftDeletions(currentUser.uid));
+      const snapshot = await getDocs(collection(db, 'users', currentUser.uid, 'drafts'));
+      snapshot.docs.filter(docSnap => !pendingDeletions.has(docSnap.id)).forEach(docSnap => {
+        const data = docSnap.data();
+        const remoteDraft: PostDraft = {
+          id: docSnap.id,
+          userId: currentUser.uid,
+          content: data.content || '',
+          tags: data.tags || [],
+          images: [],
+          imageCount: data.imageCount || 0,
+          imagesLocalOnly: data.imagesLocalOnly,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          updatedAt: data.updatedAt?.toDate() || new Date()
+        };
+        const localDraft = draftsById.get(docSnap.id);
+        if (!localDraft || localDraft.updatedAt.getTime() < remoteDraft.updatedAt.getTime()) {
+          draftsById.set(docSnap.id, remoteDraft);
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to load mirrored drafts:', error);
+    }
+  }
+
+  return Array.from(draftsById.values())
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+// Restores a draft with its images, preferring whichever copy was edited last
+export const loadDraft = async (draftId: string): Promise<PostDraft | null> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const localDraft = await getLocalDraft(currentUser.uid, draftId);
+
+  if (!(await shouldMirrorDrafts()) || (await getPendingDraftDeletions(currentUser.uid)).includes(draftId)) {
+    return localDraft;
+  }
+
+  try {
+    const remoteDoc = await getDoc(doc(db, 'users', currentUser.uid, 'drafts', draftId));
+    if (!remoteDoc.exists()) return localDraft;
+
+    const data = remoteDoc.data();
+    // Oversized images only exist on the device that created the draft
+    if (data.imagesLocalOnly && localDraft) return localDraft;
+
+    const remoteUpdatedAt: Date = data.updatedAt?.toDate() || new Date(0);
+    if (localDraft && localDraft.updatedAt.getTime() >= remoteUpdatedAt.getTime()) {
+      return localDraft;
+    }
+
+    return {
+      id: draftId,
+      userId: currentUser.uid,
+      content: data.content || '',
+      tags: data.tags || [],
+      images: hydrateImagesFromFirestore(data.images || []),
+      imageCount: data.imageCount || 0,
+      imagesLocalOnly: data.imagesLocalOnly,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: remoteUpdatedAt
+    };
+  } catch (error) {
+    console.warn('Failed to load mirrored draft:', error);
+    return localDraft;
+  }
+};
+
+// Removes the Firestore copies of drafts deleted on this device. Failed deletions stay
+// pending and are retried on the next call.
+export const syncPendingDraftDeletions = async (): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser || !offlineService.isConnected()) return;
+
+  const pendingDeletions = await getPendingDraftDeletions(currentUser.uid);
+  if (pendingDeletions.length === 0) return;
+
+  const results = await Promise.allSettled(
+    pendingDeletions.map(draftId => deleteDoc(doc(db, 'users', currentUser.uid, 'drafts', draftId)))
+  );
+  const stillPending = pendingDeletions.filter((_, index) => results[index].status === 'rejected');
+  if (stillPending.length > 0) {
+    console.warn(`Failed to delete ${stillPending.length} mirrored drafts, will retry`);
+  }
+
+  // Re-read so deletions queued while these requests were in flight are kept
+  const latestPending = await getPendingDraftDeletions(currentUser.uid);
+  await setPendingDraftDeletions(
+    currentUser.uid,
+    latestPending.filter(draftId => !pendingDeletions.includes(draftId) || stillPending.includes(draftId))
+  );
+};
+
+// The draft is gone from this device right away; its Firestore copy is deleted now or,
+// when offline or the delete fails, once the device reconnects. getDrafts hides it meanwhile.
+export const deleteDraft = async (draftId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  await deleteLocalDraft(currentUser.uid, draftId);
+
+  const pendingDeletions = await getPendingDraftDeletions(currentUser.uid);
+  if (!pendingDeletions.includes(draftId)) {
+    await setPendingDraftDeletions(currentUser.uid, [...pendingDeletions, draftId]);
+  }
+
+  await syncPendingDraftDeletions();
+};
+
+offlineService.onReconnect(() => {
+  syncPendingDraftDeletions().catch(error => console.warn('Failed to sync draft deletions:', error));
+});
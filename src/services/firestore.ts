@@ -6,7 +6,6 @@ import {
   deleteDoc, 
   getDoc, 
   getDocs, 
-  setDoc, 
   query, 
   where, 
   orderBy, 
@@ -16,7 +15,8 @@ import {
   arrayUnion, 
   arrayRemove,
   startAfter,
-  onSnapshot
+  onSnapshot,
+  writeBatch
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { 
@@ -38,7 +38,10 @@ import {
 
 // User Management
 export const createUser = async (userId: string, userData: Partial<User>): Promise<void> => {
-  await setDoc(doc(db, 'users', userId), {
+  const { queueSearchIndexWrite, getUserSearchText } = await import('./searchService');
+  const batch = writeBatch(db);
+
+  batch.set(doc(db, 'users', userId), {
     ...userData,
     xp: 0,
     level: 1,
@@ -62,6 +65,16 @@ export const createUser = async (userId: string, userData: Partial<User>): Promi
       updatedAt: serverTimestamp()
     }
   });
+  queueSearchIndexWrite(
+    batch,
+    'user',
+    userId,
+    userId,
+    getUserSearchText({ displayName: userData.displayName || '', bio: userData.bio }),
+    new Date()
+  );
+
+  await batch.commit();
 };
 
 export const getUser = async (userId: string): Promise<User | null> => {
@@ -70,7 +83,31 @@ export const getUser = async (userId: string): Promise<User | null> => {
 };
 
 export const updateUserProfile = async (userId: string, updates: Partial<User>): Promise<void> => {
-  await updateDoc(doc(db, 'users', userId), updates);
+  if (updates.displayName === undefined && updates.bio === undefined) {
+    await updateDoc(doc(db, 'users', userId), updates);
+    return;
+  }
+
+  // Name and bio are searchable, so the index entry is rewritten with them
+  const { queueSearchIndexWrite, getUserSearchText } = await import('./searchService');
+  const userDoc = await getDoc(doc(db, 'users', userId));
+  const current = userDoc.exists() ? userDoc.data() as User : null;
+  const batch = writeBatch(db);
+
+  batch.update(doc(db, 'users', userId), updates);
+  queueSearchIndexWrite(
+    batch,
+    'user',
+    userId,
+    userId,
+    getUserSearchText({
+      displayName: updates.displayName ?? current?.displayName ?? '',
+      bio: updates.bio ?? current?.bio
+    }),
+    current?.createdAt
+  );
+
+  await batch.commit();
 };
 
 export const updateUserOnlineStatus = async (userId: string, isOnline: boolean): Promise<void> => {
@@ -122,6 +159,7 @@ export const getUserXPTransactions = async (userId: string): Promise<XPTransacti
 export const createPost = async (postData: Omit<Post, 'id' | 'createdAt' | 'likes' | 'comments' | 'shares' | 'likedBy'>): Promise<string> => {
   const docRef = await addDoc(collection(db, 'posts'), {
     ...postData,
+    visibility: postData.visibility || 'public',
     likes: 0,
     comments: 0,
     shares: 0,
@@ -144,6 +182,7 @@ export const createPost = async (postData: Omit<Post, 'id' | 'createdAt' | 'like
 export const getPosts = async (pageSize: number = 20, lastPostId?: string): Promise<Post[]> => {
   let q = query(
     collection(db, 'posts'),
+    where('visibility', '==', 'public'),
     orderBy('createdAt', 'desc'),
     limit(pageSize)
   );
@@ -152,6 +191,7 @@ export const getPosts = async (pageSize: number = 20, lastPostId?: string): Prom
     const lastDoc = await getDoc(doc(db, 'posts', lastPostId));
     q = query(
       collection(db, 'posts'),
+      where('visibility', '==', 'public'),
       orderBy('createdAt', 'desc'),
       startAfter(lastDoc),
       limit(pageSize)
@@ -166,6 +206,7 @@ export const getUserPosts = async (userId: string): Promise<Post[]> => {
   const q = query(
     collection(db, 'posts'),
     where('userId', '==', userId),
+    where('visibility', '==', 'public'),
     orderBy('createdAt', 'desc')
   );
   
@@ -455,16 +496,11 @@ export const getUserFriends = async (userId: string): Promise<User[]> => {
 };
 
 // Search and Discovery
+// Matches any word of the name or bio, so "maria" finds "Ana Maria"
 export const searchUsers = async (searchTerm: string): Promise<User[]> => {
-  const q = query(
-    collection(db, 'users'),
-    where('displayName', '>=', searchTerm),
-    where('displayName', '<=', searchTerm + '\uf8ff'),
-    limit(20)
-  );
-  
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as User);
+  const { searchAll } = await import('./searchService');
+  const results = await searchAll(searchTerm, { types: ['user'], limit: 20 });
+  return results.map(result => result.user!);
 };
 
 export const getLeaderboard = async (): Promise<LeaderboardUser[]> => {
@@ -547,6 +583,7 @@ export const subscribeToUserNotifications = (userId: string, callback: (notifica
 export const subscribeToFeed = (callback: (posts: Post[]) => void) => {
   const q = query(
     collection(db, 'posts'),
+    where('visibility', '==', 'public'),
     orderBy('createdAt', 'desc'),
     limit(20)
   );
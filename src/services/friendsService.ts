@@ -9,9 +9,20 @@ import {
   query, 
   where, 
   orderBy, 
+  limit,
+  startAfter,
   onSnapshot,
   arrayUnion,
   arrayRemove,
+  increment,
+  deleteField,
+  writeBatch,
+  WriteBatch,
+  QueryConstraint,
+  QuerySnapshot,
+  QueryDocumentSnapshot,
+  DocumentSnapshot,
+  DocumentData,
   Timestamp 
 } from 'firebase/firestore';
 import { auth, db } from './firebase';
@@ -20,8 +31,14 @@ import {
   User, 
   FriendRequest, 
   DirectMessage, 
-  Conversation 
+  Conversation,
+  PostImage,
+  TypingStatus,
+  MessageReplyPreview,
+  ReactionType
 } from '@/types';
+import { normalizeImagesForFirestore, hydrateImagesFromFirestore } from '@/utils/imageUtils';
+import { getMessagePreview, messageMatchesSearch, MESSAGE_EDIT_WINDOW_MINUTES } from '@/utils/directMessages';
 
 // Friend Requests
 export const sendFriendRequest = async (toUserId: string): Promise<void> => {
@@ -289,9 +306,15 @@ export const getUserFriends = async (userId?: string): Promise<User[]> => {
 };
 
 // Direct Messages
-export const sendDirectMessage = async (toUserId: string, message: string): Promise<void> => {
+export const sendDirectMessage = async (
+  toUserId: string,
+  message: string,
+  image?: PostImage,
+  replyTo?: MessageReplyPreview
+): Promise<void> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
+  const preview = getMessagePreview({ message, image });
 
   // Get sender's display name for notification
   const senderRef = doc(db, 'users', currentUser.uid);
@@ -308,8 +331,9 @@ export const sendDirectMessage = async (toUserId: string, message: string): Prom
 
   if (!conversationDoc.exists()) {
     const newConversation = {
+      type: 'direct',
       participants: participantIds,
-      lastMessage: message,
+      lastMessage: preview,
       lastMessageAt: new Date(),
       [`unreadCount_${toUserId}`]: 1,
       [`unreadCount_${currentUser.uid}`]: 0,
@@ -319,7 +343,7 @@ export const sendDirectMessage = async (toUserId: string, message: string): Prom
   } else {
     // Update existing conversation
     await updateDoc(conversationRef, {
-      lastMessage: message,
+      lastMessage: preview,
       lastMessageAt: new Date(),
       [`unreadCount_${toUserId}`]: (conversationDoc.data()?.[`unreadCount_${toUserId}`] || 0) + 1,
     });
@@ -333,6 +357,8 @@ export const sendDirectMessage = async (toUserId: string, message: string): Prom
     message,
     read: false,
     createdAt: new Date(),
+    ...(image ? { image: normalizeImagesForFirestore([image])[0] } : {}),
+    ...(replyTo ? { replyTo } : {}),
   };
 
   await addDoc(collection(db, 'directMessages'), directMessage);
@@ -344,7 +370,7 @@ export const sendDirectMessage = async (toUserId: string, message: string): Prom
       toUserId,
       currentUser.uid,
       senderName,
-      message,
+      preview,
       conversationId
     );
   } catch (error) {
@@ -353,26 +379,147 @@ export const sendDirectMessage = async (toUserId: string, message: string): Prom
   }
 };
 
+const toDirectMessage = (messageDoc: QueryDocumentSnapshot<DocumentData>): DirectMessage => {
+  const data = messageDoc.data();
+  return {
+    id: messageDoc.id,
+    ...data,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    deliveredAt: data.deliveredAt?.toDate(),
+    readAt: data.readAt?.toDate(),
+    editedAt: data.editedAt?.toDate(),
+    image: data.image ? hydrateImagesFromFirestore([data.image])[0] : undefined,
+  } as DirectMessage;
+};
+
+// Message history is read newest first in pages; callers always get messages oldest first
+export const MESSAGES_PAGE_SIZE = 20;
+// How many messages one search call reads, since message text is not in the search index
+export const MESSAGE_SEARCH_SCAN_LIMIT = 500;
+const MESSAGE_SEARCH_BATCH_SIZE = 100;
+
+export interface ConversationMessagesOptions {
+  pageSize?: number; // Only the newest messages; loads the whole thread when omitted
+  onError?: (error: Error) => void;
+}
+
+export interface MessagePage {
+  messages: DirectMessage[];
+  hasMore: boolean;
+}
+
+export interface MessageSearchPage {
+  matches: DirectMessage[];
+  searchedBeforeId?: string; // Oldest message searched, set while older ones are left to search
+}
+
 // Get messages for a conversation
 export const getConversationMessages = (
   conversationId: string,
-  callback: (messages: DirectMessage[]) => void
+  callback: (messages: DirectMessage[]) => void,
+  options: ConversationMessagesOptions = {}
 ) => {
+  const messagesQuery = options.pageSize
+    ? query(
+        collection(db, 'directMessages'),
+        where('conversationId', '==', conversationId),
+        orderBy('createdAt', 'desc'),
+        limit(options.pageSize)
+      )
+    : query(
+        collection(db, 'directMessages'),
+        where('conversationId', '==', conversationId),
+        orderBy('createdAt', 'asc')
+      );
+
   return onSnapshot(
-    query(
+    messagesQuery,
+    (snapshot) => {
+      const messages = snapshot.docs.map(toDirectMessage);
+      callback(options.pageSize ? messages.reverse() : messages);
+    },
+    options.onError
+  );
+};
+
+// The page of messages sent just before `beforeMessageId`
+export const getOlderConversationMessages = async (
+  conversationId: string,
+  beforeMessageId: string,
+  pageSize: number = MESSAGES_PAGE_SIZE
+): Promise<MessagePage> => {
+  try {
+    const cursorDoc = await getDoc(doc(db, 'directMessages', beforeMessageId));
+    if (!cursorDoc.exists()) {
+      return { messages: [], hasMore: false };
+    }
+
+    const snapshot = await getDocs(query(
       collection(db, 'directMessages'),
       where('conversationId', '==', conversationId),
-      orderBy('createdAt', 'asc')
-    ),
-    (snapshot) => {
-      const messages = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
-      })) as DirectMessage[];
-      callback(messages);
+      orderBy('createdAt', 'desc'),
+      startAfter(cursorDoc),
+      limit(pageSize)
+    ));
+
+    return {
+      messages: snapshot.docs.map(toDirectMessage).reverse(),
+      hasMore: snapshot.docs.length === pageSize,
+    };
+  } catch (error) {
+    console.error('Error loading older messages:', error);
+    throw error;
+  }
+};
+
+// Matches among the next MESSAGE_SEARCH_SCAN_LIMIT messages sent before `beforeMessageId`
+// (the latest ones when omitted), newest first. Pass `searchedBeforeId` back to search further.
+export const searchConversationMessages = async (
+  conversationId: string,
+  searchText: string,
+  beforeMessageId?: string
+): Promise<MessageSearchPage> => {
+  if (!searchText.trim()) return { matches: [] };
+
+  try {
+    const matches: DirectMessage[] = [];
+    let cursor: DocumentSnapshot<DocumentData> | null = null;
+    let scanned = 0;
+    let reachedStart = false;
+
+    if (beforeMessageId) {
+      cursor = await getDoc(doc(db, 'directMessages', beforeMessageId));
+      if (!cursor.exists()) return { matches: [] };
     }
-  );
+
+    while (scanned < MESSAGE_SEARCH_SCAN_LIMIT) {
+      const constraints: QueryConstraint[] = [
+        where('conversationId', '==', conversationId),
+        orderBy('createdAt', 'desc'),
+        ...(cursor ? [startAfter(cursor)] : []),
+        limit(MESSAGE_SEARCH_BATCH_SIZE),
+      ];
+      const snapshot: QuerySnapshot<DocumentData> = await getDocs(query(collection(db, 'directMessages'), ...constraints));
+
+      snapshot.docs.map(toDirectMessage).forEach(message => {
+        if (messageMatchesSearch(message, searchText)) {
+          matches.push(message);
+        }
+      });
+
+      scanned += snapshot.docs.length;
+      if (snapshot.docs.length > 0) cursor = snapshot.docs[snapshot.docs.length - 1];
+      if (snapshot.docs.length < MESSAGE_SEARCH_BATCH_SIZE) {
+        reachedStart = true;
+        break;
+      }
+    }
+
+    return reachedStart || !cursor ? { matches } : { matches, searchedBeforeId: cursor.id };
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    throw error;
+  }
 };
 
 // Get user's conversations
@@ -397,16 +544,159 @@ export const getUserConversations = (callback: (conversations: Conversation[]) =
   );
 };
 
+// Editing, unsending and reactions
+const getOwnMessage = async (messageId: string, userId: string) => {
+  const messageRef = doc(db, 'directMessages', messageId);
+  const messageDoc = await getDoc(messageRef);
+  if (!messageDoc.exists()) throw new Error('Message not found');
+
+  const data = messageDoc.data();
+  if (data.fromUserId !== userId) throw new Error('You can only change your own messages');
+  if (data.unsent) throw new Error('This message was unsent');
+  return { messageRef, data };
+};
+
+// Points the conversation preview at its newest message, after that message changed
+const refreshConversationPreview = async (conversationId: string): Promise<void> => {
+  const conversationRef = doc(db, 'conversations', conversationId);
+  const [conversationDoc, latestSnapshot] = await Promise.all([
+    getDoc(conversationRef),
+    getDocs(query(
+      collection(db, 'directMessages'),
+      where('conversationId', '==', conversationId),
+      orderBy('createdAt', 'desc'),
+      limit(1)
+    )),
+  ]);
+  if (!conversationDoc.exists() || latestSnapshot.empty) return;
+
+  const latest = latestSnapshot.docs[0].data() as DirectMessage;
+  let lastMessage = getMessagePreview(latest);
+  if (isGroupConversation(conversationDoc.data() as Conversation) && latest.type !== 'system' && !latest.unsent) {
+    lastMessage = `${await getDisplayName(latest.fromUserId)}: ${lastMessage}`;
+  }
+  await updateDoc(conversationRef, { lastMessage });
+};
+
+export const editDirectMessage = async (messageId: string, newText: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const text = newText.trim();
+  if (!text) throw new Error('Message cannot be empty');
+
+  try {
+    const { messageRef, data } = await getOwnMessage(messageId, currentUser.uid);
+    const sentAt: Date = data.createdAt?.toDate() || new Date(0);
+    if (Date.now() - sentAt.getTime() >= MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000) {
+      throw new Error(`Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending`);
+    }
+    if (text === data.message) return;
+
+    await updateDoc(messageRef, { message: text, editedAt: new Date() });
+    await refreshConversationPreview(data.conversationId);
+  } catch (e) {
+    console.error('Error editing message:', e);
+    throw e;
+  }
+};
+
+// Unsend for everyone: the message stays in the thread as a tombstone without its content,
+// and replies quoting it lose their quoted text
+export const unsendDirectMessage = async (messageId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    const { messageRef, data } = await getOwnMessage(messageId, currentUser.uid);
+    await updateDoc(messageRef, {
+      unsent: true,
+      message: '',
+      image: deleteField(),
+      reactions: deleteField(),
+      replyTo: deleteField(),
+      editedAt: deleteField(),
+    });
+
+    try {
+      const quotingReplies = await getDocs(query(
+        collection(db, 'directMessages'),
+        where('conversationId', '==', data.conversationId),
+        where('replyTo.messageId', '==', messageId)
+      ));
+      await Promise.all(quotingReplies.docs.map(replyDoc =>
+        updateDoc(replyDoc.ref, { 'replyTo.message': '' })
+      ));
+    } catch (error) {
+      console.warn('Error clearing quotes of unsent message:', error);
+    }
+
+    await refreshConversationPreview(data.conversationId);
+  } catch (e) {
+    console.error('Error unsending message:', e);
+    throw e;
+  }
+};
+
+// One reaction per person and message; null removes it
+export const setMessageReaction = async (messageId: string, reaction: ReactionType | null): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    await updateDoc(doc(db, 'directMessages', messageId), {
+      [`reactions.${currentUser.uid}`]: reaction || deleteField(),
+    });
+  } catch (e) {
+    console.error('Error reacting to message:', e);
+    throw e;
+  }
+};
+
+// Read receipts and typing signals are shared only by users who show their online status
+export const sharesActivityStatus = (user?: Pick<User, 'privacySettings'> | null): boolean =>
+  user?.privacySettings?.showOnlineStatus !== false;
+
+// How many recent group messages get the reader added to their seen list
+const GROUP_READ_RECEIPT_WINDOW = 50;
+
 // Mark messages as read
 export const markMessagesAsRead = async (conversationId: string): Promise<void> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
 
+  const conversationRef = doc(db, 'conversations', conversationId);
+  const [conversationDoc, userDoc] = await Promise.all([
+    getDoc(conversationRef),
+    getDoc(doc(db, 'users', currentUser.uid)),
+  ]);
+  const sendsReceipts = sharesActivityStatus(userDoc.exists() ? (userDoc.data() as User) : null);
+
   // Reset unread count for current user
-  await updateDoc(doc(db, 'conversations', conversationId), {
+  await updateDoc(conversationRef, {
     [`unreadCount_${currentUser.uid}`]: 0,
   });
 
+  if (conversationDoc.exists() && isGroupConversation(conversationDoc.data() as Conversation)) {
+    if (!sendsReceipts) return;
+
+    const recentMessages = await getDocs(query(
+      collection(db, 'directMessages'),
+      where('conversationId', '==', conversationId),
+      orderBy('createdAt', 'desc'),
+      limit(GROUP_READ_RECEIPT_WINDOW)
+    ));
+    await Promise.all(recentMessages.docs
+      .filter(messageDoc => {
+        const data = messageDoc.data();
+        return data.fromUserId !== currentUser.uid &&
+          data.type !== 'system' &&
+          !(data.readBy || []).includes(currentUser.uid);
+      })
+      .map(messageDoc => updateDoc(messageDoc.ref, { readBy: arrayUnion(currentUser.uid) })));
+    return;
+  }
+
   // Mark messages as read
   const messagesQuery = query(
     collection(db, 'directMessages'),
@@ -416,14 +706,422 @@ export const markMessagesAsRead = async (conversationId: string): Promise<void>
   );
 
   const messagesSnapshot = await getDocs(messagesQuery);
+  const readAt = new Date();
   
   const updatePromises = messagesSnapshot.docs.map(messageDoc =>
-    updateDoc(messageDoc.ref, { read: true })
+    updateDoc(messageDoc.ref, {
+      read: true,
+      ...(sendsReceipts ? { readAt } : {}),
+      ...(!messageDoc.data().deliveredAt ? { deliveredAt: readAt } : {}),
+    })
   );
 
   await Promise.all(updatePromises);
 };
 
+// Typing Indicators
+// Each signal expires on its own, so a closed app or lost connection never leaves someone "typing"
+export const TYPING_INDICATOR_TTL_MS = 6000;
+export const TYPING_INDICATOR_REFRESH_MS = 3000;
+
+export const setTypingStatus = async (conversationId: string, isTyping: boolean): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  await setDoc(
+    doc(db, 'typingStatus', conversationId),
+    {
+      typingUntil: {
+        [currentUser.uid]: isTyping ? new Date(Date.now() + TYPING_INDICATOR_TTL_MS) : deleteField(),
+      },
+    },
+    { merge: true }
+  );
+};
+
+// Calls back with the other members whose typing signal has not expired yet
+export const subscribeToTypingStatus = (
+  conversationId: string,
+  callback: (typingUserIds: string[]) => void
+) => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) return () => {};
+
+  let typingUntil: TypingStatus['typingUntil'] = {};
+  let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const publish = () => {
+    if (expiryTimer) clearTimeout(expiryTimer);
+    expiryTimer = null;
+
+    const now = Date.now();
+    const active = Object.entries(typingUntil)
+      .filter(([userId, until]) => userId !== currentUser.uid && until.getTime() > now);
+    callback(active.map(([userId]) => userId));
+
+    if (active.length > 0) {
+      const nextExpiry = Math.min(...active.map(([, until]) => until.getTime()));
+      expiryTimer = setTimeout(publish, nextExpiry - now + 50);
+    }
+  };
+
+  const unsubscribe = onSnapshot(
+    doc(db, 'typingStatus', conversationId),
+    (snapshot) => {
+      const data = (snapshot.data() || { typingUntil: {} }) as { typingUntil?: Record<string, any> };
+      typingUntil = Object.fromEntries(
+        Object.entries(data.typingUntil || {}).map(([userId, until]) => [userId, until?.toDate?.() || new Date(0)])
+      );
+      publish();
+    },
+    (error) => {
+      console.warn('Typing indicator listener stopped:', error);
+    }
+  );
+
+  return () => {
+    if (expiryTimer) clearTimeout(expiryTimer);
+    unsubscribe();
+  };
+};
+
+// Group Conversations
+// Groups get a generated id instead of the sorted pair of participants. Admins manage the name,
+// avatar and member list; every membership change is recorded as a system message in the chat.
+export const MAX_GROUP_MEMBERS = 32;
+export const MAX_GROUP_NAME_LENGTH = 50;
+
+export const isGroupConversation = (conversation: Pick<Conversation, 'type'>): boolean =>
+  conversation.type === 'group';
+
+const getDisplayName = async (userId: string): Promise<string> => {
+  const userDoc = await getDoc(doc(db, 'users', userId));
+  return userDoc.exists() ? userDoc.data()?.displayName || 'Someone' : 'Someone';
+};
+
+const normalizeGroupName = (name: string): string => {
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error('Group name cannot be empty');
+  if (trimmedName.length > MAX_GROUP_NAME_LENGTH) {
+    throw new Error(`Group names can be at most ${MAX_GROUP_NAME_LENGTH} characters`);
+  }
+  return trimmedName;
+};
+
+// Loads a group the current user belongs to, optionally requiring them to be one of its admins
+const getGroupForMember = async (
+  conversationId: string,
+  userId: string,
+  requireAdmin: boolean = false
+): Promise<Conversation> => {
+  const conversationDoc = await getDoc(doc(db, 'conversations', conversationId));
+  if (!conversationDoc.exists()) throw new Error('Conversation not found');
+
+  const conversation = { id: conversationDoc.id, ...conversationDoc.data() } as Conversation;
+  if (!isGroupConversation(conversation)) throw new Error('This is not a group conversation');
+  if (!conversation.participants.includes(userId)) throw new Error('You are not a member of this group');
+  if (requireAdmin && !(conversation.admins || []).includes(userId)) {
+    throw new Error('Only group admins can do this');
+  }
+  return conversation;
+};
+
+// Queues a system message and returns the preview fields for the conversation update
+const queueSystemMessage = (
+  batch: WriteBatch,
+  conversationId: string,
+  fromUserId: string,
+  message: string
+) => {
+  const createdAt = new Date();
+  const systemMessage: Omit<DirectMessage, 'id'> = {
+    conversationId,
+    fromUserId,
+    toUserId: '',
+    message,
+    read: false,
+    createdAt,
+    type: 'system',
+  };
+  batch.set(doc(collection(db, 'directMessages')), systemMessage);
+  return { lastMessage: message, lastMessageAt: createdAt };
+};
+
+export const createGroupConversation = async (
+  name: string,
+  memberIds: string[],
+  avatar?: string
+): Promise<string> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const groupName = normalizeGroupName(name);
+  const participants = [
+    currentUser.uid,
+    ...Array.from(new Set(memberIds)).filter(id => id !== currentUser.uid && id !== BOT_USER_ID),
+  ];
+  if (participants.length < 2) throw new Error('Add at least one member to the group');
+  if (participants.length > MAX_GROUP_MEMBERS) {
+    throw new Error(`Groups can have at most ${MAX_GROUP_MEMBERS} members`);
+  }
+
+  try {
+    const creatorName = await getDisplayName(currentUser.uid);
+    const conversationRef = doc(collection(db, 'conversations'));
+    const batch = writeBatch(db);
+
+    const preview = queueSystemMessage(
+      batch,
+      conversationRef.id,
+      currentUser.uid,
+      `${creatorName} created the group "${groupName}"`
+    );
+    batch.set(conversationRef, {
+      type: 'group',
+      name: groupName,
+      ...(avatar ? { avatar } : {}),
+      participants,
+      admins: [currentUser.uid],
+      createdBy: currentUser.uid,
+      ...preview,
+      ...Object.fromEntries(participants.map(id => [`unreadCount_${id}`, id === currentUser.uid ? 0 : 1])),
+    });
+
+    await batch.commit();
+    return conversationRef.id;
+  } catch (e) {
+    console.error('Error creating group conversation:', e);
+    throw e;
+  }
+};
+
+export const sendGroupMessage = async (
+  conversationId: string,
+  message: string,
+  image?: PostImage,
+  replyTo?: MessageReplyPreview
+): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const conversation = await getGroupForMember(conversationId, currentUser.uid);
+  const senderName = await getDisplayName(currentUser.uid);
+  const otherMembers = conversation.participants.filter(id => id !== currentUser.uid);
+  const preview = getMessagePreview({ message, image });
+
+  const batch = writeBatch(db);
+  const groupMessage: Omit<DirectMessage, 'id'> = {
+    conversationId,
+    fromUserId: currentUser.uid,
+    toUserId: '',
+    message,
+    read: false,
+    createdAt: new Date(),
+    ...(image ? { image: normalizeImagesForFirestore([image])[0] } : {}),
+    ...(replyTo ? { replyTo } : {}),
+  };
+  batch.set(doc(collection(db, 'directMessages')), groupMessage);
+  batch.update(doc(db, 'conversations', conversationId), {
+    lastMessage: `${senderName}: ${preview}`,
+    lastMessageAt: new Date(),
+    ...Object.fromEntries(otherMembers.map(id => [`unreadCount_${id}`, increment(1)])),
+  });
+  await batch.commit();
+
+  try {
+    const { sendMessageNotification } = await import('./notificationService');
+    await Promise.all(
+      otherMembers.map(memberId =>
+        sendMessageNotification(
+          memberId,
+          currentUser.uid,
+          `${senderName} in ${conversation.name || 'your group'}`,
+          preview,
+          conversationId
+        )
+      )
+    );
+  } catch (error) {
+    console.error('Error sending group message notifications:', error);
+    // Don't fail the message send if notification fails
+  }
+};
+
+export const addGroupMembers = async (conversationId: string, userIds: string[]): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const conversation = await getGroupForMember(conversationId, currentUser.uid, true);
+  const newMemberIds = Array.from(new Set(userIds)).filter(
+    id => !conversation.participants.includes(id) && id !== BOT_USER_ID
+  );
+  if (newMemberIds.length === 0) return;
+  if (conversation.participants.length + newMemberIds.length > MAX_GROUP_MEMBERS) {
+    throw new Error(`Groups can have at most ${MAX_GROUP_MEMBERS} members`);
+  }
+
+  try {
+    const [actorName, ...newMemberNames] = await Promise.all(
+      [currentUser.uid, ...newMemberIds].map(getDisplayName)
+    );
+    const batch = writeBatch(db);
+    const preview = queueSystemMessage(
+      batch,
+      conversationId,
+      currentUser.uid,
+      `${actorName} added ${newMemberNames.join(', ')}`
+    );
+    batch.update(doc(db, 'conversations', conversationId), {
+      participants: arrayUnion(...newMemberIds),
+      ...preview,
+      ...Object.fromEntries(newMemberIds.map(id => [`unreadCount_${id}`, 1])),
+    });
+    await batch.commit();
+  } catch (e) {
+    console.error('Error adding group members:', e);
+    throw e;
+  }
+};
+
+export const removeGroupMember = async (conversationId: string, userId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+  if (userId === currentUser.uid) return leaveGroup(conversationId);
+
+  const conversation = await getGroupForMember(conversationId, currentUser.uid, true);
+  if (!conversation.participants.includes(userId)) throw new Error('This user is not in the group');
+
+  try {
+    const [actorName, removedName] = await Promise.all([currentUser.uid, userId].map(getDisplayName));
+    const batch = writeBatch(db);
+    const preview = queueSystemMessage(batch, conversationId, currentUser.uid, `${actorName} removed ${removedName}`);
+    batch.update(doc(db, 'conversations', conversationId), {
+      participants: arrayRemove(userId),
+      admins: arrayRemove(userId),
+      [`unreadCount_${userId}`]: deleteField(),
+      ...preview,
+    });
+    await batch.commit();
+  } catch (e) {
+    console.error('Error removing group member:', e);
+    throw e;
+  }
+};
+
+// When the last admin leaves, the longest-standing remaining member takes over.
+// The last member to leave deletes the group.
+export const leaveGroup = async (conversationId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const conversation = await getGroupForMember(conversationId, currentUser.uid);
+  const remainingMembers = conversation.participants.filter(id => id !== currentUser.uid);
+  const conversationRef = doc(db, 'conversations', conversationId);
+
+  try {
+    const batch = writeBatch(db);
+
+    if (remainingMembers.length === 0) {
+      batch.delete(conversationRef);
+      await batch.commit();
+      return;
+    }
+
+    const remainingAdmins = (conversation.admins || []).filter(id => id !== currentUser.uid);
+    const promotedAdminId = remainingAdmins.length === 0 ? remainingMembers[0] : null;
+    const leaverName = await getDisplayName(currentUser.uid);
+    const message = promotedAdminId
+      ? `${leaverName} left the group and made ${await getDisplayName(promotedAdminId)} an admin`
+      : `${leaverName} left the group`;
+
+    const preview = queueSystemMessage(batch, conversationId, currentUser.uid, message);
+    batch.update(conversationRef, {
+      participants: arrayRemove(currentUser.uid),
+      admins: promotedAdminId ? [promotedAdminId] : remainingAdmins,
+      [`unreadCount_${currentUser.uid}`]: deleteField(),
+      ...preview,
+    });
+    await batch.commit();
+  } catch (e) {
+    console.error('Error leaving group:', e);
+    throw e;
+  }
+};
+
+// Pass an empty avatar to remove the group photo
+export const updateGroupDetails = async (
+  conversationId: string,
+  details: { name?: string; avatar?: string }
+): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const conversation = await getGroupForMember(conversationId, currentUser.uid, true);
+  const actorName = await getDisplayName(currentUser.uid);
+  const batch = writeBatch(db);
+  const updates: Record<string, any> = {};
+
+  if (details.name !== undefined) {
+    const groupName = normalizeGroupName(details.name);
+    if (groupName !== conversation.name) {
+      updates.name = groupName;
+      Object.assign(updates, queueSystemMessage(batch, conversationId, currentUser.uid, `${actorName} renamed the group to "${groupName}"`));
+    }
+  }
+
+  if (details.avatar !== undefined && details.avatar !== (conversation.avatar || '')) {
+    updates.avatar = details.avatar || deleteField();
+    Object.assign(updates, queueSystemMessage(
+      batch,
+      conversationId,
+      currentUser.uid,
+      details.avatar ? `${actorName} changed the group photo` : `${actorName} removed the group photo`
+    ));
+  }
+
+  if (Object.keys(updates).length === 0) return;
+
+  try {
+    batch.update(doc(db, 'conversations', conversationId), updates);
+    await batch.commit();
+  } catch (e) {
+    console.error('Error updating group details:', e);
+    throw e;
+  }
+};
+
+export const setGroupAdmin = async (conversationId: string, userId: string, isAdmin: boolean): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const conversation = await getGroupForMember(conversationId, currentUser.uid, true);
+  const admins = conversation.admins || [];
+  if (!conversation.participants.includes(userId)) throw new Error('This user is not in the group');
+  if (admins.includes(userId) === isAdmin) return;
+  if (!isAdmin && admins.length === 1) throw new Error('A group needs at least one admin');
+
+  try {
+    const [actorName, memberName] = await Promise.all([currentUser.uid, userId].map(getDisplayName));
+    const batch = writeBatch(db);
+    const preview = queueSystemMessage(
+      batch,
+      conversationId,
+      currentUser.uid,
+      isAdmin
+        ? `${actorName} made ${memberName} an admin`
+        : `${actorName} removed ${memberName} as an admin`
+    );
+    batch.update(doc(db, 'conversations', conversationId), {
+      admins: isAdmin ? arrayUnion(userId) : arrayRemove(userId),
+      ...preview,
+    });
+    await batch.commit();
+  } catch (e) {
+    console.error('Error updating group admins:', e);
+    throw e;
+  }
+};
+
 // Bot-specific message handling
 import { BOT_USER_ID, getBotResponse, getTypingDelay, getWelcomeMessage } from './chatbotService';
 
@@ -476,6 +1174,7 @@ export const sendBotMessage = async (message: string): Promise<void> => {
 
   if (!conversationDoc.exists()) {
     const newConversation = {
+      type: 'direct',
       participants: participantIds,
       lastMessage: message,
       lastMessageAt: new Date(),
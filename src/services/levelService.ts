@@ -8,6 +8,7 @@ import {
   ACHIEVEMENT_DEFINITIONS,
   DailyQuest,
   DailyQuestAction,
+  ReactionType,
 } from '../types';
 import { 
   calculateLevel, 
@@ -143,6 +144,38 @@ export const awardXP = async (
   }
 };
 
+/**
+ * Take back XP awarded for an action that was undone, never going below zero
+ * @param userId - The user ID
+ * @param action - The action whose XP is revoked
+ * @returns The XP actually removed
+ */
+export const revokeXP = async (
+  userId: string,
+  action: XPSource['action']
+): Promise<number> => {
+  const userRef = doc(db, 'users', userId);
+
+  try {
+    const { getDoc } = await import('firebase/firestore');
+    const userDoc = await getDoc(userRef);
+    const currentXP = userDoc.data()?.xp || 0;
+    const xpAmount = Math.min(XP_REWARDS[action] || 0, currentXP);
+
+    if (xpAmount <= 0) return 0;
+
+    await updateDoc(userRef, {
+      xp: increment(-xpAmount),
+      level: calculateLevel(currentXP - xpAmount),
+    });
+
+    return xpAmount;
+  } catch (error) {
+    console.error('Error revoking XP:', error);
+    throw error;
+  }
+};
+
 /**
  * Check and unlock new achievements for a user
  * @param userId - The user ID
@@ -246,6 +279,15 @@ export const handleCommentReceived = async (userId: string, user: User) => {
   return { ...result, newAchievements };
 };
 
+/**
+ * Handle a received comment being removed; reverses the XP from handleCommentReceived.
+ * Achievements already unlocked are kept.
+ */
+export const handleCommentRemoved = async (userId: string) => {
+  const xpRevoked = await revokeXP(userId, 'receive_comment');
+  return { xpRevoked };
+};
+
 /**
  * Handle receiving a like on a comment
  */
@@ -259,6 +301,45 @@ export const handleCommentLikeReceived = async (userId: string, user: User) => {
   return { ...result, newAchievements };
 };
 
+/**
+ * XP action for receiving a reaction. Likes keep their separate post and comment rewards,
+ * the other reactions are worth the same on both.
+ */
+export const getReactionXPAction = (reaction: ReactionType, target: 'post' | 'comment'): XPSource['action'] => {
+  if (reaction === 'like') {
+    return target === 'post' ? 'receive_like_post' : 'receive_like_comment';
+  }
+  return `receive_reaction_${reaction}`;
+};
+
+/**
+ * Handle receiving a reaction on a post or comment
+ */
+export const handleReactionReceived = async (userId: string, reaction: ReactionType, target: 'post' | 'comment') => {
+  return awardXP(userId, getReactionXPAction(reaction, target));
+};
+
+/**
+ * Handle a received reaction being removed or changed; reverses the XP from handleReactionReceived
+ */
+export const handleReactionRemoved = async (userId: string, reaction: ReactionType, target: 'post' | 'comment') => {
+  const xpRevoked = await revokeXP(userId, getReactionXPAction(reaction, target));
+  return { xpRevoked };
+};
+
+/**
+ * Handle receiving a vote on a poll
+ */
+export const handlePollVoteReceived = async (userId: string, user: User) => {
+  const result = await awardXP(userId, 'receive_poll_vote');
+  
+  // Check for achievements
+  const updatedUser = { ...user, xp: user.xp + result.xpAwarded };
+  const newAchievements = await checkAndUnlockAchievements(userId, updatedUser);
+  
+  return { ...result, newAchievements };
+};
+
 /**
  * Handle adding a friend
  */
@@ -351,6 +432,36 @@ export const handleDailyLogin = async (userId: string, user: User) => {
   return { ...result, newAchievements };
 };
 
+/**
+ * Handle a story being posted. Only the first story of the day earns XP; the day is
+ * claimed in a transaction so two stories posted at once cannot both be rewarded.
+ */
+export const handleStoryPosted = async (userId: string) => {
+  const userRef = doc(db, 'users', userId);
+  const todayString = new Date().toDateString();
+
+  const isFirstToday = await runTransaction(db, async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists()) {
+      throw new Error('User not found');
+    }
+
+    const lastStoryDate = userDoc.data().lastStoryDate?.toDate?.();
+    if (lastStoryDate && lastStoryDate.toDateString() === todayString) {
+      return false;
+    }
+
+    transaction.update(userRef, { lastStoryDate: new Date() });
+    return true;
+  });
+
+  if (!isFirstToday) {
+    return { xpAwarded: 0, leveledUp: false };
+  }
+
+  return awardXP(userId, 'daily_story');
+};
+
 /**
  * Ensure a user has today's quest assigned.
  */
@@ -0,0 +1,103 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { Mention, PostVisibility, User } from '@/types';
+import { searchUsers, createNotification } from './firestore';
+
+const MAX_MENTION_SUGGESTIONS = 6;
+
+// Users who switched off tagging in their privacy settings cannot be mentioned
+const canBeMentioned = (user: User): boolean => user.privacySettings?.allowTagging !== false;
+
+export const searchMentionableUsers = async (searchTerm: string): Promise<User[]> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    const users = await searchUsers(searchTerm);
+    return users
+      .filter(user => user.id !== currentUser.uid && canBeMentioned(user))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  } catch (error) {
+    console.error('Error searching mentionable users:', error);
+    throw error;
+  }
+};
+
+// Builds mention entities for the users picked from autocomplete. Only users that still
+// allow tagging and whose "@displayName" actually appears in the text are kept.
+export const resolveMentions = async (text: string, mentionedUserIds: string[] = []): Promise<Mention[]> => {
+  const uniqueIds = [...new Set(mentionedUserIds)];
+  if (uniqueIds.length === 0 || !text.includes('@')) return [];
+
+  const userDocs = await Promise.all(uniqueIds.map(userId => getDoc(doc(db, 'users', userId))));
+  const users = userDocs
+    .filter(userDoc => userDoc.exists())
+    .map(userDoc => ({ id: userDoc.id, ...userDoc.data() }) as User)
+    .filter(canBeMentioned)
+    // Longer names first so "@Ana Maria" wins over "@Ana"
+    .sort((a, b) => b.displayName.length - a.displayName.length);
+
+  const mentions: Mention[] = [];
+  const isTaken = (start: number, end: number) =>
+    mentions.some(m => start < m.start + m.length && m.start < end);
+
+  for (const user of users) {
+    const token = `@${user.displayName}`;
+    let start = text.indexOf(token);
+    while (start !== -1) {
+      const end = start + token.length;
+      const endsAtBoundary = end === text.length || !/[\w\u00C0-\u024F]/.test(text[end]);
+      if (endsAtBoundary && !isTaken(start, end)) {
+        mentions.push({ userId: user.id, displayName: user.displayName, start, length: token.length });
+      }
+      start = text.indexOf(token, end);
+    }
+  }
+
+  return mentions.sort((a, b) => a.start - b.start);
+};
+
+// Users who cannot see the post are skipped, so friends-only text never reaches them
+const filterByPostAudience = async (
+  userIds: string[],
+  audience?: { visibility: PostVisibility; ownerId: string }
+): Promise<string[]> => {
+  if (!audience || audience.visibility === 'public') return userIds;
+  if (audience.visibility === 'private') return userIds.filter(userId => userId === audience.ownerId);
+
+  const ownerDoc = await getDoc(doc(db, 'users', audience.ownerId));
+  const friends = ownerDoc.exists() ? (ownerDoc.data() as User).friends || [] : [];
+  return userIds.filter(userId => userId === audience.ownerId || friends.includes(userId));
+};
+
+export const notifyMentionedUsers = async (
+  mentions: Mention[] | undefined,
+  context: 'post' | 'comment' | 'reply',
+  data: { postId: string; commentId?: string; replyId?: string },
+  audience?: { visibility: PostVisibility; ownerId: string }
+): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser || !mentions?.length) return;
+
+  const mentionedIds = [...new Set(mentions.map(m => m.userId))].filter(userId => userId !== currentUser.uid);
+  let recipients: string[];
+  try {
+    recipients = await filterByPostAudience(mentionedIds, audience);
+  } catch (error) {
+    console.warn('Could not check who can see the post, skipping mention notifications:', error);
+    return;
+  }
+
+  for (const userId of recipients) {
+    try {
+      await createNotification(userId, {
+        type: 'mention',
+        fromUserId: currentUser.uid,
+        message: `mentioned you in a ${context}`,
+        data
+      });
+    } catch (error) {
+      console.warn('Mention notification failed:', error);
+    }
+  }
+};
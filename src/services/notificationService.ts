@@ -262,6 +262,7 @@ export const sendMessageNotification = async (
 };
 
 // Listen to incoming direct messages and show local notifications on this device/browser.
+// Also marks unread messages as delivered, including ones that arrived while the app was closed.
 export const listenForIncomingMessages = (userId: string) => {
   let initialized = false;
 
@@ -269,6 +270,15 @@ export const listenForIncomingMessages = (userId: string) => {
     const q = query(collection(db, 'directMessages'), where('toUserId', '==', userId));
 
     return onSnapshot(q, async (snapshot) => {
+      snapshot.docChanges().forEach((change) => {
+        const data = change.doc.data();
+        if (change.type === 'added' && !data.read && !data.deliveredAt) {
+          updateDoc(change.doc.ref, { deliveredAt: new Date() }).catch((error) =>
+            console.warn('Error marking message as delivered:', error)
+          );
+        }
+      });
+
       if (!initialized) {
         initialized = true;
         return;
@@ -281,9 +291,11 @@ export const listenForIncomingMessages = (userId: string) => {
           fromUserId?: string;
           message?: string;
           conversationId?: string;
+          image?: unknown;
         };
+        const messagePreview = msg.message || (msg.image ? '📷 Photo' : '');
 
-        if (!msg.fromUserId || !msg.message) continue;
+        if (!msg.fromUserId || !messagePreview) continue;
 
         if (msg.conversationId && activeConversationId && msg.conversationId === activeConversationId) {
           continue;
@@ -295,7 +307,7 @@ export const listenForIncomingMessages = (userId: string) => {
             ? (senderDoc.data()?.displayName as string | undefined) || 'New message'
             : 'New message';
 
-          await sendLocalNotification(senderName, msg.message, {
+          await sendLocalNotification(senderName, messagePreview, {
             type: 'message',
             fromUserId: msg.fromUserId,
             conversationId: msg.conversationId,
@@ -3,11 +3,15 @@ import NetInfo from '@react-native-community/netinfo';
 import { 
   Post, 
   Comment, 
-  Reply,
   PostImage,
   User, 
   Notification, 
   OfflineAction, 
+  ScheduledPost,
+  PostVisibility,
+  ReactionType,
+  MessageReplyPreview,
+  DirectMessage,
   NetworkState, 
   SyncStatus 
 } from '../types';
@@ -16,9 +20,11 @@ import {
   addComment as firebaseCreateComment,
   addReply as firebaseAddReply,
   likePost as firebaseLikePost,
+  reactToPost as firebaseReactToPost,
   getPosts as firebaseGetPosts,
   getUserData as firebaseGetUser
 } from './postsService';
+import { applyReaction } from '../utils/reactions';
 
 export interface CachedData {
   posts: Post[];
@@ -34,8 +40,12 @@ export interface OfflineCacheKeys {
   ACTIONS: 'offline_actions';
   LAST_SYNC: 'last_sync_time';
   MESSAGES: 'offline_messages';
+  BOOKMARKS: 'offline_bookmarks';
+  CONVERSATION_MESSAGES: 'offline_conversation_messages';
 }
 
+type PollInput = { options: string[]; allowMultiple: boolean; expiresAt?: Date | null };
+
 // Storage keys for offline data
 const STORAGE_KEYS: OfflineCacheKeys = {
   POSTS: 'offline_posts',
@@ -43,14 +53,24 @@ const STORAGE_KEYS: OfflineCacheKeys = {
   NOTIFICATIONS: 'offline_notifications',
   ACTIONS: 'offline_actions',
   LAST_SYNC: 'last_sync_time',
-  MESSAGES: 'offline_messages'
+  MESSAGES: 'offline_messages',
+  BOOKMARKS: 'offline_bookmarks',
+  CONVERSATION_MESSAGES: 'offline_conversation_messages'
 };
 
+// Latest messages of recently opened chats, so reopening one renders before the listener answers.
+// Photos are stored without their data to keep the cache small.
+const MAX_CACHED_CONVERSATIONS = 20;
+const MAX_CACHED_MESSAGES_PER_CONVERSATION = 30;
+
+type CachedConversationMessages = Record<string, { messages: DirectMessage[]; cachedAt: number }>;
+
 class OfflineService {
   private isOnline: boolean = true;
   private syncInProgress: boolean = false;
   private syncQueue: OfflineAction[] = [];
   private syncCompletedListeners: Array<(actions: OfflineAction[]) => void> = [];
+  private reconnectListeners: Array<() => void> = [];
 
   constructor() {
     this.initializeNetworkListener();
@@ -66,6 +86,7 @@ class OfflineService {
       if (wasOffline && this.isOnline) {
         // Just came back online, sync pending actions
         this.syncOfflineActions();
+        this.reconnectListeners.forEach(listener => listener());
       }
     });
   }
@@ -90,6 +111,14 @@ class OfflineService {
     };
   }
 
+  public onReconnect(listener: () => void): () => void {
+    this.reconnectListeners.push(listener);
+
+    return () => {
+      this.reconnectListeners = this.reconnectListeners.filter((registeredListener) => registeredListener !== listener);
+    };
+  }
+
   // Cache management
   public async cacheData<T>(key: keyof OfflineCacheKeys, data: T): Promise<void> {
     try {
@@ -169,24 +198,36 @@ class OfflineService {
           chunkCount: img.chunkCount,
           mimeType: img.mimeType,
           chunked: img.chunked,
+          ...(img.altText ? { altText: img.altText } : {}),
         } as PostImage;
       })
       .filter((img) => !!img.data);
   }
 
-  public async createPost(userId: string, content: string, tags: string[] = [], images?: Array<string | PostImage>): Promise<Post> {
+  public async createPost(
+    userId: string,
+    content: string,
+    tags: string[] = [],
+    images?: Array<string | PostImage>,
+    poll?: PollInput,
+    mentionedUserIds: string[] = [],
+    visibility?: PostVisibility,
+    contentWarning?: string
+  ): Promise<Post> {
     const normalizedImages = this.normalizeOfflinePostImages(images);
 
     const postData = {
       userId,
       content,
       tags,
-      images: normalizedImages
+      images: normalizedImages,
+      visibility,
+      contentWarning
     };
 
     if (this.isOnline) {
       try {
-        await firebaseCreatePost(content, tags, normalizedImages);
+        await firebaseCreatePost(content, tags, normalizedImages, poll, mentionedUserIds, visibility, contentWarning);
         const newPost: Post = {
           id: `post_${Date.now()}`,
           ...postData,
@@ -214,6 +255,8 @@ class OfflineService {
       content,
       tags,
       images: normalizedImages,
+      visibility,
+      contentWarning,
       likes: 0,
       comments: 0,
       shares: 0,
@@ -228,7 +271,15 @@ class OfflineService {
       id: `create_post_${Date.now()}`,
       type: 'CREATE_POST',
       userId,
-      data: { content, tags, images: normalizedImages },
+      data: {
+        content,
+        tags,
+        images: normalizedImages,
+        poll: poll && { ...poll, expiresAt: poll.expiresAt ? poll.expiresAt.getTime() : null },
+        mentionedUserIds,
+        visibility,
+        contentWarning
+      },
       timestamp: Date.now()
     });
 
@@ -262,12 +313,41 @@ class OfflineService {
     await this.updatePostLikeInCache(postId, userId, true);
   }
 
-  public async createComment(postId: string, userId: string, text: string): Promise<Comment> {
+  public async reactToPost(postId: string, userId: string, reaction: ReactionType | null): Promise<void> {
+    if (this.isOnline) {
+      try {
+        await firebaseReactToPost(postId, reaction);
+        await this.updatePostReactionInCache(postId, userId, reaction);
+        return;
+      } catch (error) {
+        console.error('Error reacting to post online:', error);
+        // Fall through to offline handling
+      }
+    }
+
+    // Handle offline reaction
+    await this.addOfflineAction({
+      id: `react_post_${postId}_${Date.now()}`,
+      type: 'REACT_POST',
+      userId,
+      data: { postId, reaction },
+      timestamp: Date.now()
+    });
+
+    await this.updatePostReactionInCache(postId, userId, reaction);
+  }
+
+  public async createComment(
+    postId: string,
+    userId: string,
+    text: string,
+    mentionedUserIds: string[] = []
+  ): Promise<Comment> {
     const commentData = { postId, userId, text };
 
     if (this.isOnline) {
       try {
-        await firebaseCreateComment(postId, text);
+        await firebaseCreateComment(postId, text, mentionedUserIds);
         const newComment: Comment = {
           id: `comment_${Date.now()}`,
           postId,
@@ -275,7 +355,6 @@ class OfflineService {
           text,
           likes: 0,
           likedBy: [],
-          replies: [],
           repliesCount: 0,
           createdAt: new Date(),
           synced: true
@@ -295,7 +374,6 @@ class OfflineService {
       text,
       likes: 0,
       likedBy: [],
-      replies: [],
       repliesCount: 0,
       createdAt: new Date(),
       isLocal: true,
@@ -306,48 +384,61 @@ class OfflineService {
       id: `create_comment_${Date.now()}`,
       type: 'CREATE_COMMENT',
       userId,
-      data: { postId, text },
+      data: { postId, text, mentionedUserIds },
       timestamp: Date.now()
     });
 
     return offlineComment;
   }
 
-  public async createReply(commentId: string, userId: string, text: string): Promise<Reply> {
+  public async createReply(
+    postId: string,
+    commentId: string,
+    userId: string,
+    text: string,
+    mentionedUserIds: string[] = []
+  ): Promise<Comment> {
     if (this.isOnline) {
       try {
-        await firebaseAddReply(commentId, text);
+        await firebaseCreateComment(postId, text, mentionedUserIds, commentId);
         return {
           id: `reply_${Date.now()}`,
-          commentId,
+          postId,
+          parentId: commentId,
           userId,
           text,
           likes: 0,
           likedBy: [],
+          repliesCount: 0,
           createdAt: new Date(),
           updatedAt: new Date(),
+          synced: true
         };
       } catch (error) {
         console.error('Error creating reply online:', error);
       }
     }
 
-    const offlineReply: Reply = {
+    const offlineReply: Comment = {
       id: `offline_reply_${Date.now()}`,
-      commentId,
+      postId,
+      parentId: commentId,
       userId,
       text,
       likes: 0,
       likedBy: [],
+      repliesCount: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
+      isLocal: true,
+      synced: false
     };
 
     await this.addOfflineAction({
       id: `create_reply_${Date.now()}`,
       type: 'CREATE_REPLY',
       userId,
-      data: { commentId, text },
+      data: { commentId, text, mentionedUserIds },
       timestamp: Date.now(),
     });
 
@@ -360,12 +451,16 @@ class OfflineService {
   public async sendDirectMessage(
     fromUserId: string,
     toUserId: string,
-    message: string
+    message: string,
+    image?: PostImage,
+    replyTo?: MessageReplyPreview
   ): Promise<void> {
     const messageData = {
       fromUserId,
       toUserId,
       message,
+      ...(image ? { image } : {}),
+      ...(replyTo ? { replyTo } : {}),
       timestamp: Date.now()
     };
 
@@ -373,7 +468,7 @@ class OfflineService {
       try {
         // Import and use the actual message service
         const { sendDirectMessage: firebaseSendMessage } = await import('./friendsService');
-        await firebaseSendMessage(toUserId, message);
+        await firebaseSendMessage(toUserId, message, image, replyTo);
         
         console.log('Message sent successfully online');
         return;
@@ -397,6 +492,86 @@ class OfflineService {
     await this.cacheOutgoingMessage(messageData);
   }
 
+  /**
+   * Schedule a post, keeping it in the offline queue until it can be uploaded
+   */
+  public async schedulePost(
+    userId: string,
+    content: string,
+    tags: string[],
+    images: Array<string | PostImage> | undefined,
+    publishAt: Date,
+    mentionedUserIds: string[] = [],
+    visibility?: PostVisibility,
+    contentWarning?: string
+  ): Promise<void> {
+    const normalizedImages = this.normalizeOfflinePostImages(images);
+
+    if (this.isOnline) {
+      try {
+        const { schedulePost: firebaseSchedulePost } = await import('./scheduledPostsService');
+        await firebaseSchedulePost(content, tags, normalizedImages, publishAt, mentionedUserIds, visibility, contentWarning);
+        return;
+      } catch (error) {
+        console.error('Error scheduling post online:', error);
+        // Fall through to offline handling
+      }
+    }
+
+    await this.addOfflineAction({
+      id: `schedule_post_${Date.now()}`,
+      type: 'SCHEDULE_POST',
+      userId,
+      data: { content, tags, images: normalizedImages, publishAt: publishAt.getTime(), mentionedUserIds, visibility, contentWarning },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Scheduled posts that are still waiting in the offline queue
+   */
+  public getPendingScheduledPosts(userId: string): ScheduledPost[] {
+    return this.syncQueue
+      .filter(action => action.type === 'SCHEDULE_POST' && action.userId === userId)
+      .map(action => ({
+        id: action.id,
+        userId: action.userId,
+        content: action.data.content,
+        tags: action.data.tags || [],
+        images: this.normalizeOfflinePostImages(action.data.images),
+        publishAt: new Date(action.data.publishAt),
+        visibility: action.data.visibility,
+        contentWarning: action.data.contentWarning,
+        status: 'scheduled' as const,
+        createdAt: new Date(action.timestamp),
+        isLocal: true
+      }));
+  }
+
+  public async updatePendingScheduledPost(
+    actionId: string,
+    updates: { content?: string; tags?: string[]; publishAt?: Date }
+  ): Promise<void> {
+    this.syncQueue = this.syncQueue.map(action => {
+      if (action.id !== actionId) return action;
+      return {
+        ...action,
+        data: {
+          ...action.data,
+          ...(updates.content !== undefined && { content: updates.content }),
+          ...(updates.tags !== undefined && { tags: updates.tags }),
+          ...(updates.publishAt !== undefined && { publishAt: updates.publishAt.getTime() })
+        }
+      };
+    });
+    await this.saveOfflineActions();
+  }
+
+  public async cancelPendingScheduledPost(actionId: string): Promise<void> {
+    this.syncQueue = this.syncQueue.filter(action => action.id !== actionId);
+    await this.saveOfflineActions();
+  }
+
   /**
    * Cache outgoing message locally
    */
@@ -419,6 +594,38 @@ class OfflineService {
     }
   }
 
+  // Conversation message cache
+  public async cacheConversationMessages(conversationId: string, messages: DirectMessage[]): Promise<void> {
+    const cached = await this.getCachedData<CachedConversationMessages>('CONVERSATION_MESSAGES') || {};
+    cached[conversationId] = {
+      messages: messages
+        .filter(message => !message.id.startsWith('offline_'))
+        .slice(-MAX_CACHED_MESSAGES_PER_CONVERSATION)
+        .map(message => message.image
+          ? { ...message, image: { ...message.image, data: '', chunks: undefined, chunked: false } }
+          : message),
+      cachedAt: Date.now()
+    };
+
+    const mostRecent = Object.entries(cached)
+      .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+      .slice(0, MAX_CACHED_CONVERSATIONS);
+    await this.cacheData('CONVERSATION_MESSAGES', Object.fromEntries(mostRecent));
+  }
+
+  public async getCachedConversationMessages(conversationId: string): Promise<DirectMessage[]> {
+    const cached = await this.getCachedData<CachedConversationMessages>('CONVERSATION_MESSAGES');
+    const toDate = (value?: Date | string) => value ? new Date(value) : undefined;
+
+    return (cached?.[conversationId]?.messages || []).map(message => ({
+      ...message,
+      createdAt: new Date(message.createdAt),
+      deliveredAt: toDate(message.deliveredAt),
+      readAt: toDate(message.readAt),
+      editedAt: toDate(message.editedAt),
+    }));
+  }
+
   // Cache helpers
   private async addPostToCache(post: Post): Promise<void> {
     const cachedPosts = await this.getCachedData<Post[]>('POSTS') || [];
@@ -427,21 +634,14 @@ class OfflineService {
   }
 
   private async updatePostLikeInCache(postId: string, userId: string, liked: boolean): Promise<void> {
+    await this.updatePostReactionInCache(postId, userId, liked ? 'like' : null);
+  }
+
+  private async updatePostReactionInCache(postId: string, userId: string, reaction: ReactionType | null): Promise<void> {
     const cachedPosts = await this.getCachedData<Post[]>('POSTS') || [];
-    const updatedPosts = cachedPosts.map(post => {
-      if (post.id === postId) {
-        const likedBy = post.likedBy || [];
-        return {
-          ...post,
-          likes: liked ? post.likes + 1 : post.likes - 1,
-          likedBy: liked 
-            ? [...likedBy, userId]
-            : likedBy.filter(id => id !== userId),
-          isLocallyModified: true
-        };
-      }
-      return post;
-    });
+    const updatedPosts = cachedPosts.map(post =>
+      post.id === postId ? { ...applyReaction(post, userId, reaction), isLocallyModified: true } : post
+    );
     await this.cacheData('POSTS', updatedPosts);
   }
 
@@ -549,27 +749,55 @@ class OfflineService {
         await firebaseCreatePost(
           action.data.content,
           action.data.tags || [],
-          this.normalizeOfflinePostImages(action.data.images)
+          this.normalizeOfflinePostImages(action.data.images),
+          action.data.poll
+            ? { ...action.data.poll, expiresAt: action.data.poll.expiresAt ? new Date(action.data.poll.expiresAt) : null }
+            : undefined,
+          action.data.mentionedUserIds || [],
+          action.data.visibility,
+          action.data.contentWarning
         );
         break;
       
       case 'LIKE_POST':
         await firebaseLikePost(action.data.postId);
         break;
+
+      case 'REACT_POST':
+        await firebaseReactToPost(action.data.postId, action.data.reaction);
+        break;
       
       case 'CREATE_COMMENT':
-        await firebaseCreateComment(action.data.postId, action.data.text);
+        await firebaseCreateComment(action.data.postId, action.data.text, action.data.mentionedUserIds || []);
         break;
 
       case 'CREATE_REPLY':
-        await firebaseAddReply(action.data.commentId, action.data.text);
+        await firebaseAddReply(action.data.commentId, action.data.text, action.data.mentionedUserIds || []);
         break;
 
       case 'SEND_MESSAGE':
         const { sendDirectMessage: firebaseSendMessage } = await import('./friendsService');
-        await firebaseSendMessage(action.data.toUserId, action.data.message);
+        await firebaseSendMessage(
+          action.data.toUserId,
+          action.data.message,
+          action.data.image ? this.normalizeOfflinePostImages([action.data.image])[0] : undefined,
+          action.data.replyTo
+        );
         console.log('Offline message synced successfully');
         break;
+
+      case 'SCHEDULE_POST':
+        const { schedulePost: firebaseSchedulePost } = await import('./scheduledPostsService');
+        await firebaseSchedulePost(
+          action.data.content,
+          action.data.tags || [],
+          this.normalizeOfflinePostImages(action.data.images),
+          new Date(action.data.publishAt),
+          action.data.mentionedUserIds || [],
+          action.data.visibility,
+          action.data.contentWarning
+        );
+        break;
       
       default:
         console.warn(`Unknown action type: ${action.type}`);
@@ -606,14 +834,22 @@ export const offlineService = new OfflineService();
 // Export individual functions for easier usage
 export const isOnline = (): boolean => offlineService.isConnected();
 export const getPosts = (forceOnline?: boolean): Promise<Post[]> => offlineService.getPosts(forceOnline);
-export const createPost = (userId: string, content: string, tags: string[] = [], images?: Array<string | PostImage>): Promise<Post> => 
-  offlineService.createPost(userId, content, tags, images);
+export const createPost = (
+  userId: string,
+  content: string,
+  tags: string[] = [],
+  images?: Array<string | PostImage>,
+  poll?: PollInput,
+  mentionedUserIds?: string[],
+  visibility?: PostVisibility,
+  contentWarning?: string
+): Promise<Post> => offlineService.createPost(userId, content, tags, images, poll, mentionedUserIds, visibility, contentWarning);
 export const likePost = (postId: string, userId: string): Promise<void> => 
   offlineService.likePost(postId, userId);
-export const createComment = (postId: string, userId: string, text: string): Promise<Comment> => 
-  offlineService.createComment(postId, userId, text);
-export const createReply = (commentId: string, userId: string, text: string): Promise<Reply> =>
-  offlineService.createReply(commentId, userId, text);
+export const createComment = (postId: string, userId: string, text: string, mentionedUserIds?: string[]): Promise<Comment> => 
+  offlineService.createComment(postId, userId, text, mentionedUserIds);
+export const createReply = (postId: string, commentId: string, userId: string, text: string, mentionedUserIds?: string[]): Promise<Comment> =>
+  offlineService.createReply(postId, commentId, userId, text, mentionedUserIds);
 export const getUser = (userId: string): Promise<User | null> => offlineService.getUser(userId);
 export const syncOfflineActions = (): Promise<void> => offlineService.syncOfflineActions();
 export const getSyncStatus = (): Promise<SyncStatus> => offlineService.getSyncStatus();
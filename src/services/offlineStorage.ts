@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Post, Comment, User } from '../types';
+import { Post, Comment, User, PostDraft, PostImage, SensitiveMediaPreference } from '../types';
+import { normalizeImagesForFirestore, hydrateImagesFromFirestore } from '../utils/imageUtils';
 
 // Storage Keys interface
 interface StorageKeys {
@@ -13,6 +14,9 @@ interface StorageKeys {
   APP_DATA: string;
   USER_SETTINGS: string;
   MESSAGES_CACHE: string;
+  DRAFTS: string;
+  DRAFT_IMAGE_CHUNK: string;
+  PENDING_DRAFT_DELETIONS: string;
 }
 
 // Cache item interface
@@ -29,6 +33,8 @@ interface UserSettings {
   autoSync: boolean;
   cacheImages: boolean;
   offlineMode: boolean;
+  syncDrafts: boolean;
+  sensitiveMedia: SensitiveMediaPreference;
 }
 
 // Storage info interface
@@ -55,7 +61,10 @@ const STORAGE_KEYS: StorageKeys = {
   LAST_SYNC: 'last_sync',
   APP_DATA: 'app_data',
   USER_SETTINGS: 'user_settings',
-  MESSAGES_CACHE: 'messages_cache'
+  MESSAGES_CACHE: 'messages_cache',
+  DRAFTS: 'post_drafts_',
+  DRAFT_IMAGE_CHUNK: 'draft_image_',
+  PENDING_DRAFT_DELETIONS: 'pending_draft_deletions_'
 };
 
 // Cache Management
@@ -153,12 +162,136 @@ export const updatePostInCache = async (postId: string, updates: Partial<Post>):
 };
 
 // Comments Cache
-export const cacheComments = async (postId: string, comments: Comment[]): Promise<void> => {
-  await cacheData(`${STORAGE_KEYS.COMMENTS_CACHE}${postId}`, comments, 30);
+// Kept for a week so a post reopened offline still shows the comments that were last loaded
+export const cacheComments = async <T extends Comment>(postId: string, comments: T[]): Promise<void> => {
+  await cacheData(`${STORAGE_KEYS.COMMENTS_CACHE}${postId}`, comments, 7 * 24 * 60);
 };
 
-export const getCachedComments = async (postId: string): Promise<Comment[]> => {
-  return await getCachedData<Comment[]>(`${STORAGE_KEYS.COMMENTS_CACHE}${postId}`) || [];
+export const getCachedComments = async <T extends Comment = Comment>(postId: string): Promise<T[]> => {
+  const comments = await getCachedData<T[]>(`${STORAGE_KEYS.COMMENTS_CACHE}${postId}`) || [];
+  return comments.map(comment => ({
+    ...comment,
+    createdAt: new Date(comment.createdAt),
+    updatedAt: comment.updatedAt ? new Date(comment.updatedAt) : undefined,
+  }));
+};
+
+// Post Drafts
+// The draft index only keeps metadata; every base64 chunk is stored under its own key
+// so a draft with several photos never hits the per-entry AsyncStorage size limit.
+const getDraftChunkPrefix = (draftId: string): string => `${STORAGE_KEYS.DRAFT_IMAGE_CHUNK}${draftId}_`;
+
+const getDraftIndex = async (userId: string): Promise<PostDraft[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(`${STORAGE_KEYS.DRAFTS}${userId}`);
+    if (!stored) return [];
+    return (JSON.parse(stored) as PostDraft[]).map(draft => ({
+      ...draft,
+      createdAt: new Date(draft.createdAt),
+      updatedAt: new Date(draft.updatedAt)
+    }));
+  } catch (error) {
+    console.error('Error getting draft index:', error);
+    return [];
+  }
+};
+
+const removeDraftChunks = async (draftId: string, keepKeys: string[] = []): Promise<void> => {
+  const keys = await AsyncStorage.getAllKeys();
+  const staleKeys = keys.filter(key => key.startsWith(getDraftChunkPrefix(draftId)) && !keepKeys.includes(key));
+  if (staleKeys.length > 0) {
+    await AsyncStorage.multiRemove(staleKeys);
+  }
+};
+
+export const saveLocalDraft = async (draft: PostDraft): Promise<void> => {
+  try {
+    const chunkedImages = normalizeImagesForFirestore(draft.images);
+    const chunkEntries: [string, string][] = [];
+
+    const imageMetadata: PostImage[] = chunkedImages.map((image, imageIndex) => {
+      (image.chunks || []).forEach((chunk, chunkIndex) => {
+        chunkEntries.push([`${getDraftChunkPrefix(draft.id)}${imageIndex}_${chunkIndex}`, chunk]);
+      });
+      return { ...image, chunks: undefined };
+    });
+
+    if (chunkEntries.length > 0) {
+      await AsyncStorage.multiSet(chunkEntries);
+    }
+    await removeDraftChunks(draft.id, chunkEntries.map(([key]) => key));
+
+    const drafts = await getDraftIndex(draft.userId);
+    const updatedDrafts = [
+      { ...draft, images: imageMetadata, imageCount: imageMetadata.length },
+      ...drafts.filter(existing => existing.id !== draft.id)
+    ];
+    await AsyncStorage.setItem(`${STORAGE_KEYS.DRAFTS}${draft.userId}`, JSON.stringify(updatedDrafts));
+  } catch (error) {
+    console.error('Error saving draft:', error);
+  }
+};
+
+// Returns drafts without image data; use getLocalDraft to restore a single draft
+export const getLocalDrafts = async (userId: string): Promise<PostDraft[]> => {
+  const drafts = await getDraftIndex(userId);
+  return drafts.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const getLocalDraft = async (userId: string, draftId: string): Promise<PostDraft | null> => {
+  try {
+    const drafts = await getDraftIndex(userId);
+    const draft = drafts.find(item => item.id === draftId);
+    if (!draft) return null;
+
+    const images = await Promise.all(
+      draft.images.map(async (image, imageIndex) => {
+        const chunkKeys = Array.from(
+          { length: image.chunkCount || 0 },
+          (_, chunkIndex) => `${getDraftChunkPrefix(draftId)}${imageIndex}_${chunkIndex}`
+        );
+        const storedChunks = await AsyncStorage.multiGet(chunkKeys);
+        return { ...image, chunks: storedChunks.map(([, value]) => value || '') };
+      })
+    );
+
+    return { ...draft, images: hydrateImagesFromFirestore(images) };
+  } catch (error) {
+    console.error('Error loading draft:', error);
+    return null;
+  }
+};
+
+export const deleteLocalDraft = async (userId: string, draftId: string): Promise<void> => {
+  try {
+    const drafts = await getDraftIndex(userId);
+    await AsyncStorage.setItem(
+      `${STORAGE_KEYS.DRAFTS}${userId}`,
+      JSON.stringify(drafts.filter(draft => draft.id !== draftId))
+    );
+    await removeDraftChunks(draftId);
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+  }
+};
+
+// Drafts deleted on this device whose Firestore copy has not been removed yet
+export const getPendingDraftDeletions = async (userId: string): Promise<string[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(`${STORAGE_KEYS.PENDING_DRAFT_DELETIONS}${userId}`);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error getting pending draft deletions:', error);
+    return [];
+  }
+};
+
+export const setPendingDraftDeletions = async (userId: string, draftIds: string[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(`${STORAGE_KEYS.PENDING_DRAFT_DELETIONS}${userId}`, JSON.stringify(draftIds));
+  } catch (error) {
+    console.error('Error saving pending draft deletions:', error);
+  }
 };
 
 // Leaderboard Cache
@@ -269,25 +402,24 @@ export const saveUserSettings = async (settings: UserSettings): Promise<void> =>
   }
 };
 
+const DEFAULT_USER_SETTINGS: UserSettings = {
+  notifications: true,
+  soundEffects: true,
+  autoSync: true,
+  cacheImages: true,
+  offlineMode: true,
+  syncDrafts: true,
+  sensitiveMedia: 'blur'
+};
+
+// Settings saved by older versions are missing newer keys, which fall back to their defaults
 export const getUserSettings = async (): Promise<UserSettings> => {
   try {
     const settings = await AsyncStorage.getItem(STORAGE_KEYS.USER_SETTINGS);
-    return settings ? JSON.parse(settings) : {
-      notifications: true,
-      soundEffects: true,
-      autoSync: true,
-      cacheImages: true,
-      offlineMode: true
-    };
+    return settings ? { ...DEFAULT_USER_SETTINGS, ...JSON.parse(settings) } : DEFAULT_USER_SETTINGS;
   } catch (error) {
     console.error('Error getting user settings:', error);
-    return {
-      notifications: true,
-      soundEffects: true,
-      autoSync: true,
-      cacheImages: true,
-      offlineMode: true
-    };
+    return DEFAULT_USER_SETTINGS;
   }
 };
 
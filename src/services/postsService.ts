@@ -17,17 +17,32 @@ import {
   arrayRemove,
   serverTimestamp,
   increment,
-  writeBatch
+  deleteField,
+  writeBatch,
+  runTransaction,
+  QueryDocumentSnapshot,
+  DocumentReference,
+  DocumentSnapshot,
+  SetOptions
 } from 'firebase/firestore';
 import { auth, db } from './firebase';
-import { Post, Comment, Reply, Tag, User } from '@/types';
+import { Post, PostRevision, PostImage, PostPoll, PostVisibility, PollVote, Comment, CommentRevision, CommentSort, Reaction, ReactionType, Tag, User } from '@/types';
 import { calculateLevel } from '@/utils/gamification';
 import { normalizeImagesForFirestore, hydrateImagesFromFirestore } from '@/utils/imageUtils';
+import { mergeTags, normalizeTag } from '@/utils/tagUtils';
+import { applyReaction, getLegacyReaction, getUserReaction } from '@/utils/reactions';
+import { getProfileLayoutWithoutPost } from '@/utils/profileHighlights';
+import { normalizeContentWarning } from '@/utils/contentWarnings';
 import { BOT_USER_ID } from './chatbotService';
+import { resolveMentions, notifyMentionedUsers } from './mentionsService';
 
 const MAX_POST_IMAGE_CHARS = 700000;
+const COMMENTS_PAGE_SIZE = 20; // Keeps the replies query within the 30 values an 'in' filter accepts
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 6;
+const MAX_POLL_OPTION_LENGTH = 80;
 
-const mapPostDoc = (docSnap: any): Post => {
+export const mapPostDoc = (docSnap: any): Post => {
   const data = docSnap.data();
   return {
     id: docSnap.id,
@@ -35,40 +50,185 @@ const mapPostDoc = (docSnap: any): Post => {
     images: hydrateImagesFromFirestore(data.images || []),
     createdAt: data.createdAt?.toDate() || new Date(),
     updatedAt: data.updatedAt?.toDate() || new Date(),
+    editedAt: data.editedAt?.toDate(),
+    visibility: data.visibility || 'public',
+    ...(data.poll && {
+      poll: {
+        ...data.poll,
+        expiresAt: data.poll.expiresAt?.toDate?.() || null,
+      },
+    }),
   } as Post;
 };
 
+export const getDefaultPostVisibility = async (userId: string): Promise<PostVisibility> => {
+  const userDoc = await getDoc(doc(db, 'users', userId));
+  return (userDoc.exists() && (userDoc.data() as User).privacySettings?.postVisibility) || 'public';
+};
+
+// Visibilities of someone's posts the signed-in user may read, or null for their own posts.
+// The rules reject post queries that are not limited to what the reader is allowed to see.
+export const getViewableVisibilities = async (ownerId: string): Promise<PostVisibility[] | null> => {
+  const viewerId = auth.currentUser?.uid;
+  if (viewerId === ownerId) return null;
+  if (!viewerId) return ['public'];
+
+  const viewerDoc = await getDoc(doc(db, 'users', viewerId));
+  const friends = viewerDoc.exists() ? (viewerDoc.data() as User).friends || [] : [];
+  return friends.includes(ownerId) ? ['public', 'friends'] : ['public'];
+};
+
+const getViewablePostsOfUser = async (userId: string) => {
+  const visibilities = await getViewableVisibilities(userId);
+  return getDocs(
+    visibilities
+      ? query(collection(db, 'posts'), where('userId', '==', userId), where('visibility', 'in', visibilities))
+      : query(collection(db, 'posts'), where('userId', '==', userId))
+  );
+};
+
+export const isPollClosed = (poll: PostPoll): boolean => {
+  return !!poll.expiresAt && poll.expiresAt.getTime() <= Date.now();
+};
+
+// Validates poll input and assigns stable option ids
+const buildPoll = (options: string[], allowMultiple: boolean, expiresAt?: Date | null): PostPoll => {
+  const texts = options.map(option => option.trim()).filter(option => option.length > 0);
+
+  if (texts.length < MIN_POLL_OPTIONS || texts.length > MAX_POLL_OPTIONS) {
+    throw new Error(`Polls need between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`);
+  }
+  if (texts.some(text => text.length > MAX_POLL_OPTION_LENGTH)) {
+    throw new Error(`Poll options must be at most ${MAX_POLL_OPTION_LENGTH} characters`);
+  }
+  if (new Set(texts.map(text => text.toLowerCase())).size !== texts.length) {
+    throw new Error('Poll options must be unique');
+  }
+  if (expiresAt && expiresAt.getTime() <= Date.now()) {
+    throw new Error('Poll expiry must be in the future');
+  }
+
+  return {
+    options: texts.map((text, index) => ({ id: `option_${index}`, text })),
+    allowMultiple,
+    expiresAt: expiresAt || null,
+  };
+};
+
+const getImageKey = (image: PostImage): string => {
+  return image.chunks?.join('') || image.data || '';
+};
+
+// Tag counts join the caller's write batch or transaction
+interface TagUsageWriter {
+  set(documentRef: DocumentReference, data: any, options?: SetOptions): unknown;
+  update(documentRef: DocumentReference, data: any): unknown;
+  delete(documentRef: DocumentReference): unknown;
+}
+
+// Counts the posts gaining and losing tags. The tag documents are read first, so a tag used
+// before keeps the date it was created and a tag that is already gone is not recreated by a
+// decrement. Inside a transaction, pass its `get` so the reads come before any write.
+export const queueTagUsage = async (
+  writer: TagUsageWriter,
+  addedTags: string[],
+  removedTags: string[] = [],
+  readDoc: (documentRef: DocumentReference) => Promise<DocumentSnapshot> = getDoc
+): Promise<void> => {
+  const [addedTagDocs, removedTagDocs] = await Promise.all([
+    Promise.all(addedTags.map(tag => readDoc(doc(db, 'tags', tag.toLowerCase())))),
+    Promise.all(removedTags.map(tag => readDoc(doc(db, 'tags', tag.toLowerCase())))),
+  ]);
+  const { queueSearchIndexWrite } = await import('./searchService');
+
+  addedTags.forEach((tag, index) => {
+    const tagDoc = addedTagDocs[index];
+    const createdAt = tagDoc.exists() ? tagDoc.data().createdAt : new Date();
+    writer.set(tagDoc.ref, {
+      name: tag,
+      postsCount: increment(1),
+      lastUsed: new Date(),
+      ...(tagDoc.exists() ? {} : { createdAt })
+    }, { merge: true });
+    queueSearchIndexWrite(writer, 'tag', tag, '', tag, createdAt);
+  });
+
+  removedTagDocs
+    .filter(tagDoc => tagDoc.exists())
+    .forEach(tagDoc => writer.update(tagDoc.ref, { postsCount: increment(-1) }));
+};
+
 // Post Operations
-export const createPost = async (content: string, tags: string[] = [], images?: any[]): Promise<void> => {
+export const createPost = async (
+  content: string,
+  tags: string[] = [],
+  images?: any[],
+  poll?: { options: string[]; allowMultiple: boolean; expiresAt?: Date | null },
+  mentionedUserIds: string[] = [],
+  visibility?: PostVisibility,
+  contentWarning?: string
+): Promise<void> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
 
   const batch = writeBatch(db);
 
   try {
+    const postVisibility = visibility || await getDefaultPostVisibility(currentUser.uid);
     const normalizedImages = normalizeImagesForFirestore(images || []);
     const imageChars = normalizedImages.reduce((sum, img) => sum + (img.chunks?.join('').length || 0), 0);
     if (imageChars > MAX_POST_IMAGE_CHARS) {
       throw new Error('Images are too large for a single post. Please use fewer or smaller images.');
     }
 
+    // Manual tags and #hashtags from the text end up in one normalised list
+    const postTags = mergeTags(tags, content);
+
     // Create post
     const postRef = doc(collection(db, 'posts'));
     const postData: Omit<Post, 'id'> = {
       userId: currentUser.uid,
       content,
-      tags,
+      tags: postTags,
       images: normalizedImages,
       likes: 0,
       comments: 0,
       shares: 0,
-      likedBy: [],
+      reactionCounts: {},
+      visibility: postVisibility,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
+    const mentions = await resolveMentions(content, mentionedUserIds);
+    if (mentions.length > 0) {
+      postData.mentions = mentions;
+    }
+
+    const warning = normalizeContentWarning(contentWarning);
+    if (warning) {
+      postData.contentWarning = warning;
+    }
+
+    if (poll) {
+      const builtPoll = buildPoll(poll.options, poll.allowMultiple, poll.expiresAt);
+      postData.poll = builtPoll;
+      postData.pollTotalVotes = 0;
+    }
+
     batch.set(postRef, postData);
 
+    const { queueSearchIndexWrite, getPostSearchText } = await import('./searchService');
+    queueSearchIndexWrite(
+      batch,
+      'post',
+      postRef.id,
+      currentUser.uid,
+      getPostSearchText(postData),
+      postData.createdAt,
+      postVisibility
+    );
+
     // Update user's post count
     const userRef = doc(db, 'users', currentUser.uid);
     batch.update(userRef, {
@@ -76,18 +236,15 @@ export const createPost = async (content: string, tags: string[] = [], images?:
     });
 
     // Update tag usage counts
-    for (const tag of tags) {
-      const tagRef = doc(db, 'tags', tag.toLowerCase());
-      batch.set(tagRef, {
-        name: tag,
-        postsCount: increment(1),
-        lastUsed: new Date(),
-        createdAt: new Date()
-      }, { merge: true });
-    }
+    await queueTagUsage(batch, postTags);
 
     await batch.commit();
 
+    await notifyMentionedUsers(mentions, 'post', { postId: postRef.id }, {
+      visibility: postVisibility,
+      ownerId: currentUser.uid
+    });
+
     try {
       const { trackDailyQuestProgress } = await import('./levelService');
       await trackDailyQuestProgress(currentUser.uid, 'create_post');
@@ -105,6 +262,7 @@ export const getPosts = (callback: (posts: Post[]) => void, limitCount = 20) =>
   return onSnapshot(
     query(
       collection(db, 'posts'),
+      where('visibility', '==', 'public'),
       orderBy('createdAt', 'desc'),
       limit(limitCount)
     ),
@@ -123,6 +281,7 @@ export const getPostsPaginated = async (
   try {
     let q = query(
       collection(db, 'posts'),
+      where('visibility', '==', 'public'),
       orderBy('createdAt', 'desc'),
       limit(limitCount)
     );
@@ -130,6 +289,7 @@ export const getPostsPaginated = async (
     if (lastDoc) {
       q = query(
         collection(db, 'posts'),
+        where('visibility', '==', 'public'),
         orderBy('createdAt', 'desc'),
         startAfter(lastDoc),
         limit(limitCount)
@@ -157,6 +317,7 @@ export const getNewerPostsSince = async (
   try {
     const q = query(
       collection(db, 'posts'),
+      where('visibility', '==', 'public'),
       where('createdAt', '>', sinceDate),
       orderBy('createdAt', 'asc'),
       limit(limitCount)
@@ -173,13 +334,25 @@ export const getNewerPostsSince = async (
   }
 };
 
-export const getUserPosts = (userId: string, callback: (posts: Post[]) => void) => {
+// `visibilities` comes from getViewableVisibilities; null lists every post (the author's own profile)
+export const getUserPosts = (
+  userId: string,
+  callback: (posts: Post[]) => void,
+  visibilities: PostVisibility[] | null = ['public']
+) => {
   return onSnapshot(
-    query(
-      collection(db, 'posts'),
-      where('userId', '==', userId),
-      orderBy('createdAt', 'desc')
-    ),
+    visibilities
+      ? query(
+          collection(db, 'posts'),
+          where('userId', '==', userId),
+          where('visibility', 'in', visibilities),
+          orderBy('createdAt', 'desc')
+        )
+      : query(
+          collection(db, 'posts'),
+          where('userId', '==', userId),
+          orderBy('createdAt', 'desc')
+        ),
     (snapshot) => {
       const posts = snapshot.docs.map(mapPostDoc) as Post[];
       callback(posts);
@@ -191,7 +364,8 @@ export const getPostsByTag = (tag: string, callback: (posts: Post[]) => void) =>
   return onSnapshot(
     query(
       collection(db, 'posts'),
-      where('tags', 'array-contains', tag),
+      where('tags', 'array-contains', normalizeTag(tag) || tag),
+      where('visibility', '==', 'public'),
       orderBy('createdAt', 'desc'),
       limit(20)
     ),
@@ -225,6 +399,7 @@ export const getPostsFromFollowing = async (userId: string): Promise<Post[]> =>
       const postsQuery = query(
         collection(db, 'posts'),
         where('userId', 'in', batch),
+        where('visibility', '==', 'public'),
         orderBy('createdAt', 'desc'),
         limit(20)
       );
@@ -264,6 +439,7 @@ export const getPostsFromFriends = async (userId: string): Promise<Post[]> => {
       const postsQuery = query(
         collection(db, 'posts'),
         where('userId', 'in', batch),
+        where('visibility', 'in', ['public', 'friends']),
         orderBy('createdAt', 'desc'),
         limit(20)
       );
@@ -284,7 +460,8 @@ export const getPostsByTagStatic = async (tag: string): Promise<Post[]> => {
   try {
     const postsQuery = query(
       collection(db, 'posts'),
-      where('tags', 'array-contains', tag),
+      where('tags', 'array-contains', normalizeTag(tag) || tag),
+      where('visibility', '==', 'public'),
       orderBy('createdAt', 'desc'),
       limit(20)
     );
@@ -296,40 +473,191 @@ export const getPostsByTagStatic = async (tag: string): Promise<Post[]> => {
   }
 };
 
-export const likePost = async (postId: string): Promise<void> => {
+const getReactionRef = (targetType: Reaction['targetType'], targetId: string, userId: string) =>
+  doc(db, targetType === 'post' ? 'posts' : 'comments', targetId, 'reactions', userId);
+
+// Updates that move a user's reaction from `previous` to `reaction` on the reacted document.
+// A legacy entry in `likedBy` or the `reactions` map is dropped, as the sub-collection now holds it,
+// and documents that never had reactionCounts get their tallies written out in full.
+const buildReactionUpdate = (
+  data: Post | Comment,
+  userId: string,
+  previous: ReactionType | null,
+  reaction: ReactionType | null
+): Record<string, any> => {
+  const updates: Record<string, any> = {};
+
+  if (data.reactions?.[userId]) updates[`reactions.${userId}`] = deleteField();
+  if (data.likedBy?.includes(userId)) updates.likedBy = arrayRemove(userId);
+
+  if (data.reactionCounts) {
+    if (previous) updates[`reactionCounts.${previous}`] = increment(-1);
+    if (reaction) updates[`reactionCounts.${reaction}`] = increment(1);
+  } else {
+    updates.reactionCounts = applyReaction(data, userId, reaction).reactionCounts;
+  }
+
+  if (!previous) {
+    updates.likes = increment(1);
+  } else if (!reaction) {
+    updates.likes = increment(-1);
+  }
+
+  return updates;
+};
+
+// Writes the user's reaction document and the totals on the target together.
+// Returns the reaction it replaced, so the caller can settle XP.
+// Reads and writes in one transaction, so reactions arriving at the same time retry on
+// fresh totals instead of overwriting each other's
+const writeReaction = async (
+  targetType: Reaction['targetType'],
+  targetId: string,
+  reaction: ReactionType | null
+): Promise<ReactionType | null> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const reactionRef = getReactionRef(targetType, targetId, currentUser.uid);
+  const targetRef = doc(db, targetType === 'post' ? 'posts' : 'comments', targetId);
+
+  return runTransaction(db, async (transaction) => {
+    const [reactionDoc, targetDoc] = await Promise.all([
+      transaction.get(reactionRef),
+      transaction.get(targetRef),
+    ]);
+    if (!targetDoc.exists()) throw new Error(targetType === 'post' ? 'Post not found' : 'Comment not found');
+
+    const data = targetDoc.data() as Post | Comment;
+    const previous = reactionDoc.exists()
+      ? (reactionDoc.data().type as ReactionType)
+      : getLegacyReaction(data, currentUser.uid);
+    if (previous === reaction) return previous;
+
+    if (reaction) {
+      transaction.set(reactionRef, {
+        userId: currentUser.uid,
+        type: reaction,
+        targetType,
+        targetId,
+        createdAt: reactionDoc.exists() ? reactionDoc.data().createdAt : serverTimestamp()
+      });
+    } else {
+      transaction.delete(reactionRef);
+    }
+    transaction.update(targetRef, buildReactionUpdate(data, currentUser.uid, previous, reaction));
+
+    return previous;
+  });
+};
+
+// Moves the reaction XP from the old reaction to the new one; reacting to your own content earns nothing
+const updateReactionXP = async (
+  authorId: string,
+  previous: ReactionType | null,
+  reaction: ReactionType | null,
+  target: Reaction['targetType']
+): Promise<void> => {
+  if (authorId === auth.currentUser?.uid) return;
+
+  try {
+    const { handleReactionReceived, handleReactionRemoved } = await import('./levelService');
+    if (previous) await handleReactionRemoved(authorId, previous, target);
+    if (reaction) await handleReactionReceived(authorId, reaction, target);
+  } catch (xpError) {
+    console.warn(`Reaction XP update failed for ${target}:`, xpError);
+  }
+};
+
+// Fills in viewerReaction with one direct lookup per item; documents that cannot be read
+// keep whatever their legacy fields say
+export const loadViewerReactions = async <T extends Post | Comment>(
+  targetType: Reaction['targetType'],
+  items: T[]
+): Promise<T[]> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) return items;
+
+  return Promise.all(items.map(async item => {
+    try {
+      const reactionDoc = await getDoc(getReactionRef(targetType, item.id, currentUser.uid));
+      return {
+        ...item,
+        viewerReaction: reactionDoc.exists()
+          ? (reactionDoc.data().type as ReactionType)
+          : getLegacyReaction(item, currentUser.uid)
+      };
+    } catch (error) {
+      console.warn('Error loading viewer reaction:', error);
+      return item;
+    }
+  }));
+};
+
+// Most recent reactions first, for the "who reacted" sheet
+export const getReactions = async (
+  targetType: Reaction['targetType'],
+  targetId: string,
+  maxResults: number = 200
+): Promise<Reaction[]> => {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, targetType === 'post' ? 'posts' : 'comments', targetId, 'reactions'),
+      orderBy('createdAt', 'desc'),
+      limit(maxResults)
+    ));
+    return snapshot.docs.map(reactionDoc => ({
+      ...reactionDoc.data(),
+      createdAt: reactionDoc.data().createdAt?.toDate?.() || new Date()
+    }) as Reaction);
+  } catch (error) {
+    console.error('Error getting reactions:', error);
+    throw error;
+  }
+};
+
+// Sets the current user's reaction on a post; null removes it
+export const reactToPost = async (postId: string, reaction: ReactionType | null): Promise<void> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
 
-  const postRef = doc(db, 'posts', postId);
-  const postDoc = await getDoc(postRef);
-  
+  const postDoc = await getDoc(doc(db, 'posts', postId));
   if (!postDoc.exists()) throw new Error('Post not found');
-  
+
   const postData = postDoc.data() as Post;
-  const isLiked = postData.likedBy.includes(currentUser.uid);
 
-  if (isLiked) {
-    // Unlike
-    await updateDoc(postRef, {
-      likes: increment(-1),
-      likedBy: arrayRemove(currentUser.uid)
-    });
-  } else {
-    // Like
-    await updateDoc(postRef, {
-      likes: increment(1),
-      likedBy: arrayUnion(currentUser.uid)
-    });
+  try {
+    const previous = await writeReaction('post', postId, reaction);
+    if (previous === reaction) return;
 
-    try {
-      const { trackDailyQuestProgress } = await import('./levelService');
-      await trackDailyQuestProgress(currentUser.uid, 'like_post');
-    } catch (questError) {
-      console.warn('Quest progress tracking failed for like_post:', questError);
+    await updateReactionXP(postData.userId, previous, reaction, 'post');
+
+    if (!previous) {
+      try {
+        const { trackDailyQuestProgress } = await import('./levelService');
+        await trackDailyQuestProgress(currentUser.uid, 'like_post');
+      } catch (questError) {
+        console.warn('Quest progress tracking failed for like_post:', questError);
+      }
     }
+  } catch (error) {
+    console.error('Error reacting to post:', error);
+    throw error;
   }
 };
 
+// Toggles a plain like; any other reaction the user left is removed instead
+export const likePost = async (postId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const postDoc = await getDoc(doc(db, 'posts', postId));
+  if (!postDoc.exists()) throw new Error('Post not found');
+
+  const [post] = await loadViewerReactions('post', [{ id: postDoc.id, ...postDoc.data() } as Post]);
+  await reactToPost(postId, getUserReaction(post, currentUser.uid) ? null : 'like');
+};
+
 export const deletePost = async (postId: string): Promise<void> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
@@ -353,31 +681,390 @@ export const deletePost = async (postId: string): Promise<void> => {
     // Delete post
     batch.delete(postRef);
 
-    // Update user's post count
+    const { queueSearchIndexDelete } = await import('./searchService');
+    queueSearchIndexDelete(batch, 'post', postId);
+
+    // Reposts give back the share they added, unless the original is already gone
+    if (postData.repostOf) {
+      const originalRef = doc(db, 'posts', postData.repostOf);
+      const originalDoc = await getDoc(originalRef);
+      if (originalDoc.exists()) {
+        batch.update(originalRef, {
+          shares: increment(-1)
+        });
+      }
+    }
+
+    // Update user's post count and drop the post from their pins and highlights
     const userRef = doc(db, 'users', currentUser.uid);
+    const userDoc = await getDoc(userRef);
+    const userData = userDoc.exists() ? userDoc.data() as User : null;
     batch.update(userRef, {
-      totalPosts: increment(-1)
+      totalPosts: increment(-1),
+      ...(userData?.pinnedPostIds || userData?.highlights ? getProfileLayoutWithoutPost(userData, postId) : {})
     });
 
     // Update tag usage counts
-    if (postData.tags) {
-      for (const tag of postData.tags) {
-        const tagRef = doc(db, 'tags', tag.toLowerCase());
-        batch.update(tagRef, {
-          postsCount: increment(-1)
+    await queueTagUsage(batch, [], postData.tags || []);
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error deleting post:', error);
+    throw error;
+  }
+};
+
+export const editPost = async (
+  postId: string,
+  content: string,
+  tags: string[] = [],
+  images?: any[]
+): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const batch = writeBatch(db);
+
+  try {
+    const postRef = doc(db, 'posts', postId);
+    const postDoc = await getDoc(postRef);
+
+    if (!postDoc.exists()) throw new Error('Post not found');
+
+    const postData = postDoc.data() as Post;
+
+    if (postData.userId !== currentUser.uid) {
+      throw new Error('You can only edit your own posts');
+    }
+
+    const previousImages: PostImage[] = postData.images || [];
+    // Keep the stored images untouched when the caller does not send a new set
+    const normalizedImages = images ? normalizeImagesForFirestore(images) : previousImages;
+    const imageChars = normalizedImages.reduce((sum, img) => sum + (img.chunks?.join('').length || 0), 0);
+    if (imageChars > MAX_POST_IMAGE_CHARS) {
+      throw new Error('Images are too large for a single post. Please use fewer or smaller images.');
+    }
+
+    tags = mergeTags(tags, content);
+    const previousTags = postData.tags || [];
+    const previousTagKeys = previousTags.map(tag => tag.toLowerCase());
+    const nextTagKeys = tags.map(tag => tag.toLowerCase());
+    const addedTags = tags.filter(tag => !previousTagKeys.includes(tag.toLowerCase()));
+    const removedTags = previousTags.filter(tag => !nextTagKeys.includes(tag.toLowerCase()));
+
+    const previousImageKeys = previousImages.map(getImageKey);
+    const nextImageKeys = normalizedImages.map(getImageKey);
+    const imagesAdded = nextImageKeys.filter(key => !previousImageKeys.includes(key)).length;
+    const imagesRemoved = previousImageKeys.filter(key => !nextImageKeys.includes(key)).length;
+
+    // Revision documents are append-only; the rules forbid updating or deleting them
+    const revisionRef = doc(collection(db, 'posts', postId, 'revisions'));
+    const revisionData: Omit<PostRevision, 'id'> = {
+      postId,
+      editedBy: currentUser.uid,
+      previousContent: postData.content,
+      content,
+      previousTags,
+      tags,
+      imagesDiff: {
+        added: imagesAdded,
+        removed: imagesRemoved,
+        previousCount: previousImages.length,
+        newCount: normalizedImages.length,
+      },
+      editedAt: new Date(),
+    };
+    batch.set(revisionRef, revisionData);
+
+    // Keep existing mentions that survive the edit, with offsets matching the new text
+    const mentions = await resolveMentions(content, (postData.mentions || []).map(m => m.userId));
+
+    batch.update(postRef, {
+      content,
+      tags,
+      images: normalizedImages,
+      mentions,
+      updatedAt: new Date(),
+      editedAt: new Date(),
+      revisionCount: increment(1),
+    });
+
+    const { queueSearchIndexWrite, getPostSearchText } = await import('./searchService');
+    queueSearchIndexWrite(
+      batch,
+      'post',
+      postId,
+      currentUser.uid,
+      getPostSearchText({ content, tags, poll: postData.poll }),
+      postData.createdAt,
+      postData.visibility || 'public'
+    );
+
+    await queueTagUsage(batch, addedTags, removedTags);
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error editing post:', error);
+    throw error;
+  }
+};
+
+export const getPostRevisions = async (postId: string): Promise<PostRevision[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, 'posts', postId, 'revisions'),
+        orderBy('editedAt', 'desc')
+      )
+    );
+
+    return snapshot.docs.map(docSnap => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...data,
+        editedAt: data.editedAt?.toDate() || new Date(),
+      } as PostRevision;
+    });
+  } catch (error) {
+    console.error('Error fetching post revisions:', error);
+    throw error;
+  }
+};
+
+// Repost Operations
+// A plain repost has no content of its own; a quote post adds the reposter's commentary
+export const repostPost = async (postId: string, quoteText?: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const isQuote = !!quoteText?.trim();
+  const batch = writeBatch(db);
+
+  try {
+    let originalRef = doc(db, 'posts', postId);
+    let originalDoc = await getDoc(originalRef);
+    if (!originalDoc.exists()) throw new Error('Post not found');
+
+    // Reposting a plain repost shares the post it points to
+    const repostedData = originalDoc.data() as Post;
+    if (repostedData.repostType === 'repost' && repostedData.repostOf) {
+      originalRef = doc(db, 'posts', repostedData.repostOf);
+      originalDoc = await getDoc(originalRef);
+      if (!originalDoc.exists()) throw new Error('The original post is no longer available');
+    }
+
+    const original = originalDoc.data() as Post;
+    if (original.moderationStatus === 'rejected') {
+      throw new Error('This post can no longer be shared');
+    }
+    // A repost would show friends-only or private content to the reposter's audience
+    if ((original.visibility || 'public') !== 'public') {
+      throw new Error('Only public posts can be shared');
+    }
+
+    if (!isQuote) {
+      const existingRepost = await getDocs(
+        query(
+          collection(db, 'posts'),
+          where('userId', '==', currentUser.uid),
+          where('repostOf', '==', originalRef.id),
+          where('repostType', '==', 'repost'),
+          limit(1)
+        )
+      );
+      if (!existingRepost.empty) throw new Error('You have already reposted this post');
+    }
+
+    const repostVisibility = await getDefaultPostVisibility(currentUser.uid);
+    const repostContent = isQuote ? quoteText!.trim() : '';
+    const repostTags = mergeTags([], repostContent);
+
+    const repostRef = doc(collection(db, 'posts'));
+    const repostData: Omit<Post, 'id'> = {
+      userId: currentUser.uid,
+      content: repostContent,
+      tags: repostTags,
+      images: [],
+      likes: 0,
+      comments: 0,
+      shares: 0,
+      reactionCounts: {},
+      repostOf: originalRef.id,
+      repostType: isQuote ? 'quote' : 'repost',
+      visibility: repostVisibility,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    batch.set(repostRef, repostData);
+
+    // Plain reposts have no text of their own and stay out of the search index
+    const { queueSearchIndexWrite, getPostSearchText } = await import('./searchService');
+    if (isQuote) {
+      queueSearchIndexWrite(
+        batch,
+        'post',
+        repostRef.id,
+        currentUser.uid,
+        getPostSearchText(repostData),
+        repostData.createdAt,
+        repostVisibility
+      );
+    }
+
+    await queueTagUsage(batch, repostTags);
+
+    batch.update(originalRef, {
+      shares: increment(1)
+    });
+
+    const userRef = doc(db, 'users', currentUser.uid);
+    batch.update(userRef, {
+      totalPosts: increment(1)
+    });
+
+    await batch.commit();
+
+    if (original.userId !== currentUser.uid) {
+      try {
+        const { createNotification } = await import('./firestore');
+        await createNotification(original.userId, {
+          type: 'post_shared',
+          fromUserId: currentUser.uid,
+          message: isQuote ? 'quoted your post' : 'reposted your post',
+          data: { postId: originalRef.id, repostId: repostRef.id }
         });
+      } catch (notificationError) {
+        console.warn('Repost notification failed:', notificationError);
       }
     }
+  } catch (error) {
+    console.error('Error reposting post:', error);
+    throw error;
+  }
+};
+
+export const getPostById = async (postId: string): Promise<Post | null> => {
+  try {
+    const postDoc = await getDoc(doc(db, 'posts', postId));
+    return postDoc.exists() ? mapPostDoc(postDoc) : null;
+  } catch (error) {
+    // Posts the user is not allowed to see behave as if they were gone
+    if ((error as any)?.code === 'permission-denied') return null;
+    console.error('Error fetching post:', error);
+    throw error;
+  }
+};
+
+// Poll Operations
+// Per-option counts live in `posts/{postId}/pollResults/tally`, away from the post document
+export const getPollResultsRef = (postId: string) => doc(db, 'posts', postId, 'pollResults', 'tally');
+
+export const votePoll = async (postId: string, optionIds: string[]): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    const postRef = doc(db, 'posts', postId);
+    const postDoc = await getDoc(postRef);
+
+    if (!postDoc.exists()) throw new Error('Post not found');
+
+    const post = mapPostDoc(postDoc);
+    if (!post.poll) throw new Error('This post is not a poll');
+    if (isPollClosed(post.poll)) throw new Error('This poll is closed');
+
+    const validIds = post.poll.options.map(option => option.id);
+    const selectedIds = Array.from(new Set(optionIds)).filter(id => validIds.includes(id));
+    if (selectedIds.length === 0) throw new Error('Please select an option');
+    if (!post.poll.allowMultiple && selectedIds.length > 1) {
+      throw new Error('This poll only allows one choice');
+    }
+
+    // The vote document id is the voter id; the rules reject a second vote
+    const voteRef = doc(db, 'posts', postId, 'pollVotes', currentUser.uid);
+    const existingVote = await getDoc(voteRef);
+    if (existingVote.exists()) throw new Error('You have already voted on this poll');
+
+    const batch = writeBatch(db);
+    const voteData: PollVote = {
+      userId: currentUser.uid,
+      optionIds: selectedIds,
+      createdAt: new Date(),
+    };
+    batch.set(voteRef, voteData);
+
+    batch.update(postRef, { pollTotalVotes: increment(1) });
+    batch.set(getPollResultsRef(postId), {
+      counts: Object.fromEntries(selectedIds.map(id => [id, increment(1)]))
+    }, { merge: true });
 
     await batch.commit();
+
+    if (post.userId !== currentUser.uid) {
+      try {
+        const { handlePollVoteReceived } = await import('./levelService');
+        const author = await getUserData(post.userId);
+        if (author) {
+          await handlePollVoteReceived(post.userId, author);
+        }
+      } catch (xpError) {
+        console.warn('XP award failed for poll vote:', xpError);
+      }
+    }
   } catch (error) {
-    console.error('Error deleting post:', error);
+    console.error('Error voting on poll:', error);
     throw error;
   }
 };
 
+// The number of voters is public; how they voted is only readable once the viewer has
+// voted or the poll has closed
+export const subscribeToPollTotal = (postId: string, callback: (totalVotes: number) => void) => {
+  return onSnapshot(doc(db, 'posts', postId), (docSnap) => {
+    callback(docSnap.data()?.pollTotalVotes || 0);
+  });
+};
+
+export const subscribeToPollResults = (postId: string, callback: (counts: Record<string, number>) => void) => {
+  return onSnapshot(
+    getPollResultsRef(postId),
+    (docSnap) => callback(docSnap.data()?.counts || {}),
+    (error) => console.warn('Poll results listener stopped:', error)
+  );
+};
+
+export const subscribeToMyPollVote = (
+  postId: string,
+  userId: string,
+  callback: (vote: PollVote | null) => void
+) => {
+  return onSnapshot(doc(db, 'posts', postId, 'pollVotes', userId), (docSnap) => {
+    if (!docSnap.exists()) {
+      callback(null);
+      return;
+    }
+    const data = docSnap.data();
+    callback({
+      userId: data.userId,
+      optionIds: data.optionIds || [],
+      createdAt: data.createdAt?.toDate() || new Date(),
+    });
+  });
+};
+
 // Comment Operations
-export const addComment = async (postId: string, text: string): Promise<void> => {
+// Comments and replies share the `comments` collection; a reply points at the comment it
+// answers through `parentId`, so threads can nest to any depth. Replies also keep the
+// `rootId` of their thread, which lets a page of top-level comments load all its replies.
+// The post's comment count only includes top-level comments, each comment's
+// `repliesCount` its direct replies.
+export const addComment = async (
+  postId: string,
+  text: string,
+  mentionedUserIds: string[] = [],
+  parentId?: string
+): Promise<Comment> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
 
@@ -398,23 +1085,52 @@ export const addComment = async (postId: string, text: string): Promise<void> =>
       userId: currentUser.uid,
       text,
       likes: 0,
-      likedBy: [],
-      replies: [],
+      reactionCounts: {},
       repliesCount: 0,
+      depth: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
+    if (parentId) {
+      const parentDoc = await getDoc(doc(db, 'comments', parentId));
+      if (!parentDoc.exists() || parentDoc.data().postId !== postId) throw new Error('Comment not found');
+
+      const parent = parentDoc.data() as Comment;
+      commentData.parentId = parentId;
+      commentData.rootId = parent.rootId || parentId;
+      commentData.depth = (parent.depth || 0) + 1;
+    }
+
+    const mentions = await resolveMentions(text, mentionedUserIds);
+    if (mentions.length > 0) {
+      commentData.mentions = mentions;
+    }
+
     batch.set(commentRef, commentData);
 
-    // Update post comment count
-    const postRef = doc(db, 'posts', postId);
-    batch.update(postRef, {
-      comments: increment(1)
-    });
+    if (parentId) {
+      batch.update(doc(db, 'comments', parentId), {
+        repliesCount: increment(1)
+      });
+    } else {
+      // Update post comment count
+      const postRef = doc(db, 'posts', postId);
+      batch.update(postRef, {
+        comments: increment(1)
+      });
+    }
 
     await batch.commit();
 
+    const audience = { visibility: post.visibility || 'public', ownerId: postOwnerId };
+    if (parentId) {
+      await notifyMentionedUsers(mentions, 'reply', { postId, commentId: parentId, replyId: commentRef.id }, audience);
+      return { id: commentRef.id, ...commentData };
+    }
+
+    await notifyMentionedUsers(mentions, 'comment', { postId, commentId: commentRef.id }, audience);
+
     try {
       const { trackDailyQuestProgress } = await import('./levelService');
       await trackDailyQuestProgress(currentUser.uid, 'add_comment');
@@ -427,136 +1143,327 @@ export const addComment = async (postId: string, text: string): Promise<void> =>
       const { awardXP } = await import('./levelService');
       await awardXP(postOwnerId, 'receive_comment');
     }
+
+    return { id: commentRef.id, ...commentData };
   } catch (error) {
     console.error('Error adding comment:', error);
     throw error;
   }
 };
 
-export const getPostComments = (postId: string, callback: (comments: Comment[]) => void) => {
-  return onSnapshot(
-    query(
-      collection(db, 'comments'),
-      where('postId', '==', postId),
-      orderBy('createdAt', 'desc')
-    ),
-    (snapshot) => {
-      const comments = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
-        updatedAt: doc.data().updatedAt?.toDate() || new Date(),
-      })) as Comment[];
-      callback(comments);
+export const addReply = async (commentId: string, text: string, mentionedUserIds: string[] = []): Promise<Comment> => {
+  try {
+    const parentDoc = await getDoc(doc(db, 'comments', commentId));
+    if (!parentDoc.exists()) throw new Error('Comment not found');
+
+    return await addComment(parentDoc.data().postId, text, mentionedUserIds, commentId);
+  } catch (error) {
+    console.error('Error adding reply:', error);
+    throw error;
+  }
+};
+
+const mapCommentDoc = (docSnap: any): Comment => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+    editedAt: data.editedAt?.toDate(),
+    deletedAt: data.deletedAt?.toDate(),
+  } as Comment;
+};
+
+// One page of top-level comments together with all of their replies; buildCommentTree nests
+// them. The pinned comment comes with the first page and is skipped by the sorted pages.
+// Comments written before threads have no `depth` but are all top-level, so replies are
+// skipped by their `parentId` here instead of filtering the query on `depth`.
+export const getPostCommentsPage = async (
+  postId: string,
+  sort: CommentSort = 'newest',
+  pinnedCommentId?: string,
+  lastDoc?: any,
+  pageSize = COMMENTS_PAGE_SIZE
+): Promise<{ comments: Comment[], lastVisible: any, hasMore: boolean }> => {
+  try {
+    const ordering = sort === 'top'
+      ? [orderBy('likes', 'desc'), orderBy('createdAt', 'desc')]
+      : [orderBy('createdAt', sort === 'oldest' ? 'asc' : 'desc')];
+
+    const pinnedDoc = !lastDoc && pinnedCommentId ? await getDoc(doc(db, 'comments', pinnedCommentId)) : null;
+
+    const topLevelDocs: QueryDocumentSnapshot[] = [];
+    let cursor = lastDoc || null;
+    let hasMore = true;
+    while (hasMore && topLevelDocs.length < pageSize) {
+      const snapshot = await getDocs(query(
+        collection(db, 'comments'),
+        where('postId', '==', postId),
+        ...ordering,
+        ...(cursor ? [startAfter(cursor)] : []),
+        limit(pageSize)
+      ));
+
+      hasMore = snapshot.docs.length === pageSize;
+      for (const commentDoc of snapshot.docs) {
+        cursor = commentDoc;
+        if (!commentDoc.data().parentId && commentDoc.id !== pinnedCommentId) {
+          topLevelDocs.push(commentDoc);
+        }
+        if (topLevelDocs.length === pageSize) {
+          hasMore = hasMore || commentDoc !== snapshot.docs[snapshot.docs.length - 1];
+          break;
+        }
+      }
     }
-  );
+
+    const pinned = pinnedDoc?.exists() && pinnedDoc.data().postId === postId ? [mapCommentDoc(pinnedDoc)] : [];
+    const topLevel = [...pinned, ...topLevelDocs.map(mapCommentDoc)];
+
+    const rootIds = topLevel.map(comment => comment.id);
+    const repliesSnapshot = rootIds.length > 0
+      ? await getDocs(query(
+          collection(db, 'comments'),
+          where('postId', '==', postId),
+          where('rootId', 'in', rootIds)
+        ))
+      : null;
+
+    return {
+      comments: [...topLevel, ...(repliesSnapshot?.docs.map(mapCommentDoc) || [])],
+      lastVisible: cursor,
+      hasMore,
+    };
+  } catch (error) {
+    console.error('Error fetching comments page:', error);
+    throw error;
+  }
 };
 
-export const likeComment = async (commentId: string): Promise<void> => {
+// Only the post author can pin, and only a top-level comment; null unpins
+export const pinComment = async (postId: string, commentId: string | null): Promise<void> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
 
-  const commentRef = doc(db, 'comments', commentId);
-  const commentDoc = await getDoc(commentRef);
-  
-  if (!commentDoc.exists()) throw new Error('Comment not found');
-  
-  const commentData = commentDoc.data() as Comment;
-  const isLiked = commentData.likedBy.includes(currentUser.uid);
+  try {
+    const postRef = doc(db, 'posts', postId);
+    const postDoc = await getDoc(postRef);
+    if (!postDoc.exists()) throw new Error('Post not found');
+    if (postDoc.data().userId !== currentUser.uid) throw new Error('Only the post author can pin comments');
 
-  if (isLiked) {
-    // Unlike
-    await updateDoc(commentRef, {
-      likes: increment(-1),
-      likedBy: arrayRemove(currentUser.uid)
-    });
-  } else {
-    // Like
-    await updateDoc(commentRef, {
-      likes: increment(1),
-      likedBy: arrayUnion(currentUser.uid)
+    if (commentId) {
+      const commentDoc = await getDoc(doc(db, 'comments', commentId));
+      if (!commentDoc.exists() || commentDoc.data().postId !== postId) throw new Error('Comment not found');
+      if (commentDoc.data().parentId) throw new Error('Only top-level comments can be pinned');
+    }
+
+    await updateDoc(postRef, {
+      pinnedCommentId: commentId || deleteField()
     });
+  } catch (error) {
+    console.error('Error pinning comment:', error);
+    throw error;
   }
 };
 
-export const likeReply = async (replyId: string): Promise<void> => {
+// Sets the current user's reaction on a comment or reply; null removes it
+export const reactToComment = async (commentId: string, reaction: ReactionType | null): Promise<void> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
 
-  const replyRef = doc(db, 'replies', replyId);
-  const replyDoc = await getDoc(replyRef);
-  
-  if (!replyDoc.exists()) throw new Error('Reply not found');
-  
-  const replyData = replyDoc.data() as Reply;
-  const isLiked = replyData.likedBy.includes(currentUser.uid);
-
-  if (isLiked) {
-    // Unlike
-    await updateDoc(replyRef, {
-      likes: increment(-1),
-      likedBy: arrayRemove(currentUser.uid)
-    });
-  } else {
-    // Like
-    await updateDoc(replyRef, {
-      likes: increment(1),
-      likedBy: arrayUnion(currentUser.uid)
-    });
+  const commentDoc = await getDoc(doc(db, 'comments', commentId));
+  if (!commentDoc.exists()) throw new Error('Comment not found');
+
+  const commentData = commentDoc.data() as Comment;
+  if (commentData.deleted) throw new Error('This comment was removed');
+
+  try {
+    const previous = await writeReaction('comment', commentId, reaction);
+    if (previous === reaction) return;
+
+    await updateReactionXP(commentData.userId, previous, reaction, 'comment');
+  } catch (error) {
+    console.error('Error reacting to comment:', error);
+    throw error;
   }
 };
 
-export const addReply = async (commentId: string, text: string): Promise<void> => {
+export const likeComment = async (commentId: string): Promise<void> => {
   const currentUser = auth.currentUser;
   if (!currentUser) throw new Error('Not authenticated');
 
+  const commentDoc = await getDoc(doc(db, 'comments', commentId));
+  if (!commentDoc.exists()) throw new Error('Comment not found');
+
+  const [comment] = await loadViewerReactions('comment', [{ id: commentDoc.id, ...commentDoc.data() } as Comment]);
+  await reactToComment(commentId, getUserReaction(comment, currentUser.uid) ? null : 'like');
+};
+
+// Only the author can edit; the previous text is kept in the comment's revisions
+export const editComment = async (
+  commentId: string,
+  text: string,
+  mentionedUserIds: string[] = []
+): Promise<Comment> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const trimmedText = text.trim();
+  if (!trimmedText) throw new Error('Comment cannot be empty');
+
   const batch = writeBatch(db);
 
   try {
-    // Create reply
-    const replyRef = doc(collection(db, 'replies'));
-    const replyData: Omit<Reply, 'id'> = {
+    const commentRef = doc(db, 'comments', commentId);
+    const commentDoc = await getDoc(commentRef);
+    if (!commentDoc.exists()) throw new Error('Comment not found');
+
+    const comment = mapCommentDoc(commentDoc);
+    if (comment.userId !== currentUser.uid) throw new Error('You can only edit your own comments');
+    if (comment.deleted) throw new Error('This comment was removed');
+
+    const revisionRef = doc(collection(db, 'comments', commentId, 'revisions'));
+    const revisionData: Omit<CommentRevision, 'id'> = {
       commentId,
-      userId: currentUser.uid,
-      text,
-      likes: 0,
-      likedBy: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      editedBy: currentUser.uid,
+      previousText: comment.text,
+      text: trimmedText,
+      editedAt: new Date(),
     };
+    batch.set(revisionRef, revisionData);
 
-    batch.set(replyRef, replyData);
+    const previousMentions = comment.mentions || [];
+    const mentions = await resolveMentions(
+      trimmedText,
+      [...previousMentions.map(mention => mention.userId), ...mentionedUserIds]
+    );
+    const editedAt = new Date();
 
-    // Update comment reply count
-    const commentRef = doc(db, 'comments', commentId);
     batch.update(commentRef, {
-      repliesCount: increment(1)
+      text: trimmedText,
+      mentions,
+      updatedAt: editedAt,
+      editedAt,
+      revisionCount: increment(1),
     });
 
     await batch.commit();
+
+    // Only people mentioned for the first time are notified
+    const newMentions = mentions.filter(mention => !previousMentions.some(previous => previous.userId === mention.userId));
+    if (newMentions.length > 0) {
+      const post = await getPostById(comment.postId);
+      if (post) {
+        await notifyMentionedUsers(
+          newMentions,
+          comment.parentId ? 'reply' : 'comment',
+          comment.parentId
+            ? { postId: comment.postId, commentId: comment.parentId, replyId: commentId }
+            : { postId: comment.postId, commentId },
+          { visibility: post.visibility || 'public', ownerId: post.userId }
+        );
+      }
+    }
+
+    return {
+      ...comment,
+      text: trimmedText,
+      mentions,
+      updatedAt: editedAt,
+      editedAt,
+      revisionCount: (comment.revisionCount || 0) + 1,
+    };
   } catch (error) {
-    console.error('Error adding reply:', error);
+    console.error('Error editing comment:', error);
     throw error;
   }
 };
 
-export const getCommentReplies = (commentId: string, callback: (replies: Reply[]) => void) => {
-  return onSnapshot(
-    query(
-      collection(db, 'replies'),
-      where('commentId', '==', commentId),
-      orderBy('createdAt', 'asc')
-    ),
-    (snapshot) => {
-      const replies = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
-        updatedAt: doc.data().updatedAt?.toDate() || new Date(),
-      })) as Reply[];
-      callback(replies);
+// Soft delete: the document stays so replies keep their place in the thread, but the text,
+// mentions and edit history are removed. The post's comment count (and with it the author's
+// totalComments) or the parent's repliesCount drops by one, and the XP the post author got
+// for the comment is taken back.
+export const deleteComment = async (commentId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const batch = writeBatch(db);
+
+  try {
+    const commentRef = doc(db, 'comments', commentId);
+    const [commentDoc, revisionsSnapshot] = await Promise.all([
+      getDoc(commentRef),
+      getDocs(collection(db, 'comments', commentId, 'revisions')),
+    ]);
+    if (!commentDoc.exists()) throw new Error('Comment not found');
+
+    const comment = commentDoc.data() as Comment;
+    if (comment.userId !== currentUser.uid) throw new Error('You can only delete your own comments');
+    if (comment.deleted) throw new Error('This comment was already removed');
+
+    const postRef = doc(db, 'posts', comment.postId);
+    const postDoc = await getDoc(postRef);
+    const post = postDoc.exists() ? (postDoc.data() as Post) : null;
+
+    batch.update(commentRef, {
+      deleted: true,
+      text: '',
+      mentions: deleteField(),
+      deletedAt: new Date(),
+      updatedAt: new Date(),
+    });
+    revisionsSnapshot.docs.forEach(revisionDoc => batch.delete(revisionDoc.ref));
+
+    if (comment.parentId) {
+      batch.update(doc(db, 'comments', comment.parentId), {
+        repliesCount: increment(-1)
+      });
+    } else if (post) {
+      batch.update(postRef, {
+        comments: increment(-1),
+        ...(post.pinnedCommentId === commentId ? { pinnedCommentId: deleteField() } : {})
+      });
     }
-  );
+
+    await batch.commit();
+
+    // Mirrors addComment, which only rewards the post author for top-level comments by others
+    if (!comment.parentId && post && post.userId !== currentUser.uid) {
+      try {
+        const { handleCommentRemoved } = await import('./levelService');
+        await handleCommentRemoved(post.userId);
+      } catch (xpError) {
+        console.warn('XP revocation failed for removed comment:', xpError);
+      }
+    }
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+};
+
+export const getCommentRevisions = async (commentId: string): Promise<CommentRevision[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, 'comments', commentId, 'revisions'),
+        orderBy('editedAt', 'desc')
+      )
+    );
+
+    return snapshot.docs.map(docSnap => {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...data,
+        editedAt: data.editedAt?.toDate() || new Date(),
+      } as CommentRevision;
+    });
+  } catch (error) {
+    console.error('Error fetching comment revisions:', error);
+    throw error;
+  }
 };
 
 // Tag Operations
@@ -583,12 +1490,15 @@ export const getTrendingTags = async (limitCount = 10): Promise<Tag[]> => {
 };
 
 export const searchTags = async (searchTerm: string): Promise<Tag[]> => {
+  const normalizedTerm = normalizeTag(searchTerm);
+  if (!normalizedTerm) return [];
+
   try {
     const snapshot = await getDocs(
       query(
         collection(db, 'tags'),
-        where('name', '>=', searchTerm),
-        where('name', '<=', searchTerm + '\uf8ff'),
+        where('name', '>=', normalizedTerm),
+        where('name', '<=', normalizedTerm + '\uf8ff'),
         orderBy('name'),
         limit(10)
       )
@@ -695,11 +1605,7 @@ export const unfollowUser = async (targetUserId: string): Promise<void> => {
 // Get accurate user post count
 export const getUserPostCount = async (userId: string): Promise<number> => {
   try {
-    const postsQuery = query(
-      collection(db, 'posts'),
-      where('userId', '==', userId)
-    );
-    const postsSnapshot = await getDocs(postsQuery);
+    const postsSnapshot = await getViewablePostsOfUser(userId);
     return postsSnapshot.size;
   } catch (error) {
     console.error('Error getting user post count:', error);
@@ -710,11 +1616,7 @@ export const getUserPostCount = async (userId: string): Promise<number> => {
 // Get total likes received by user on all their posts
 export const getUserTotalLikes = async (userId: string): Promise<number> => {
   try {
-    const postsQuery = query(
-      collection(db, 'posts'),
-      where('userId', '==', userId)
-    );
-    const postsSnapshot = await getDocs(postsQuery);
+    const postsSnapshot = await getViewablePostsOfUser(userId);
     
     let totalLikes = 0;
     postsSnapshot.forEach((doc) => {
@@ -732,11 +1634,7 @@ export const getUserTotalLikes = async (userId: string): Promise<number> => {
 // Get total comments received by user on all their posts
 export const getUserTotalComments = async (userId: string): Promise<number> => {
   try {
-    const postsQuery = query(
-      collection(db, 'posts'),
-      where('userId', '==', userId)
-    );
-    const postsSnapshot = await getDocs(postsQuery);
+    const postsSnapshot = await getViewablePostsOfUser(userId);
     
     let totalComments = 0;
     postsSnapshot.forEach((doc) => {
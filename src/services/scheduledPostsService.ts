@@ -0,0 +1,262 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot,
+  runTransaction
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { Mention, Post, PostVisibility, ScheduledPost } from '@/types';
+import { normalizeImagesForFirestore, hydrateImagesFromFirestore } from '@/utils/imageUtils';
+import { resolveMentions, notifyMentionedUsers } from './mentionsService';
+import { mergeTags } from '@/utils/tagUtils';
+import { normalizeContentWarning } from '@/utils/contentWarnings';
+import { queueSearchIndexWrite, getPostSearchText } from './searchService';
+import { queueTagUsage } from './postsService';
+
+const MAX_POST_IMAGE_CHARS = 700000;
+
+const mapScheduledPostDoc = (docSnap: any): ScheduledPost => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    images: hydrateImagesFromFirestore(data.images || []),
+    publishAt: data.publishAt?.toDate() || new Date(),
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate(),
+  } as ScheduledPost;
+};
+
+export const schedulePost = async (
+  content: string,
+  tags: string[] = [],
+  images: any[] | undefined,
+  publishAt: Date,
+  mentionedUserIds: string[] = [],
+  visibility?: PostVisibility,
+  contentWarning?: string
+): Promise<string> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    const normalizedImages = normalizeImagesForFirestore(images || []);
+    const imageChars = normalizedImages.reduce((sum, img) => sum + (img.chunks?.join('').length || 0), 0);
+    if (imageChars > MAX_POST_IMAGE_CHARS) {
+      throw new Error('Images are too large for a single post. Please use fewer or smaller images.');
+    }
+
+    const scheduledData: Omit<ScheduledPost, 'id'> = {
+      userId: currentUser.uid,
+      content,
+      tags: mergeTags(tags, content),
+      images: normalizedImages,
+      publishAt,
+      status: 'scheduled',
+      mentionedUserIds,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    // Without an explicit choice the author's default at publish time applies
+    if (visibility) {
+      scheduledData.visibility = visibility;
+    }
+    const warning = normalizeContentWarning(contentWarning);
+    if (warning) {
+      scheduledData.contentWarning = warning;
+    }
+
+    const docRef = await addDoc(collection(db, 'scheduledPosts'), scheduledData);
+    return docRef.id;
+  } catch (error) {
+    console.error('Error scheduling post:', error);
+    throw error;
+  }
+};
+
+export const getScheduledPosts = (userId: string, callback: (posts: ScheduledPost[]) => void) => {
+  return onSnapshot(
+    query(
+      collection(db, 'scheduledPosts'),
+      where('userId', '==', userId),
+      where('status', '==', 'scheduled')
+    ),
+    (snapshot) => {
+      const scheduled = snapshot.docs
+        .map(mapScheduledPostDoc)
+        .sort((a, b) => a.publishAt.getTime() - b.publishAt.getTime());
+      callback(scheduled);
+    }
+  );
+};
+
+export const updateScheduledPost = async (
+  scheduledPostId: string,
+  updates: { content?: string; tags?: string[]; publishAt?: Date }
+): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  if (updates.publishAt && updates.publishAt.getTime() <= Date.now()) {
+    throw new Error('The publish time must be in the future');
+  }
+
+  try {
+    const scheduledRef = doc(db, 'scheduledPosts', scheduledPostId);
+    const scheduledData: Record<string, any> = { ...updates, updatedAt: new Date() };
+
+    // Keep the mentions that survive the edit, like editPost does
+    if (updates.content !== undefined) {
+      const scheduledDoc = await getDoc(scheduledRef);
+      if (!scheduledDoc.exists()) throw new Error('Scheduled post not found');
+      const mentions = await resolveMentions(updates.content, scheduledDoc.data().mentionedUserIds || []);
+      scheduledData.mentionedUserIds = [...new Set(mentions.map(mention => mention.userId))];
+    }
+
+    await updateDoc(scheduledRef, scheduledData);
+  } catch (error) {
+    console.error('Error updating scheduled post:', error);
+    throw error;
+  }
+};
+
+export const cancelScheduledPost = async (scheduledPostId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    await deleteDoc(doc(db, 'scheduledPosts', scheduledPostId));
+  } catch (error) {
+    console.error('Error cancelling scheduled post:', error);
+    throw error;
+  }
+};
+
+// Publishes a single scheduled post. The transaction makes this safe to call from
+// several devices at once: only the first one to flip the status creates the post.
+const publishScheduledPost = async (
+  scheduledPostId: string,
+  mentions: Mention[],
+  defaultVisibility: PostVisibility
+): Promise<string | null> => {
+  const scheduledRef = doc(db, 'scheduledPosts', scheduledPostId);
+  const postRef = doc(collection(db, 'posts'));
+
+  const published = await runTransaction(db, async (transaction) => {
+    const scheduledSnap = await transaction.get(scheduledRef);
+    if (!scheduledSnap.exists()) return null;
+
+    const scheduled = scheduledSnap.data();
+    if (scheduled.status !== 'scheduled') return null;
+
+    // Content may have been edited since scheduling, so hashtags are merged again
+    const tags = mergeTags(scheduled.tags || [], scheduled.content || '');
+    // Tag counts go first: they read the tag documents, which has to happen before any write
+    await queueTagUsage(transaction, tags, [], tagRef => transaction.get(tagRef));
+
+    const postData: Omit<Post, 'id'> = {
+      userId: scheduled.userId,
+      content: scheduled.content,
+      tags,
+      images: scheduled.images || [],
+      likes: 0,
+      comments: 0,
+      shares: 0,
+      reactionCounts: {},
+      visibility: scheduled.visibility || defaultVisibility,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    if (mentions.length > 0) {
+      postData.mentions = mentions;
+    }
+    if (scheduled.contentWarning) {
+      postData.contentWarning = scheduled.contentWarning;
+    }
+
+    transaction.set(postRef, postData);
+    queueSearchIndexWrite(
+      transaction,
+      'post',
+      postRef.id,
+      scheduled.userId,
+      getPostSearchText(postData),
+      postData.createdAt,
+      postData.visibility
+    );
+
+    transaction.update(scheduledRef, {
+      status: 'published',
+      publishedPostId: postRef.id,
+      updatedAt: new Date(),
+    });
+
+    return postRef.id;
+  });
+
+  return published;
+};
+
+export const publishDueScheduledPosts = async (): Promise<number> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) return 0;
+
+  try {
+    const snapshot = await getDocs(
+      query(
+        collection(db, 'scheduledPosts'),
+        where('userId', '==', currentUser.uid),
+        where('status', '==', 'scheduled')
+      )
+    );
+
+    const now = Date.now();
+    const duePosts = snapshot.docs
+      .map(mapScheduledPostDoc)
+      .filter(post => post.publishAt.getTime() <= now);
+
+    let publishedCount = 0;
+    if (duePosts.length === 0) return publishedCount;
+
+    const { getDefaultPostVisibility } = await import('./postsService');
+    const defaultVisibility = await getDefaultPostVisibility(currentUser.uid);
+
+    for (const scheduled of duePosts) {
+      // Mentions are resolved at publish time so privacy changes since scheduling are respected
+      const mentions = await resolveMentions(scheduled.content, scheduled.mentionedUserIds || []);
+      const publishedPostId = await publishScheduledPost(scheduled.id, mentions, defaultVisibility);
+      if (!publishedPostId) continue;
+      publishedCount++;
+
+      await notifyMentionedUsers(mentions, 'post', { postId: publishedPostId }, {
+        visibility: scheduled.visibility || defaultVisibility,
+        ownerId: currentUser.uid
+      });
+
+      try {
+        const { handlePostCreated, trackDailyQuestProgress } = await import('./levelService');
+        const { getUserData } = await import('./postsService');
+        const userData = await getUserData(currentUser.uid);
+        if (userData) {
+          await handlePostCreated(currentUser.uid, userData);
+        }
+        await trackDailyQuestProgress(currentUser.uid, 'create_post');
+      } catch (xpError) {
+        console.warn('XP/quest tracking failed for scheduled post:', xpError);
+      }
+    }
+
+    return publishedCount;
+  } catch (error) {
+    console.error('Error publishing scheduled posts:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,171 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  limit,
+  DocumentReference
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { Post, PostVisibility, SearchIndexEntry, SearchResult, SearchResultType, Tag, User } from '@/types';
+import { buildSearchTerms, getQueryTerms, MAX_QUERY_TOKENS, scoreSearchMatch, tokenizeText } from '@/utils/searchUtils';
+import { getPostById } from './postsService';
+
+// Search index: one `searchIndex/{type}_{refId}` document per post, user and tag, written in
+// the same batch as the source document. Queries look up the words in `terms` and rank the
+// matches on the client. Entries copy the post's visibility: everyone searches public entries,
+// and non-public posts are only found by their author.
+
+const SEARCH_CANDIDATES = 100;
+const DEFAULT_RESULT_LIMIT = 30;
+
+// Index writes join the caller's write batch or transaction
+interface SearchIndexWriter {
+  set(documentRef: DocumentReference, data: any): unknown;
+  delete(documentRef: DocumentReference): unknown;
+}
+
+export interface SearchOptions {
+  types?: SearchResultType[];
+  dateRange?: {
+    start?: Date;
+    end?: Date;
+  };
+  limit?: number;
+}
+
+const getSearchIndexRef = (type: SearchResultType, refId: string) => doc(db, 'searchIndex', `${type}_${refId}`);
+
+export const getPostSearchText = (post: Pick<Post, 'content' | 'tags' | 'poll'>): string => {
+  return [post.content, ...(post.tags || []), ...(post.poll?.options.map(option => option.text) || [])].join(' ');
+};
+
+export const getUserSearchText = (user: Pick<User, 'displayName' | 'bio'>): string => {
+  return [user.displayName, user.bio || ''].join(' ');
+};
+
+// Text without any indexable words removes the entry, so edits that empty a post drop it too
+export const queueSearchIndexWrite = (
+  batch: SearchIndexWriter,
+  type: SearchResultType,
+  refId: string,
+  ownerId: string,
+  text: string,
+  createdAt: any,
+  visibility: PostVisibility = 'public'
+): void => {
+  const entryRef = getSearchIndexRef(type, refId);
+  const tokens = tokenizeText(text);
+
+  if (tokens.length === 0) {
+    batch.delete(entryRef);
+    return;
+  }
+
+  batch.set(entryRef, {
+    type,
+    refId,
+    ownerId,
+    visibility,
+    tokens,
+    terms: buildSearchTerms(tokens),
+    createdAt: createdAt || new Date(),
+    updatedAt: new Date()
+  });
+};
+
+export const queueSearchIndexDelete = (batch: SearchIndexWriter, type: SearchResultType, refId: string): void => {
+  batch.delete(getSearchIndexRef(type, refId));
+};
+
+const mapSearchIndexDoc = (docSnap: any): SearchIndexEntry => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    createdAt: data.createdAt?.toDate?.() || new Date(0),
+    updatedAt: data.updatedAt?.toDate?.(),
+  } as SearchIndexEntry;
+};
+
+// Loads the document an entry points to; entries whose source is gone yield null
+const hydrateSearchResult = async (entry: SearchIndexEntry, score: number): Promise<SearchResult | null> => {
+  const result: SearchResult = { type: entry.type, id: entry.refId, score, createdAt: entry.createdAt };
+
+  switch (entry.type) {
+    case 'post': {
+      const post = await getPostById(entry.refId);
+      if (!post || post.moderationStatus === 'rejected') return null;
+      return { ...result, post };
+    }
+    case 'user': {
+      const userDoc = await getDoc(doc(db, 'users', entry.refId));
+      if (!userDoc.exists()) return null;
+      return { ...result, user: { id: userDoc.id, ...userDoc.data() } as User };
+    }
+    case 'tag': {
+      const tagDoc = await getDoc(doc(db, 'tags', entry.refId));
+      if (!tagDoc.exists()) return null;
+      const data = tagDoc.data();
+      return {
+        ...result,
+        tag: {
+          id: tagDoc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate?.() || new Date(),
+          lastUsed: data.lastUsed?.toDate?.() || new Date(),
+        } as Tag
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// Searches posts, users and tags at once, best matches first and newer entries breaking ties
+export const searchAll = async (searchText: string, options: SearchOptions = {}): Promise<SearchResult[]> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const queryTokens = tokenizeText(searchText).slice(0, MAX_QUERY_TOKENS);
+  if (queryTokens.length === 0) return [];
+
+  try {
+    const queryTerms = getQueryTerms(queryTokens);
+    const [publicSnapshot, ownSnapshot] = await Promise.all([
+      getDocs(query(
+        collection(db, 'searchIndex'),
+        where('terms', 'array-contains-any', queryTerms),
+        where('visibility', '==', 'public'),
+        limit(SEARCH_CANDIDATES)
+      )),
+      getDocs(query(
+        collection(db, 'searchIndex'),
+        where('terms', 'array-contains-any', queryTerms),
+        where('ownerId', '==', currentUser.uid),
+        limit(SEARCH_CANDIDATES)
+      ))
+    ]);
+
+    const entries = new Map<string, SearchIndexEntry>();
+    [...publicSnapshot.docs, ...ownSnapshot.docs].forEach(entryDoc => entries.set(entryDoc.id, mapSearchIndexDoc(entryDoc)));
+
+    const { types, dateRange } = options;
+    const ranked = [...entries.values()]
+      .filter(entry => !types || types.includes(entry.type))
+      .filter(entry => !dateRange?.start || entry.createdAt >= dateRange.start)
+      .filter(entry => !dateRange?.end || entry.createdAt <= dateRange.end)
+      .map(entry => ({ entry, score: scoreSearchMatch(queryTokens, entry.tokens) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || b.entry.createdAt.getTime() - a.entry.createdAt.getTime())
+      .slice(0, options.limit || DEFAULT_RESULT_LIMIT);
+
+    const results = await Promise.all(ranked.map(({ entry, score }) => hydrateSearchResult(entry, score)));
+    return results.filter((result): result is SearchResult => result !== null);
+  } catch (error) {
+    console.error('Error searching:', error);
+    throw error;
+  }
+};
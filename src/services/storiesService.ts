@@ -0,0 +1,197 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  increment,
+  serverTimestamp,
+  writeBatch
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { PostImage, Story, StoryGroup, StoryView, User } from '@/types';
+import { normalizeImagesForFirestore, hydrateImagesFromFirestore } from '@/utils/imageUtils';
+import { getUserData } from './postsService';
+
+// Stories: image or text posts that friends see for 24 hours. Expired stories are left in
+// place but every query filters on expiresAt, so they disappear without a cleanup job.
+// Each viewer gets one `views` document per story, which only the author can list.
+
+const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+export const MAX_STORY_TEXT_LENGTH = 300;
+
+export interface NewStory {
+  text?: string;
+  image?: PostImage;
+  backgroundColor?: string;
+}
+
+const mapStoryDoc = (docSnap: any): Story => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    image: data.image ? hydrateImagesFromFirestore([data.image])[0] : undefined,
+    viewCount: data.viewCount || 0,
+    createdAt: data.createdAt?.toDate?.() || new Date(),
+    expiresAt: data.expiresAt?.toDate?.() || new Date(),
+  } as Story;
+};
+
+// Returns the story and the XP it earned, which is only given for the first story of the day
+export const createStory = async (newStory: NewStory): Promise<{ story: Story; xpAwarded: number }> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  const text = newStory.text?.trim() || '';
+  if (!text && !newStory.image) throw new Error('Add a photo or some text to your story');
+  if (text.length > MAX_STORY_TEXT_LENGTH) {
+    throw new Error(`Stories can have at most ${MAX_STORY_TEXT_LENGTH} characters`);
+  }
+
+  try {
+    const storyRef = doc(collection(db, 'stories'));
+    const createdAt = new Date();
+    const storyData: Omit<Story, 'id'> = {
+      userId: currentUser.uid,
+      type: newStory.image ? 'image' : 'text',
+      ...(text ? { text } : {}),
+      ...(newStory.image ? { image: normalizeImagesForFirestore([newStory.image])[0] } : {}),
+      ...(!newStory.image && newStory.backgroundColor ? { backgroundColor: newStory.backgroundColor } : {}),
+      viewCount: 0,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + STORY_LIFETIME_MS),
+    };
+    await setDoc(storyRef, storyData);
+
+    let xpAwarded = 0;
+    try {
+      const { handleStoryPosted } = await import('./levelService');
+      xpAwarded = (await handleStoryPosted(currentUser.uid)).xpAwarded;
+    } catch (xpError) {
+      console.warn('XP award failed for story:', xpError);
+    }
+
+    return { story: { id: storyRef.id, ...storyData, image: newStory.image }, xpAwarded };
+  } catch (error) {
+    console.error('Error creating story:', error);
+    throw error;
+  }
+};
+
+// The current user's stories first, then friends with unseen stories, then the rest,
+// each by their latest story
+export const getStoryGroups = async (): Promise<StoryGroup[]> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    const userDoc = await getDoc(doc(db, 'users', currentUser.uid));
+    const friends = userDoc.exists() ? ((userDoc.data() as User).friends || []) : [];
+    const authorIds = [currentUser.uid, ...friends.filter(id => id !== currentUser.uid)];
+
+    // Firestore 'in' queries are limited to 10 items
+    const now = new Date();
+    const snapshots = [];
+    for (let i = 0; i < authorIds.length; i += 10) {
+      snapshots.push(await getDocs(query(
+        collection(db, 'stories'),
+        where('userId', 'in', authorIds.slice(i, i + 10)),
+        where('expiresAt', '>', now),
+        orderBy('expiresAt', 'asc')
+      )));
+    }
+    const stories = snapshots.flatMap(snapshot => snapshot.docs.map(mapStoryDoc));
+
+    const withViewed = await Promise.all(stories.map(async story => {
+      if (story.userId === currentUser.uid) return { ...story, viewed: true };
+      try {
+        const viewDoc = await getDoc(doc(db, 'stories', story.id, 'views', currentUser.uid));
+        return { ...story, viewed: viewDoc.exists() };
+      } catch (error) {
+        console.warn('Error loading story view:', error);
+        return { ...story, viewed: false };
+      }
+    }));
+
+    const storiesByUser = new Map<string, Story[]>();
+    withViewed.forEach(story => {
+      storiesByUser.set(story.userId, [...(storiesByUser.get(story.userId) || []), story]);
+    });
+
+    const groups = await Promise.all([...storiesByUser.entries()].map(async ([userId, userStories]) => {
+      const user = await getUserData(userId);
+      if (!user) return null;
+      const sorted = userStories.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      return { user, stories: sorted, hasUnseen: sorted.some(story => !story.viewed) };
+    }));
+
+    const latest = (group: StoryGroup) => group.stories[group.stories.length - 1].createdAt.getTime();
+    return groups
+      .filter((group): group is StoryGroup => group !== null)
+      .sort((a, b) =>
+        Number(b.user.id === currentUser.uid) - Number(a.user.id === currentUser.uid) ||
+        Number(b.hasUnseen) - Number(a.hasUnseen) ||
+        latest(b) - latest(a)
+      );
+  } catch (error) {
+    console.error('Error getting stories:', error);
+    throw error;
+  }
+};
+
+// Records the first view only; authors opening their own stories are not counted
+export const markStoryViewed = async (story: Story): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+  if (story.userId === currentUser.uid || story.viewed) return;
+
+  try {
+    const viewRef = doc(db, 'stories', story.id, 'views', currentUser.uid);
+    const viewDoc = await getDoc(viewRef);
+    if (viewDoc.exists()) return;
+
+    const batch = writeBatch(db);
+    batch.set(viewRef, { userId: currentUser.uid, viewedAt: serverTimestamp() });
+    batch.update(doc(db, 'stories', story.id), { viewCount: increment(1) });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error marking story viewed:', error);
+    throw error;
+  }
+};
+
+// Most recent viewers first; only the author may list them
+export const getStoryViewers = async (storyId: string): Promise<Array<StoryView & { user: User }>> => {
+  try {
+    const snapshot = await getDocs(query(
+      collection(db, 'stories', storyId, 'views'),
+      orderBy('viewedAt', 'desc')
+    ));
+    const viewers = await Promise.all(snapshot.docs.map(async viewDoc => {
+      const data = viewDoc.data();
+      const user = await getUserData(data.userId);
+      return user ? { userId: data.userId, viewedAt: data.viewedAt?.toDate?.() || new Date(), user } : null;
+    }));
+    return viewers.filter((viewer): viewer is StoryView & { user: User } => viewer !== null);
+  } catch (error) {
+    console.error('Error getting story viewers:', error);
+    throw error;
+  }
+};
+
+export const deleteStory = async (storyId: string): Promise<void> => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) throw new Error('Not authenticated');
+
+  try {
+    await deleteDoc(doc(db, 'stories', storyId));
+  } catch (error) {
+    console.error('Error deleting story:', error);
+    throw error;
+  }
+};
@@ -21,6 +21,7 @@ export interface User {
   dailyStreak?: number;
   lastLoginDate?: Date;
   lastDailyQuestDate?: Date;
+  lastStoryDate?: Date; // Day of the last story, for the first-story-of-the-day XP
   dailyQuestAssignedDate?: Date;
   dailyQuestCompletedDate?: Date;
   activeDailyQuest?: DailyQuest;
@@ -35,6 +36,8 @@ export interface User {
   suspendedAt?: Date;
   blockedUsers?: string[];
   privacySettings?: PrivacySettings;
+  pinnedPostIds?: string[]; // Shown above the timeline in this order, at most three
+  highlights?: ProfileHighlight[];
   virtualCurrency?: { [key: string]: number };
   lastCurrencyUpdate?: Date;
   retroactiveXPApplied?: boolean;
@@ -48,16 +51,30 @@ export interface Post {
   content: string;
   images?: PostImage[];
   tags?: string[];
-  likes: number;
+  likes: number; // Every reaction, whatever its type
   comments: number;
   shares: number;
-  likedBy: string[];
+  likedBy?: string[]; // Legacy likes, from before the reactions sub-collection
+  reactions?: Record<string, ReactionType>; // Legacy reactions (userId -> reaction), as above
+  reactionCounts?: Partial<Record<ReactionType, number>>;
+  viewerReaction?: ReactionType | null; // Current user's reaction, looked up separately and never stored
   hasImages?: boolean;
   imageCount?: number;
   hasMultipleImages?: boolean;
   firstImage?: PostImage;
   createdAt: Date;
   updatedAt?: Date;
+  editedAt?: Date;
+  revisionCount?: number;
+  poll?: PostPoll;
+  pollTotalVotes?: number; // Number of voters, not selected options
+  repostOf?: string; // Id of the original post for reposts and quote posts
+  repostType?: 'repost' | 'quote';
+  mentions?: Mention[];
+  visibility?: PostVisibility; // Missing on posts created before visibility was enforced
+  pinnedCommentId?: string; // Top-level comment the author pinned above the others
+  contentWarning?: string; // Label shown over the post's images, which start out blurred
+  contentWarningAppliedBy?: string; // Set when a moderator added the warning
   isLocal?: boolean;
   synced?: boolean;
   isLocallyModified?: boolean;
@@ -67,6 +84,45 @@ export interface Post {
   moderatedAt?: Date;
 }
 
+export type PostVisibility = 'public' | 'friends' | 'private';
+
+// How images in posts with a content warning are shown: blurred until tapped, or always
+export type SensitiveMediaPreference = 'blur' | 'show' | 'hide';
+
+export type ReactionType = 'like' | 'love' | 'laugh' | 'wow' | 'sad' | 'angry';
+
+export interface ReactionDefinition {
+  type: ReactionType;
+  emoji: string;
+  label: string;
+}
+
+// Order shown in the reaction pickers
+export const REACTION_TYPES: ReactionDefinition[] = [
+  { type: 'like', emoji: '👍', label: 'Like' },
+  { type: 'love', emoji: '❤️', label: 'Love' },
+  { type: 'laugh', emoji: '😂', label: 'Haha' },
+  { type: 'wow', emoji: '😮', label: 'Wow' },
+  { type: 'sad', emoji: '😢', label: 'Sad' },
+  { type: 'angry', emoji: '😡', label: 'Angry' },
+];
+
+// posts/{postId}/reactions/{userId} and comments/{commentId}/reactions/{userId}
+export interface Reaction {
+  userId: string;
+  type: ReactionType;
+  targetType: 'post' | 'comment';
+  targetId: string;
+  createdAt: Date;
+}
+
+export interface Mention {
+  userId: string;
+  displayName: string;
+  start: number; // Offset of the '@' in the text
+  length: number; // Includes the '@'
+}
+
 export interface PostImage {
   data: string; // Base64 image data
   width: number;
@@ -77,35 +133,160 @@ export interface PostImage {
   chunkCount?: number;
   mimeType?: string;
   chunked?: boolean;
+  altText?: string; // Description read out by screen readers
 }
 
-export interface Comment {
+export interface PollOption {
   id: string;
-  postId: string;
+  text: string;
+}
+
+export interface PostPoll {
+  options: PollOption[];
+  allowMultiple: boolean;
+  expiresAt?: Date | null;
+}
+
+// Stored at posts/{postId}/pollVotes/{userId} so each user can vote only once
+export interface PollVote {
   userId: string;
+  optionIds: string[];
+  createdAt: Date;
+}
+
+// Immutable snapshot written to posts/{postId}/revisions on every edit
+export interface PostRevision {
+  id: string;
+  postId: string;
+  editedBy: string;
+  previousContent: string;
+  content: string;
+  previousTags: string[];
+  tags: string[];
+  imagesDiff: {
+    added: number;
+    removed: number;
+    previousCount: number;
+    newCount: number;
+  };
+  editedAt: Date;
+}
+
+// Written to comments/{commentId}/revisions on every edit and removed with the comment
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  editedBy: string;
+  previousText: string;
   text: string;
-  likes: number;
-  likedBy: string[];
-  replies: Reply[];
-  repliesCount: number;
-  parentId?: string; // For nested replies
+  editedAt: Date;
+}
+
+// Stories disappear from every query once expiresAt has passed, 24 hours after posting
+export interface Story {
+  id: string;
+  userId: string;
+  type: 'image' | 'text';
+  text?: string; // Caption on image stories, the whole story on text ones
+  image?: PostImage;
+  backgroundColor?: string; // Text stories only
+  viewCount: number; // Distinct viewers, not counting the author
+  createdAt: Date;
+  expiresAt: Date;
+  viewed?: boolean; // Whether the current user has seen it, looked up separately and never stored
+}
+
+// stories/{storyId}/views/{viewerId}
+export interface StoryView {
+  userId: string;
+  viewedAt: Date;
+}
+
+export interface StoryGroup {
+  user: User;
+  stories: Story[]; // Oldest first, the order they are played in
+  hasUnseen: boolean;
+}
+
+export interface ScheduledPost {
+  id: string;
+  userId: string;
+  content: string;
+  tags: string[];
+  images?: PostImage[];
+  publishAt: Date;
+  status: 'scheduled' | 'published';
+  publishedPostId?: string;
+  mentionedUserIds?: string[]; // Resolved into mentions when the post is published
+  visibility?: PostVisibility;
+  contentWarning?: string;
   createdAt: Date;
   updatedAt?: Date;
-  isLocal?: boolean;
-  synced?: boolean;
+  isLocal?: boolean; // Still waiting in the offline queue
 }
 
-export interface Reply {
+export interface PostDraft {
   id: string;
-  commentId: string;
+  userId: string;
+  content: string;
+  tags: string[];
+  images: PostImage[];
+  imageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  imagesLocalOnly?: boolean; // Images were too large to mirror to Firestore
+}
+
+export interface BookmarkCollection {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: Date;
+}
+
+export interface Bookmark {
+  id: string;
+  userId: string;
+  postId: string;
+  postOwnerId: string; // Lets the post's author clean up bookmarks when deleting it
+  collectionId: string;
+  createdAt: Date;
+}
+
+// Named album of the user's own posts, shown on their profile
+export interface ProfileHighlight {
+  id: string;
+  title: string;
+  postIds: string[];
+}
+
+export interface Comment {
+  id: string;
+  postId: string;
   userId: string;
   text: string;
-  likes: number;
-  likedBy: string[];
+  likes: number; // Every reaction, whatever its type
+  likedBy?: string[]; // Legacy likes, from before the reactions sub-collection
+  reactions?: Record<string, ReactionType>; // Legacy reactions (userId -> reaction), as above
+  reactionCounts?: Partial<Record<ReactionType, number>>;
+  viewerReaction?: ReactionType | null; // Current user's reaction, looked up separately and never stored
+  repliesCount: number; // Direct replies only
+  parentId?: string; // Comment this one replies to; top-level comments have none
+  rootId?: string; // Top-level comment of the thread, set on replies only
+  depth?: number; // 0 for top-level comments
+  mentions?: Mention[];
   createdAt: Date;
   updatedAt?: Date;
+  editedAt?: Date;
+  revisionCount?: number;
+  deleted?: boolean; // Soft delete: the text is cleared but the document keeps its replies attached
+  deletedAt?: Date;
+  isLocal?: boolean;
+  synced?: boolean;
 }
 
+export type CommentSort = 'newest' | 'oldest' | 'top';
+
 export interface Tag {
   id: string;
   name: string;
@@ -115,6 +296,31 @@ export interface Tag {
   lastUsed: Date;
 }
 
+export type SearchResultType = 'post' | 'user' | 'tag';
+
+// One document per searchable post, user or tag, kept next to the source document
+export interface SearchIndexEntry {
+  id: string; // `${type}_${refId}`
+  type: SearchResultType;
+  refId: string;
+  ownerId: string; // Empty for tags, which are shared
+  visibility: PostVisibility; // Users and tags are always public
+  tokens: string[]; // Whole words
+  terms: string[]; // Words plus their prefixes, queried with array-contains-any
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  score: number;
+  createdAt: Date;
+  post?: Post;
+  user?: User;
+  tag?: Tag;
+}
+
 export interface Achievement {
   id: string;
   unlockedAt: Date;
@@ -173,7 +379,9 @@ export interface BadgeDefinition {
 
 // XP Sources
 export interface XPSource {
-  action: 'create_post' | 'receive_like_post' | 'receive_comment' | 'receive_like_comment' | 'add_friend' | 'daily_login' | 'daily_quest';
+  action: 'create_post' | 'receive_like_post' | 'receive_comment' | 'receive_like_comment' | 'receive_poll_vote' | 'add_friend' | 'daily_login' | 'daily_quest' |
+    'receive_reaction_love' | 'receive_reaction_laugh' | 'receive_reaction_wow' | 'receive_reaction_sad' | 'receive_reaction_angry' |
+    'daily_story';
   xpAmount: number;
 }
 
@@ -183,7 +391,7 @@ export type LevelTier = 'newcomer' | 'regular' | 'active' | 'power' | 'elite' |
 export interface Notification {
   id: string;
   userId: string;
-  type: 'friend_request' | 'friend_accepted' | 'new_follower' | 'post_liked' | 'comment_added' | 'achievement_unlocked' | 'message';
+  type: 'friend_request' | 'friend_accepted' | 'new_follower' | 'post_liked' | 'comment_added' | 'post_shared' | 'mention' | 'achievement_unlocked' | 'message';
   fromUserId?: string;
   message: string;
   data?: any;
@@ -205,24 +413,56 @@ export interface DirectMessage {
   id: string;
   conversationId: string;
   fromUserId: string;
-  toUserId: string;
+  toUserId: string; // Empty in group conversations
   message: string;
   read: boolean;
   createdAt: Date;
+  type?: 'system'; // Membership and group detail changes, written on behalf of fromUserId
+  image?: PostImage; // Photo attachment; message may be empty when there is one
+  // Receipts: one-to-one messages record when the recipient's device got them and when they were
+  // seen; group messages list the members who have seen them. Seen state is only written by
+  // readers who share their online status.
+  deliveredAt?: Date;
+  readAt?: Date;
+  readBy?: string[];
+  editedAt?: Date;
+  unsent?: boolean; // Tombstone: content is cleared when the sender unsends the message
+  reactions?: Record<string, ReactionType>; // userId -> reaction
+  replyTo?: MessageReplyPreview;
 }
 
+// Quoted message shown above a reply, copied when the reply is sent
+export interface MessageReplyPreview {
+  messageId: string;
+  fromUserId: string;
+  message: string; // Snippet; blanked if the quoted message is unsent
+}
+
+// Typing presence, one document per conversation: user id -> time their typing signal expires
+export interface TypingStatus {
+  typingUntil: Record<string, Date>;
+}
+
+export type ConversationType = 'direct' | 'group';
+
 export interface Conversation {
   id: string;
+  type?: ConversationType; // Missing on one-to-one conversations created before groups existed
   participants: string[];
   lastMessage: string;
   lastMessageAt: Date;
+  // Group conversations only
+  name?: string;
+  avatar?: string;
+  admins?: string[];
+  createdBy?: string;
   otherUserName?: string; // Populated on the client side
   [key: `unreadCount_${string}`]: number;
 }
 
 export interface PrivacySettings {
   profileVisibility: 'public' | 'friends' | 'private';
-  postVisibility: 'public' | 'friends' | 'private';
+  postVisibility: PostVisibility;
   allowMessages: 'everyone' | 'friends' | 'none';
   allowFriendRequests: boolean;
   showOnlineStatus: boolean;
@@ -292,7 +532,7 @@ export interface SyncStatus {
 
 export interface OfflineAction {
   id: string;
-  type: 'CREATE_POST' | 'LIKE_POST' | 'CREATE_COMMENT' | 'CREATE_REPLY' | 'SEND_MESSAGE';
+  type: 'CREATE_POST' | 'LIKE_POST' | 'REACT_POST' | 'CREATE_COMMENT' | 'CREATE_REPLY' | 'SEND_MESSAGE' | 'SCHEDULE_POST';
   userId: string;
   data: any;
   timestamp: number;
@@ -304,6 +544,7 @@ export interface OfflineAction {
 }
 
 export interface ImagePickerResult {
+  uri?: string;
   base64: string;
   width: number;
   height: number;
@@ -415,9 +656,17 @@ export const XP_REWARDS: Record<XPSource['action'], number> = {
   receive_like_post: 2,
   receive_comment: 5,
   receive_like_comment: 1,
+  receive_poll_vote: 1,
   add_friend: 20,
   daily_login: 5,
   daily_quest: 15,
+  daily_story: 5, // First story of the day only
+  // Reactions other than 'like', on posts and comments alike
+  receive_reaction_love: 3,
+  receive_reaction_laugh: 2,
+  receive_reaction_wow: 2,
+  receive_reaction_sad: 1,
+  receive_reaction_angry: 1,
 };
 
 export interface Report {
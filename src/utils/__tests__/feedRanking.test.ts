@@ -0,0 +1,236 @@
+import { Post } from '@/types';
+import { RANKING_WEIGHTS, RankingContext, buildTagInterests, rankPosts, scorePost } from '@/utils/feedRanking';
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+const HOUR = 60 * 60 * 1000;
+
+const makePost = (id: string, overrides: Partial<Post> = {}): Post => ({
+  id,
+  userId: 'author',
+  content: `Post ${id}`,
+  tags: [],
+  likes: 0,
+  comments: 0,
+  shares: 0,
+  createdAt: new Date(NOW),
+  ...overrides,
+});
+
+const hoursAgo = (hours: number) => new Date(NOW - hours * HOUR);
+
+const makeContext = (overrides: Partial<RankingContext> = {}): RankingContext => ({
+  userId: 'viewer',
+  followingIds: [],
+  friendIds: [],
+  tagInterests: {},
+  now: NOW,
+  ...overrides,
+});
+
+describe('buildTagInterests', () => {
+  it('scales the strongest tag to 1', () => {
+    const interests = buildTagInterests([['cats', 'dogs'], ['cats']], []);
+
+    expect(interests).toEqual({ cats: 1, dogs: 0.5 });
+  });
+
+  it('weighs comments twice as much as likes', () => {
+    const interests = buildTagInterests([['cats']], [['dogs']]);
+
+    expect(interests.dogs).toBe(1);
+    expect(interests.cats).toBe(0.5);
+  });
+
+  it('counts a tag repeated on one post once', () => {
+    const interests = buildTagInterests([['cats', 'cats'], ['dogs']], []);
+
+    expect(interests).toEqual({ cats: 1, dogs: 1 });
+  });
+
+  it('returns no interests without engagement', () => {
+    expect(buildTagInterests([], [])).toEqual({});
+    expect(buildTagInterests([[]], [[]])).toEqual({});
+  });
+});
+
+describe('scorePost', () => {
+  describe('recency decay', () => {
+    it('is 1 for a post created now', () => {
+      expect(scorePost(makePost('p'), makeContext()).recency).toBe(1);
+    });
+
+    it('halves every 18 hours', () => {
+      const context = makeContext();
+
+      expect(scorePost(makePost('p', { createdAt: hoursAgo(18) }), context).recency).toBeCloseTo(0.5);
+      expect(scorePost(makePost('p', { createdAt: hoursAgo(36) }), context).recency).toBeCloseTo(0.25);
+    });
+
+    it('treats posts from the future as new', () => {
+      expect(scorePost(makePost('p', { createdAt: hoursAgo(-5) }), makeContext()).recency).toBe(1);
+    });
+
+    it('gives posts without a valid date nothing for recency or velocity', () => {
+      const score = scorePost(makePost('p', { createdAt: new Date('invalid'), likes: 50 }), makeContext());
+
+      expect(score.recency).toBe(0);
+      expect(score.velocity).toBe(0);
+    });
+  });
+
+  describe('engagement velocity', () => {
+    it('is 0 without engagement', () => {
+      expect(scorePost(makePost('p'), makeContext()).velocity).toBe(0);
+    });
+
+    it('weighs comments twice and shares three times as much as likes', () => {
+      const context = makeContext();
+      const createdAt = hoursAgo(4);
+      const likes = scorePost(makePost('p', { createdAt, likes: 6 }), context).velocity;
+
+      expect(scorePost(makePost('p', { createdAt, comments: 3 }), context).velocity).toBeCloseTo(likes);
+      expect(scorePost(makePost('p', { createdAt, shares: 2 }), context).velocity).toBeCloseTo(likes);
+    });
+
+    it('reaches half of its maximum at one interaction per hour', () => {
+      // 6 interactions over 4 hours, plus the 2 hour head start
+      const score = scorePost(makePost('p', { createdAt: hoursAgo(4), likes: 6 }), makeContext());
+
+      expect(score.velocity).toBeCloseTo(0.5);
+    });
+
+    it('favours the same engagement gathered faster', () => {
+      const context = makeContext();
+      const fast = scorePost(makePost('fast', { createdAt: hoursAgo(1), likes: 10 }), context);
+      const slow = scorePost(makePost('slow', { createdAt: hoursAgo(20), likes: 10 }), context);
+
+      expect(fast.velocity).toBeGreaterThan(slow.velocity);
+    });
+
+    it('does not let a brand new post spike', () => {
+      const score = scorePost(makePost('p', { likes: 2 }), makeContext());
+
+      expect(score.velocity).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('friend affinity', () => {
+    it('scores friends above followed accounts above strangers', () => {
+      const context = makeContext({ friendIds: ['friend'], followingIds: ['followed'] });
+
+      expect(scorePost(makePost('p', { userId: 'friend' }), context).affinity).toBe(1);
+      expect(scorePost(makePost('p', { userId: 'followed' }), context).affinity).toBe(0.6);
+      expect(scorePost(makePost('p', { userId: 'stranger' }), context).affinity).toBe(0);
+    });
+
+    it('counts a followed friend as a friend', () => {
+      const context = makeContext({ friendIds: ['friend'], followingIds: ['friend'] });
+
+      expect(scorePost(makePost('p', { userId: 'friend' }), context).affinity).toBe(1);
+    });
+  });
+
+  describe('tag interest', () => {
+    it('adds up the interest in the post tags', () => {
+      const context = makeContext({ tagInterests: { cats: 0.25, dogs: 0.5 } });
+
+      expect(scorePost(makePost('p', { tags: ['cats', 'dogs', 'birds'] }), context).interest).toBeCloseTo(0.75);
+    });
+
+    it('caps the interest at 1', () => {
+      const context = makeContext({ tagInterests: { cats: 1, dogs: 0.5 } });
+
+      expect(scorePost(makePost('p', { tags: ['cats', 'dogs'] }), context).interest).toBe(1);
+    });
+
+    it('is 0 for posts without tags', () => {
+      const context = makeContext({ tagInterests: { cats: 1 } });
+
+      expect(scorePost(makePost('p', { tags: undefined }), context).interest).toBe(0);
+    });
+  });
+
+  it('combines the signals with the ranking weights', () => {
+    const context = makeContext({ friendIds: ['friend'], tagInterests: { cats: 1 } });
+    const score = scorePost(makePost('p', { userId: 'friend', tags: ['cats'], createdAt: hoursAgo(4), likes: 6 }), context);
+
+    expect(score.total).toBeCloseTo(
+      score.recency * RANKING_WEIGHTS.recency +
+      0.5 * RANKING_WEIGHTS.velocity +
+      RANKING_WEIGHTS.affinity +
+      RANKING_WEIGHTS.interest
+    );
+  });
+});
+
+describe('rankPosts', () => {
+  it('orders posts by score', () => {
+    const context = makeContext({ friendIds: ['friend'] });
+    const ranked = rankPosts([
+      makePost('old', { userId: 'a', createdAt: hoursAgo(48) }),
+      makePost('friend', { userId: 'friend', createdAt: hoursAgo(2) }),
+      makePost('new', { userId: 'b', createdAt: hoursAgo(1) }),
+    ], context);
+
+    expect(ranked.map(post => post.id)).toEqual(['friend', 'new', 'old']);
+    expect(ranked[0].recommendationScore).toBeGreaterThan(ranked[1].recommendationScore);
+  });
+
+  it('leaves out the viewer\'s own posts', () => {
+    const ranked = rankPosts([
+      makePost('mine', { userId: 'viewer' }),
+      makePost('theirs', { userId: 'other' }),
+    ], makeContext());
+
+    expect(ranked.map(post => post.id)).toEqual(['theirs']);
+  });
+
+  it('keeps the post fields and adds the score', () => {
+    const post = makePost('p', { userId: 'other', tags: ['cats'] });
+    const [ranked] = rankPosts([post], makeContext());
+
+    expect(ranked).toMatchObject(post);
+    expect(ranked.recommendationScore).toBeCloseTo(scorePost(post, makeContext()).total);
+  });
+
+  describe('author diversity', () => {
+    it('penalises each further post by the same author', () => {
+      const context = makeContext();
+      const ranked = rankPosts([
+        makePost('a1', { userId: 'prolific' }),
+        makePost('a2', { userId: 'prolific' }),
+        makePost('a3', { userId: 'prolific' }),
+      ], context);
+      const baseScore = scorePost(makePost('a1', { userId: 'prolific' }), context).total;
+
+      expect(ranked.map(post => post.recommendationScore)).toEqual([
+        expect.closeTo(baseScore),
+        expect.closeTo(baseScore * 0.6),
+        expect.closeTo(baseScore * 0.36),
+      ]);
+    });
+
+    it('lets other authors through between posts of a prolific one', () => {
+      const ranked = rankPosts([
+        makePost('a1', { userId: 'prolific', createdAt: hoursAgo(1) }),
+        makePost('a2', { userId: 'prolific', createdAt: hoursAgo(1) }),
+        makePost('a3', { userId: 'prolific', createdAt: hoursAgo(1) }),
+        makePost('b1', { userId: 'other', createdAt: hoursAgo(6) }),
+      ], makeContext());
+
+      expect(ranked.map(post => post.id)).toEqual(['a1', 'b1', 'a2', 'a3']);
+    });
+
+    it('penalises the lower scoring posts of an author, not the first one listed', () => {
+      const ranked = rankPosts([
+        makePost('older', { userId: 'prolific', createdAt: hoursAgo(30) }),
+        makePost('newer', { userId: 'prolific', createdAt: hoursAgo(1) }),
+      ], makeContext());
+
+      expect(ranked.map(post => post.id)).toEqual(['newer', 'older']);
+      expect(ranked[1].recommendationScore).toBeCloseTo(
+        scorePost(makePost('older', { userId: 'prolific', createdAt: hoursAgo(30) }), makeContext()).total * 0.6
+      );
+    });
+  });
+});
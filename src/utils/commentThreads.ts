@@ -0,0 +1,75 @@
+import { Comment, CommentSort } from '@/types';
+
+// Builds the reply tree of a post from its flat list of comments. Top-level comments
+// follow the chosen sort with the pinned one first; replies are oldest first so a
+// conversation reads top to bottom. Removed comments only stay as placeholders while
+// they still have replies.
+
+export type CommentNode<T extends Comment> = T & { children: CommentNode<T>[] };
+
+const byNewest = (a: Comment, b: Comment) => b.createdAt.getTime() - a.createdAt.getTime();
+const byOldest = (a: Comment, b: Comment) => a.createdAt.getTime() - b.createdAt.getTime();
+const byLikes = (a: Comment, b: Comment) => (b.likes || 0) - (a.likes || 0) || byNewest(a, b);
+
+export const compareComments = (sort: CommentSort) => {
+  switch (sort) {
+    case 'oldest':
+      return byOldest;
+    case 'top':
+      return byLikes;
+    default:
+      return byNewest;
+  }
+};
+
+const pruneRemoved = <T extends Comment>(nodes: CommentNode<T>[]): CommentNode<T>[] => {
+  return nodes.filter(node => {
+    node.children = pruneRemoved(node.children);
+    return !node.deleted || node.children.length > 0;
+  });
+};
+
+// Replies whose parent is missing (removed, or not synced yet) are shown at the top level
+export const buildCommentTree = <T extends Comment>(
+  comments: T[],
+  sort: CommentSort = 'newest',
+  pinnedCommentId?: string
+): CommentNode<T>[] => {
+  const nodes = new Map<string, CommentNode<T>>();
+  comments.forEach(comment => nodes.set(comment.id, { ...comment, children: [] }));
+
+  const roots: CommentNode<T>[] = [];
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent && parent.id !== node.id) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  nodes.forEach(node => node.children.sort(byOldest));
+
+  const compare = compareComments(sort);
+  return pruneRemoved(roots).sort((a, b) => {
+    if (a.id === pinnedCommentId) return -1;
+    if (b.id === pinnedCommentId) return 1;
+    return compare(a, b);
+  });
+};
+
+export const findCommentNode = <T extends Comment>(
+  nodes: CommentNode<T>[],
+  commentId: string
+): CommentNode<T> | null => {
+  for (const node of nodes) {
+    if (node.id === commentId) return node;
+    const found = findCommentNode(node.children, commentId);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const countDescendants = (node: CommentNode<Comment>): number => {
+  return node.children.reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+};
@@ -0,0 +1,33 @@
+import { Post, SensitiveMediaPreference } from '@/types';
+
+// Content warnings: an optional label on a post, set by its author or by a moderator. Images in
+// such posts are blurred until tapped, unless the viewer chose to always show or always hide
+// sensitive media. The text of the post is never hidden.
+
+export const MAX_CONTENT_WARNING_LENGTH = 60;
+export const DEFAULT_CONTENT_WARNING = 'Sensitive content';
+export const SENSITIVE_MEDIA_BLUR_RADIUS = 30;
+
+export type SensitiveMediaState = 'visible' | 'blurred' | 'hidden';
+
+export const SENSITIVE_MEDIA_OPTIONS: Array<{ value: SensitiveMediaPreference; label: string }> = [
+  { value: 'blur', label: 'Blur' },
+  { value: 'show', label: 'Always show' },
+  { value: 'hide', label: 'Always hide' },
+];
+
+// Trimmed label, or undefined when there is none
+export const normalizeContentWarning = (label?: string | null): string | undefined => {
+  const trimmed = (label || '').trim().replace(/\s+/g, ' ');
+  return trimmed ? trimmed.slice(0, MAX_CONTENT_WARNING_LENGTH) : undefined;
+};
+
+export const getSensitiveMediaState = (
+  post: Pick<Post, 'contentWarning'>,
+  preference: SensitiveMediaPreference,
+  revealed: boolean
+): SensitiveMediaState => {
+  if (!post.contentWarning || preference === 'show') return 'visible';
+  if (preference === 'hide') return 'hidden';
+  return revealed ? 'visible' : 'blurred';
+};
@@ -0,0 +1,86 @@
+import { DirectMessage, MessageReplyPreview, ReactionType, REACTION_TYPES } from '@/types';
+import { stripDiacritics } from './tagUtils';
+
+// Message actions in chats: senders can edit a message for a short while after sending it and
+// unsend it at any time, which leaves a tombstone in the thread. Anyone in the conversation can
+// react with one emoji per message and quote a message in their reply. Search inside a chat
+// matches message text ignoring case and diacritics.
+
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15; // keep in sync with firestore.rules
+export const UNSENT_MESSAGE_TEXT = 'This message was unsent';
+export const MAX_REPLY_SNIPPET_LENGTH = 120;
+
+type MessageContent = Pick<DirectMessage, 'message' | 'image' | 'unsent'>;
+
+// Text used for conversation previews, notifications and reply quotes
+export const getMessagePreview = (message: MessageContent): string => {
+  if (message.unsent) return UNSENT_MESSAGE_TEXT;
+  return message.message || (message.image ? '📷 Photo' : '');
+};
+
+export const canEditMessage = (message: DirectMessage, userId: string, now: Date = new Date()): boolean => {
+  if (message.fromUserId !== userId || message.unsent || message.type === 'system' || !message.message) {
+    return false;
+  }
+  return now.getTime() - message.createdAt.getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+};
+
+export const canUnsendMessage = (message: DirectMessage, userId: string): boolean => {
+  return message.fromUserId === userId && !message.unsent && message.type !== 'system';
+};
+
+export const getReplyPreview = (message: DirectMessage): MessageReplyPreview => {
+  const snippet = getMessagePreview(message);
+  return {
+    messageId: message.id,
+    fromUserId: message.fromUserId,
+    message: snippet.length > MAX_REPLY_SNIPPET_LENGTH
+      ? `${snippet.slice(0, MAX_REPLY_SNIPPET_LENGTH - 3)}...`
+      : snippet,
+  };
+};
+
+// Reactions on a message with how many people picked each, in REACTION_TYPES order
+export const getMessageReactionSummary = (
+  reactions: Record<string, ReactionType> = {}
+): Array<{ type: ReactionType; emoji: string; count: number }> => {
+  const counts: Partial<Record<ReactionType, number>> = {};
+  Object.values(reactions).forEach(type => {
+    counts[type] = (counts[type] || 0) + 1;
+  });
+
+  return REACTION_TYPES
+    .filter(reaction => counts[reaction.type])
+    .map(reaction => ({ type: reaction.type, emoji: reaction.emoji, count: counts[reaction.type]! }));
+};
+
+const normalizeSearchText = (text: string): string => stripDiacritics(text.toLowerCase()).trim();
+
+export const messageMatchesSearch = (message: DirectMessage, searchText: string): boolean => {
+  const needle = normalizeSearchText(searchText);
+  if (!needle || message.unsent || message.type === 'system' || !message.message) return false;
+  return normalizeSearchText(message.message).includes(needle);
+};
+
+// Splits text around each occurrence of the search text so matches can be styled
+export const getSearchHighlightParts = (
+  text: string,
+  searchText: string
+): Array<{ text: string; highlighted: boolean }> => {
+  const needle = normalizeSearchText(searchText);
+  const haystack = stripDiacritics(text.toLowerCase());
+  // Folding can change the length of some characters, in which case offsets no longer line up
+  if (!needle || haystack.length !== text.length) return [{ text, highlighted: false }];
+
+  const parts: Array<{ text: string; highlighted: boolean }> = [];
+  let position = 0;
+  let matchIndex = haystack.indexOf(needle);
+  while (matchIndex !== -1) {
+    if (matchIndex > position) parts.push({ text: text.slice(position, matchIndex), highlighted: false });
+    parts.push({ text: text.slice(matchIndex, matchIndex + needle.length), highlighted: true });
+    position = matchIndex + needle.length;
+    matchIndex = haystack.indexOf(needle, position);
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), highlighted: false });
+  return parts;
+};
@@ -0,0 +1,114 @@
+import { Post } from '@/types';
+
+// Scoring for the "For You" feed. Everything here is pure: the caller loads the
+// candidate posts and the user's signals, so the ranking can be checked with fixtures.
+
+export interface RankingContext {
+  userId: string;
+  followingIds: string[];
+  friendIds: string[];
+  tagInterests: Record<string, number>; // tag -> interest between 0 and 1
+  now: number; // Epoch millis the ages are measured against
+}
+
+export interface PostScoreBreakdown {
+  recency: number;
+  velocity: number;
+  affinity: number;
+  interest: number;
+  total: number;
+}
+
+export const RANKING_WEIGHTS = {
+  recency: 35,
+  velocity: 30,
+  affinity: 20,
+  interest: 15,
+};
+
+const RECENCY_HALF_LIFE_HOURS = 18;
+// Interactions per hour at which velocity reaches half of its maximum
+const VELOCITY_MIDPOINT = 1;
+// Each further post by an author already in the feed keeps this share of its score
+const AUTHOR_REPEAT_PENALTY = 0.6;
+
+const FRIEND_AFFINITY = 1;
+const FOLLOWING_AFFINITY = 0.6;
+const COMMENT_INTEREST_WEIGHT = 2;
+const LIKE_INTEREST_WEIGHT = 1;
+
+const getAgeHours = (post: Post, now: number): number => {
+  const createdAt = post.createdAt instanceof Date ? post.createdAt.getTime() : new Date(post.createdAt).getTime();
+  if (isNaN(createdAt)) return Infinity;
+  return Math.max(0, (now - createdAt) / (1000 * 60 * 60));
+};
+
+// Tags of posts the user engaged with, weighted and scaled so the strongest tag is 1
+export const buildTagInterests = (likedPostTags: string[][], commentedPostTags: string[][]): Record<string, number> => {
+  const weights: Record<string, number> = {};
+  const addTags = (tagLists: string[][], weight: number) => {
+    tagLists.forEach(tags => {
+      new Set(tags).forEach(tag => {
+        weights[tag] = (weights[tag] || 0) + weight;
+      });
+    });
+  };
+
+  addTags(likedPostTags, LIKE_INTEREST_WEIGHT);
+  addTags(commentedPostTags, COMMENT_INTEREST_WEIGHT);
+
+  const strongest = Math.max(0, ...Object.values(weights));
+  if (strongest === 0) return {};
+
+  const interests: Record<string, number> = {};
+  Object.entries(weights).forEach(([tag, weight]) => {
+    interests[tag] = weight / strongest;
+  });
+  return interests;
+};
+
+export const scorePost = (post: Post, context: RankingContext): PostScoreBreakdown => {
+  const ageHours = getAgeHours(post, context.now);
+
+  const recency = Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+
+  // Engagement per hour since posting; the +2 keeps brand new posts from spiking
+  const engagement = (post.likes || 0) + 2 * (post.comments || 0) + 3 * (post.shares || 0);
+  const perHour = isFinite(ageHours) ? engagement / (ageHours + 2) : 0;
+  const velocity = perHour / (perHour + VELOCITY_MIDPOINT);
+
+  const affinity = context.friendIds.includes(post.userId)
+    ? FRIEND_AFFINITY
+    : context.followingIds.includes(post.userId) ? FOLLOWING_AFFINITY : 0;
+
+  const interest = Math.min(1, (post.tags || []).reduce((sum, tag) => sum + (context.tagInterests[tag] || 0), 0));
+
+  const total =
+    recency * RANKING_WEIGHTS.recency +
+    velocity * RANKING_WEIGHTS.velocity +
+    affinity * RANKING_WEIGHTS.affinity +
+    interest * RANKING_WEIGHTS.interest;
+
+  return { recency, velocity, affinity, interest, total };
+};
+
+// Orders candidates by score, leaving out the user's own posts. Repeated authors are
+// penalised so a single prolific account cannot fill the top of the feed.
+export const rankPosts = <T extends Post>(
+  posts: T[],
+  context: RankingContext
+): Array<T & { recommendationScore: number }> => {
+  const scored = posts
+    .filter(post => post.userId !== context.userId)
+    .map(post => ({ post, score: scorePost(post, context).total }))
+    .sort((a, b) => b.score - a.score);
+
+  const authorCounts: Record<string, number> = {};
+  return scored
+    .map(({ post, score }) => {
+      const seen = authorCounts[post.userId] || 0;
+      authorCounts[post.userId] = seen + 1;
+      return { ...post, recommendationScore: score * Math.pow(AUTHOR_REPEAT_PENALTY, seen) };
+    })
+    .sort((a, b) => b.recommendationScore - a.recommendationScore);
+};
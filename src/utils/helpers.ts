@@ -126,6 +126,17 @@ export const sanitizeInput = (input: string): string => {
     .trim();
 };
 
+// Returns the partial name after a trailing '@' while the user is typing a mention
+export const getActiveMentionQuery = (text: string): string | null => {
+  const match = text.match(/(?:^|\s)@([^\s@]{0,30})$/);
+  return match ? match[1] : null;
+};
+
+// Replaces the trailing '@query' with the full '@displayName '
+export const insertMention = (text: string, displayName: string): string => {
+  return text.replace(/@([^\s@]{0,30})$/, `@${displayName} `);
+};
+
 // Array utilities
 export const removeDuplicates = <T>(array: T[]): T[] => {
   return [...new Set(array)];
@@ -204,6 +215,27 @@ export const formatDateTime = (date: Date): string => {
   });
 };
 
+// "YYYY-MM-DD HH:MM" in local time, used by text-based date pickers
+export const formatDateTimeInput = (date: Date): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const parseDateTimeInput = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes);
+
+  // Reject overflowed values such as 2024-02-31
+  if (date.getMonth() !== month - 1 || date.getDate() !== day || hours > 23) {
+    return null;
+  }
+
+  return date;
+};
+
 export const isToday = (date: Date): boolean => {
   const today = new Date();
   return (
@@ -17,6 +17,26 @@ export const FIRESTORE_IMAGE_LIMITS: ImageTransformLimits = {
   chunkSize: 95_000,
 };
 
+export const MAX_ALT_TEXT_LENGTH = 300;
+
+// What screen readers announce for a post image; without alt text only its position is read
+export const getImageAccessibilityLabel = (
+  image: Pick<PostImage, 'altText'> | undefined,
+  index = 0,
+  count = 1
+): string => {
+  const position = count > 1 ? `Image ${index + 1} of ${count}` : 'Image';
+  const altText = image?.altText?.trim();
+  return altText ? `${position}: ${altText}` : `${position}, no description`;
+};
+
+// Cleared alt text drops the field, since Firestore cannot store undefined values
+export const withAltText = (image: PostImage, altText: string = ''): PostImage => {
+  const { altText: _previous, ...rest } = image;
+  const trimmed = altText.trim().slice(0, MAX_ALT_TEXT_LENGTH);
+  return trimmed ? { ...rest, altText: trimmed } : rest;
+};
+
 export interface ImagePickerOptions {
   mediaType?: 'photo' | 'video' | 'mixed';
   allowsMultipleSelection?: boolean;
@@ -33,7 +53,7 @@ export interface CompressionOptions {
   quality: number;
 }
 
-const stripDataUrlPrefix = (value: string): string => {
+export const stripDataUrlPrefix = (value: string): string => {
   if (!value) return '';
   return value.startsWith('data:') ? value.split(',')[1] : value;
 };
@@ -181,7 +201,7 @@ export const pickImageFromGallery = async (options: ImagePickerOptions = {}): Pr
     mediaTypes: ImagePicker.MediaTypeOptions.Images,
     allowsMultipleSelection: options.allowsMultipleSelection || false,
     quality: options.quality || 0.8,
-    allowsEditing: options.allowsEditing || true,
+    allowsEditing: options.allowsEditing ?? true,
     aspect: options.aspect || [4, 3],
     base64: true
   };
@@ -193,6 +213,7 @@ export const pickImageFromGallery = async (options: ImagePickerOptions = {}): Pr
   }
 
   return result.assets.map(asset => ({
+    uri: asset.uri,
     base64: asset.base64 || '',
     width: asset.width,
     height: asset.height,
@@ -210,7 +231,7 @@ export const takePhoto = async (options: ImagePickerOptions = {}): Promise<Image
   const defaultOptions: ImagePicker.ImagePickerOptions = {
     mediaTypes: ImagePicker.MediaTypeOptions.Images,
     quality: options.quality || 0.8,
-    allowsEditing: options.allowsEditing || true,
+    allowsEditing: options.allowsEditing ?? true,
     aspect: options.aspect || [4, 3],
     base64: true
   };
@@ -223,6 +244,7 @@ export const takePhoto = async (options: ImagePickerOptions = {}): Promise<Image
 
   const asset = result.assets[0];
   return {
+    uri: asset.uri,
     base64: asset.base64 || '',
     width: asset.width,
     height: asset.height,
@@ -0,0 +1,74 @@
+import { Post, ProfileHighlight, User } from '@/types';
+import { generateUniqueId } from './helpers';
+
+// Profile layout: up to three pinned posts shown above the timeline, plus named highlight albums
+// that group older posts. Both are stored on the user document as post ids. Ids of posts that are
+// gone or that the viewer may not see are skipped when the profile is laid out.
+
+export const MAX_PINNED_POSTS = 3;
+export const MAX_HIGHLIGHTS = 10;
+export const MAX_HIGHLIGHT_TITLE_LENGTH = 30;
+
+// Pins a post at the end of the pinned row, or unpins it if it is already there
+export const togglePinnedPost = (pinnedPostIds: string[], postId: string): string[] => {
+  if (pinnedPostIds.includes(postId)) {
+    return pinnedPostIds.filter(id => id !== postId);
+  }
+  if (pinnedPostIds.length >= MAX_PINNED_POSTS) {
+    throw new Error(`You can pin at most ${MAX_PINNED_POSTS} posts. Unpin one first.`);
+  }
+  return [...pinnedPostIds, postId];
+};
+
+export const addHighlight = (highlights: ProfileHighlight[], title: string): ProfileHighlight[] => {
+  const trimmedTitle = title.trim();
+  if (!trimmedTitle) throw new Error('Highlight name cannot be empty');
+  if (trimmedTitle.length > MAX_HIGHLIGHT_TITLE_LENGTH) {
+    throw new Error(`Highlight names can be at most ${MAX_HIGHLIGHT_TITLE_LENGTH} characters`);
+  }
+  if (highlights.length >= MAX_HIGHLIGHTS) {
+    throw new Error(`You can have at most ${MAX_HIGHLIGHTS} highlights`);
+  }
+  if (highlights.some(highlight => highlight.title.toLowerCase() === trimmedTitle.toLowerCase())) {
+    throw new Error('You already have a highlight with this name');
+  }
+  return [...highlights, { id: generateUniqueId(), title: trimmedTitle, postIds: [] }];
+};
+
+export const toggleHighlightPost = (
+  highlights: ProfileHighlight[],
+  highlightId: string,
+  postId: string
+): ProfileHighlight[] => {
+  return highlights.map(highlight => {
+    if (highlight.id !== highlightId) return highlight;
+    const postIds = highlight.postIds.includes(postId)
+      ? highlight.postIds.filter(id => id !== postId)
+      : [...highlight.postIds, postId];
+    return { ...highlight, postIds };
+  });
+};
+
+// Pinned posts in the order they were pinned
+export const getPinnedPosts = (posts: Post[], pinnedPostIds: string[]): Post[] => {
+  return pinnedPostIds
+    .map(id => posts.find(post => post.id === id))
+    .filter((post): post is Post => !!post);
+};
+
+// Album posts keep the timeline's order, newest first
+export const getHighlightPosts = (posts: Post[], highlight: ProfileHighlight): Post[] => {
+  return posts.filter(post => highlight.postIds.includes(post.id));
+};
+
+// User document fields that drop a deleted post from the pinned row and every album
+export const getProfileLayoutWithoutPost = (
+  user: Pick<User, 'pinnedPostIds' | 'highlights'>,
+  postId: string
+): Pick<User, 'pinnedPostIds' | 'highlights'> => ({
+  pinnedPostIds: (user.pinnedPostIds || []).filter(id => id !== postId),
+  highlights: (user.highlights || []).map(highlight => ({
+    ...highlight,
+    postIds: highlight.postIds.filter(id => id !== postId),
+  })),
+});
@@ -0,0 +1,96 @@
+import { Post, Comment, ReactionType, REACTION_TYPES } from '@/types';
+
+// Reactions on posts and comments. Each user's reaction is a document keyed by their id in the
+// target's `reactions` sub-collection, and the target only keeps the totals: `likes` counts
+// every reaction and `reactionCounts` tallies them per type. Older documents still list their
+// likers in `likedBy` or the `reactions` map; those are read as a fallback and drained as the
+// users react again.
+
+type Reactable = Pick<Post | Comment, 'likes' | 'likedBy' | 'reactions' | 'reactionCounts' | 'viewerReaction'>;
+
+export interface ReactionGroup {
+  type: ReactionType;
+  userIds: string[];
+}
+
+export const getReactionEmoji = (type: ReactionType): string => {
+  return REACTION_TYPES.find(reaction => reaction.type === type)?.emoji || '👍';
+};
+
+// Reaction stored on the document itself before the sub-collection existed
+export const getLegacyReaction = (item: Reactable, userId: string): ReactionType | null => {
+  return item.reactions?.[userId] || (item.likedBy?.includes(userId) ? 'like' : null);
+};
+
+// `userId` must be the viewer's: a looked-up viewerReaction wins over the legacy fields
+export const getUserReaction = (item: Reactable, userId: string): ReactionType | null => {
+  return item.viewerReaction !== undefined ? item.viewerReaction : getLegacyReaction(item, userId);
+};
+
+export const getReactionCounts = (item: Reactable): Partial<Record<ReactionType, number>> => {
+  if (item.reactionCounts) return item.reactionCounts;
+  return item.likes ? { like: item.likes } : {};
+};
+
+// Reaction types in use, most frequent first
+export const getTopReactions = (item: Reactable, max = 3): ReactionType[] => {
+  const counts = getReactionCounts(item);
+  return REACTION_TYPES
+    .map(reaction => reaction.type)
+    .filter(type => (counts[type] || 0) > 0)
+    .sort((a, b) => (counts[b] || 0) - (counts[a] || 0))
+    .slice(0, max);
+};
+
+// Local copy of a reaction change, for optimistic updates and the offline cache.
+// Passing null removes the user's reaction.
+export const applyReaction = <T extends Reactable>(item: T, userId: string, reaction: ReactionType | null): T => {
+  const previous = getUserReaction(item, userId);
+  if (previous === reaction) return item;
+
+  const reactionCounts = { ...getReactionCounts(item) };
+  if (previous) reactionCounts[previous] = Math.max(0, (reactionCounts[previous] || 0) - 1);
+  if (reaction) reactionCounts[reaction] = (reactionCounts[reaction] || 0) + 1;
+
+  const updated: T = {
+    ...item,
+    viewerReaction: reaction,
+    reactionCounts,
+    likes: Math.max(0, (item.likes || 0) + (!previous ? 1 : !reaction ? -1 : 0)),
+  };
+
+  // The legacy entry moves to the sub-collection, as it does on the server
+  if (item.reactions?.[userId]) {
+    const reactions = { ...item.reactions };
+    delete reactions[userId];
+    updated.reactions = reactions;
+  }
+  if (item.likedBy?.includes(userId)) {
+    updated.likedBy = item.likedBy.filter(id => id !== userId);
+  }
+
+  return updated;
+};
+
+// Who reacted with what, in REACTION_TYPES order, for the "who reacted" sheet.
+// Legacy likes are added for users without a stored reaction.
+export const groupReactionsByType = (
+  item: Reactable,
+  storedReactions: Array<{ userId: string; type: ReactionType }>
+): ReactionGroup[] => {
+  const byUser = new Map<string, ReactionType>();
+  Object.entries(item.reactions || {}).forEach(([userId, type]) => byUser.set(userId, type));
+  (item.likedBy || []).forEach(userId => {
+    if (!byUser.has(userId)) byUser.set(userId, 'like');
+  });
+  storedReactions.forEach(({ userId, type }) => byUser.set(userId, type));
+
+  const byType: Partial<Record<ReactionType, string[]>> = {};
+  byUser.forEach((type, userId) => {
+    byType[type] = [...(byType[type] || []), userId];
+  });
+
+  return REACTION_TYPES
+    .filter(reaction => byType[reaction.type]?.length)
+    .map(reaction => ({ type: reaction.type, userIds: byType[reaction.type]! }));
+};
@@ -0,0 +1,56 @@
+import { stripDiacritics } from './tagUtils';
+
+// Tokenising and scoring for the search index. Text is lower-cased, diacritic-folded and
+// split into words; prefixes are indexed too so "cat" finds "caterpillar".
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_INDEX_TOKENS = 100;
+const MAX_PREFIX_LENGTH = 12;
+export const MAX_QUERY_TOKENS = 10; // Firestore's array-contains-any limit
+
+const EXACT_MATCH_SCORE = 3;
+const PREFIX_MATCH_SCORE = 1;
+
+export const tokenizeText = (text: string): string[] => {
+  const words = stripDiacritics(text.toLowerCase())
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= MIN_TOKEN_LENGTH);
+  return [...new Set(words)].slice(0, MAX_INDEX_TOKENS);
+};
+
+// Every token plus its prefixes up to MAX_PREFIX_LENGTH characters
+export const buildSearchTerms = (tokens: string[]): string[] => {
+  const terms = new Set<string>();
+  tokens.forEach(token => {
+    for (let length = MIN_TOKEN_LENGTH; length <= Math.min(token.length, MAX_PREFIX_LENGTH); length++) {
+      terms.add(token.slice(0, length));
+    }
+    terms.add(token);
+  });
+  return [...terms];
+};
+
+// Values to look up in `terms`; long words are clipped because only their prefixes are stored
+export const getQueryTerms = (queryTokens: string[]): string[] => {
+  return [...new Set(queryTokens.map(token => token.slice(0, MAX_PREFIX_LENGTH)))].slice(0, MAX_QUERY_TOKENS);
+};
+
+// Whole-word matches count more than prefix matches, and entries matching every
+// query word get a bonus. Returns 0 when nothing matches.
+export const scoreSearchMatch = (queryTokens: string[], entryTokens: string[]): number => {
+  let score = 0;
+  let matched = 0;
+
+  queryTokens.forEach(queryToken => {
+    if (entryTokens.includes(queryToken)) {
+      score += EXACT_MATCH_SCORE;
+      matched++;
+    } else if (entryTokens.some(token => token.startsWith(queryToken))) {
+      score += PREFIX_MATCH_SCORE;
+      matched++;
+    }
+  });
+
+  if (matched === 0) return 0;
+  return matched === queryTokens.length ? score + queryTokens.length : score;
+};
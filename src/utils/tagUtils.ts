@@ -0,0 +1,59 @@
+// Canonical tag format shared by posts, the tags collection and tag search:
+// lowercase ASCII letters, digits and underscores, without the leading '#'.
+
+export const MAX_TAG_LENGTH = 30;
+export const MAX_MANUAL_TAGS = 5;
+export const MAX_POST_TAGS = 10;
+
+// Romanian letters are mapped explicitly, covering both the comma and the legacy cedilla forms
+const DIACRITIC_MAP: { [char: string]: string } = {
+  'ă': 'a', 'â': 'a', 'î': 'i', 'ș': 's', 'ş': 's', 'ț': 't', 'ţ': 't',
+};
+
+export const stripDiacritics = (value: string): string => {
+  const mapped = value.replace(/[ăâîșşțţ]/g, char => DIACRITIC_MAP[char]);
+  return typeof mapped.normalize === 'function'
+    ? mapped.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    : mapped;
+};
+
+// Returns the canonical form of a tag, or null when nothing valid is left
+export const normalizeTag = (rawTag: string): string | null => {
+  const tag = stripDiacritics(rawTag.trim().replace(/^#+/, '').toLowerCase())
+    .replace(/[\s-]+/g, '_')
+    .replace(/[^a-z0-9_]/g, '')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+
+  if (!tag || tag.length > MAX_TAG_LENGTH) return null;
+  return tag;
+};
+
+// Finds #hashtags in free text. A '#' only starts a tag at the beginning of the text or after
+// whitespace/punctuation, so URLs with fragments and things like "C#" are not picked up.
+export const extractHashtags = (content: string): string[] => {
+  const hashtagPattern = /(?:^|[^\w\u00C0-\u024F&#/])#([\w\u00C0-\u024F]+)/g;
+  const found: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = hashtagPattern.exec(content)) !== null) {
+    const tag = normalizeTag(match[1]);
+    if (tag && !/^\d+$/.test(tag) && !found.includes(tag)) {
+      found.push(tag);
+    }
+  }
+
+  return found;
+};
+
+// Manual tags come first, then hashtags from the content, deduplicated after normalisation
+export const mergeTags = (manualTags: string[], content: string): string[] => {
+  const merged: string[] = [];
+  for (const rawTag of [...manualTags, ...extractHashtags(content)]) {
+    const tag = normalizeTag(rawTag);
+    if (tag && !merged.includes(tag)) {
+      merged.push(tag);
+    }
+  }
+  return merged.slice(0, MAX_POST_TAGS);
+};